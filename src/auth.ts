@@ -0,0 +1,231 @@
+import { readFileSync } from "fs";
+import { timingSafeEqual } from "crypto";
+import express from "express";
+import { createLocalJWKSet, importSPKI, importX509, JWTPayload, jwtVerify, decodeProtectedHeader } from "jose";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { Config } from "./config.js";
+
+// Static tokens never expire on their own, but the SDK's bearer middleware requires an expiry
+const STATIC_TOKEN_LIFETIME_SECONDS = 365 * 24 * 60 * 60;
+
+export function tokensEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function scopesFromClaims(payload: JWTPayload): string[] {
+  if (typeof payload.scope === "string") {
+    return payload.scope.split(" ").filter(Boolean);
+  }
+  if (Array.isArray(payload.scp)) {
+    return payload.scp.filter((scope): scope is string => typeof scope === "string");
+  }
+  return [];
+}
+
+async function loadPublicKey(keyFile: string, algorithm: string) {
+  const pem = readFileSync(keyFile, "utf-8");
+  return pem.includes("BEGIN CERTIFICATE") ? importX509(pem, algorithm) : importSPKI(pem, algorithm);
+}
+
+// Verifies static bearer tokens from the config first, then JWT access tokens against the local keys
+export function createTokenVerifier(config: Config): OAuthTokenVerifier {
+  const { auth } = config;
+  const staticTokens = auth.tokens.map((entry) => {
+    const token = entry.token ?? (entry.tokenEnv ? process.env[entry.tokenEnv] : undefined);
+    if (!token) {
+      throw new Error(`No token configured for client ${entry.clientId}; set 'token' or the variable named by 'tokenEnv'`);
+    }
+    return { ...entry, token };
+  });
+
+  const jwks = auth.jwt?.jwksFile
+    ? createLocalJWKSet(JSON.parse(readFileSync(auth.jwt.jwksFile, "utf-8")))
+    : undefined;
+
+  // PEM keys are imported once for each configured algorithm, so a token's header can only pick among those.
+  // A key that does not fit an algorithm (an EC key for RS256, say) is left out for that algorithm.
+  const publicKeys = new Map<string, Promise<CryptoKey[]>>();
+  const publicKeysFor = (algorithm: string) => {
+    let keys = publicKeys.get(algorithm);
+    if (!keys) {
+      keys = Promise.allSettled(auth.jwt!.publicKeyFiles.map((keyFile) => loadPublicKey(keyFile, algorithm))).then(
+        (results) => results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []))
+      );
+      publicKeys.set(algorithm, keys);
+    }
+    return keys;
+  };
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const match = staticTokens.find((entry) => tokensEqual(entry.token, token));
+      if (match) {
+        return {
+          token,
+          clientId: match.clientId,
+          scopes: match.scopes,
+          expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_SECONDS,
+        };
+      }
+
+      if (!auth.jwt) {
+        throw new InvalidTokenError("Invalid access token");
+      }
+
+      // The config requires an audience or resourceUrl whenever jwt is set
+      const options = {
+        issuer: auth.jwt.issuer,
+        audience: auth.jwt.audience ?? auth.resourceUrl!,
+        algorithms: auth.jwt.algorithms,
+      };
+
+      let payload: JWTPayload | undefined;
+      let lastError: unknown;
+      try {
+        if (jwks) {
+          payload = (await jwtVerify(token, jwks, options)).payload;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      if (!payload && auth.jwt.publicKeyFiles.length > 0) {
+        let algorithm: string | undefined;
+        try {
+          algorithm = decodeProtectedHeader(token).alg;
+        } catch (_e) {
+          throw new InvalidTokenError("Malformed access token");
+        }
+        if (!algorithm || !auth.jwt.algorithms?.includes(algorithm)) {
+          throw new InvalidTokenError(`Access token algorithm ${algorithm ?? "(none)"} is not allowed`);
+        }
+        for (const key of await publicKeysFor(algorithm)) {
+          try {
+            payload = (await jwtVerify(token, key, options)).payload;
+            break;
+          } catch (error) {
+            lastError = error;
+          }
+        }
+      }
+
+      if (!payload) {
+        throw new InvalidTokenError(
+          `Invalid access token${lastError instanceof Error ? `: ${lastError.message}` : ""}`
+        );
+      }
+
+      const clientId = [payload.client_id, payload.azp, payload.sub].find(
+        (value): value is string => typeof value === "string"
+      );
+      if (!clientId) {
+        throw new InvalidTokenError("Access token does not identify a client");
+      }
+
+      return {
+        token,
+        clientId,
+        scopes: scopesFromClaims(payload),
+        expiresAt: payload.exp,
+        resource: auth.resourceUrl ? new URL(auth.resourceUrl) : undefined,
+      };
+    },
+  };
+}
+
+function matchesToolPattern(pattern: string, toolName: string): boolean {
+  if (pattern.endsWith("*")) {
+    return toolName.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === toolName;
+}
+
+export function isToolAllowed(toolName: string, authInfo: AuthInfo | undefined, config: Config): boolean {
+  if (!config.auth.enabled) {
+    return true;
+  }
+  if (!authInfo) {
+    return false;
+  }
+  return authInfo.scopes.some((scope) =>
+    (config.auth.scopes[scope] ?? []).some((pattern) => matchesToolPattern(pattern, toolName))
+  );
+}
+
+export function getResourceMetadataUrl(config: Config): string | undefined {
+  return config.auth.resourceUrl
+    ? getOAuthProtectedResourceMetadataUrl(new URL(config.auth.resourceUrl))
+    : undefined;
+}
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728), which the MCP authorization spec points clients to
+export function protectedResourceMetadataRouter(config: Config): express.Router {
+  const router = express.Router();
+  const { auth } = config;
+  if (!auth.resourceUrl) {
+    return router;
+  }
+
+  const metadata = {
+    resource: auth.resourceUrl,
+    authorization_servers: auth.authorizationServers,
+    scopes_supported: Object.keys(auth.scopes),
+    bearer_methods_supported: ["header"],
+    resource_name: "yeeyeeass-tools",
+  };
+  // Serve both the root location and the RFC 9728 location with the resource path appended
+  const path = new URL(getResourceMetadataUrl(config)!).pathname;
+  const resourcePath = new URL(auth.resourceUrl).pathname.replace(/\/$/, "");
+  router.get(resourcePath ? [path, `${path}${resourcePath}`] : path, (_req, res) => {
+    res.json(metadata);
+  });
+
+  return router;
+}
+
+export function getAllowedHosts(config: Config): string[] {
+  if (config.allowedHosts.length > 0) {
+    return config.allowedHosts;
+  }
+  const hosts = [`localhost:${config.port}`, `127.0.0.1:${config.port}`, `[::1]:${config.port}`];
+  if (!["0.0.0.0", "::", "localhost", "127.0.0.1"].includes(config.host)) {
+    hosts.push(`${config.host}:${config.port}`);
+  }
+  if (config.auth.resourceUrl) {
+    hosts.push(new URL(config.auth.resourceUrl).host);
+  }
+  return hosts;
+}
+
+// Browsers always send Origin on cross-site requests, so a foreign Origin is rejected; clients without one pass
+export function validateOrigin(config: Config): express.RequestHandler {
+  const allowedOrigins = new Set(
+    config.allowedOrigins.length > 0
+      ? config.allowedOrigins
+      : [
+          ...getAllowedHosts(config).map((host) => `http://${host}`),
+          ...(config.auth.resourceUrl ? [new URL(config.auth.resourceUrl).origin] : []),
+        ]
+  );
+
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin && !allowedOrigins.has(origin)) {
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: `Forbidden: Origin ${origin} is not allowed`,
+        },
+        id: null,
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,292 @@
+import { existsSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { delimiter, dirname, extname, join, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import z from "zod";
+
+const ToolConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+  })
+  .catchall(z.unknown());
+
+const AuthConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Public URL of the /mcp endpoint; used as the OAuth resource identifier and in the protected resource metadata
+  resourceUrl: z.string().url().optional(),
+  // Authorization servers advertised to clients in the protected resource metadata
+  authorizationServers: z.array(z.string().url()).default([]),
+  // Static bearer tokens; prefer `tokenEnv` so the secret stays out of the config file
+  tokens: z
+    .array(
+      z.object({
+        token: z.string().optional(),
+        tokenEnv: z.string().optional(),
+        clientId: z.string(),
+        scopes: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+  // OAuth 2.1 access tokens (JWTs) verified against a local JWKS file and/or PEM public keys
+  jwt: z
+    .object({
+      issuer: z.string().optional(),
+      // Defaults to resourceUrl; one of the two is required
+      audience: z.union([z.string(), z.array(z.string())]).optional(),
+      jwksFile: z.string().optional(),
+      publicKeyFiles: z.array(z.string()).default([]),
+      // Signature algorithms accepted, e.g. ["RS256"]; required with publicKeyFiles, which do not name one
+      algorithms: z.array(z.string()).min(1).optional(),
+    })
+    .optional(),
+  // Tools granted by each scope; "*" matches every tool and a trailing "*" matches a name prefix
+  scopes: z.record(z.array(z.string())).default({ "mcp:tools": ["*"] }),
+}).superRefine((auth, ctx) => {
+  if (auth.jwt && auth.jwt.audience === undefined && auth.resourceUrl === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["jwt", "audience"],
+      message: "Set jwt.audience or resourceUrl, so tokens issued for other services are refused",
+    });
+  }
+  if (auth.jwt && auth.jwt.publicKeyFiles.length > 0 && auth.jwt.algorithms === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["jwt", "algorithms"],
+      message: "Set jwt.algorithms to the algorithms the public keys sign with",
+    });
+  }
+});
+
+const SessionsConfigSchema = z.object({
+  // Sessions without a request for this long are closed; 0 keeps them until the client ends them
+  idleTimeoutMs: z.number().int().min(0).default(30 * 60 * 1000),
+  // Concurrent sessions per client (token client ID, or remote address without auth); 0 means no limit
+  maxPerClient: z.number().int().min(0).default(10),
+  // Where SSE events are kept so a client can resume a dropped stream with Last-Event-ID
+  eventStore: z.enum(["memory", "file", "none"]).default("memory"),
+  eventStoreDir: z.string().default(join(tmpdir(), "yeeyeeass-tools", "events")),
+  maxEventsPerStream: z.number().int().min(1).default(1000),
+});
+
+const HistoryConfigSchema = z.object({
+  // Where prior versions of files overwritten by write_file and edit_file are kept for undo, per MCP session
+  directory: z.string().default(join(tmpdir(), "yeeyeeass-tools", "history")),
+  // Versions kept per session; the oldest are dropped first
+  maxVersions: z.number().int().min(0).default(50),
+  // Larger files are written without keeping their previous version
+  maxFileBytes: z.number().int().min(0).default(10 * 1024 * 1024),
+});
+
+const TrashConfigSchema = z.object({
+  // Where delete_path moves deleted entries and move_path/copy_path the ones they replace
+  directory: z.string().default(join(tmpdir(), "yeeyeeass-tools", "trash")),
+  // Entries kept across all clients; the oldest are dropped first
+  maxEntries: z.number().int().min(0).default(1000),
+  // Total size of the trash; larger entries are refused, the oldest others dropped first
+  maxBytes: z.number().int().min(0).default(1024 * 1024 * 1024),
+});
+
+const NetworkConfigSchema = z.object({
+  // Hosts web requests may reach although they resolve to private or reserved addresses: host names
+  // ("docs.internal", "*.corp.example.com"), optionally with a port ("localhost:8080"), IP addresses or CIDR ranges
+  allowlist: z.array(z.string()).default([]),
+  // Headers http_request adds for matching hosts, so credentials never pass through the model
+  credentials: z
+    .array(
+      z.object({
+        // Host name, "*.example.com" or "host:port", as in `allowlist`
+        host: z.string(),
+        header: z.string().default("Authorization"),
+        // Put before the value with a space, e.g. "Bearer"
+        scheme: z.string().optional(),
+        // Prefer `valueEnv` so the secret stays out of the config file
+        value: z.string().optional(),
+        valueEnv: z.string().optional(),
+        // Also send it over plain http, e.g. to a service on localhost; otherwise only https requests get it
+        allowHttp: z.boolean().default(false),
+      })
+    )
+    .default([]),
+  // Requests in flight to one host at a time; further requests wait
+  maxConcurrentPerHost: z.number().int().min(1).default(2),
+  // Requests started to one host per minute; 0 means no limit
+  requestsPerMinutePerHost: z.number().int().min(0).default(60),
+  // Whether web_fetch skips pages the site's robots.txt disallows
+  respectRobotsTxt: z.boolean().default(true),
+  cache: z
+    .object({
+      enabled: z.boolean().default(true),
+      // Where web_fetch keeps converted pages, so paging and repeated fetches do not download them again
+      directory: z.string().default(join(tmpdir(), "yeeyeeass-tools", "web-cache")),
+      // The least recently used pages are dropped beyond this
+      maxBytes: z.number().int().min(0).default(100 * 1024 * 1024),
+    })
+    .default({}),
+});
+
+const AdminConfigSchema = z.object({
+  // Serves /admin/sessions for listing and terminating sessions; requires its own bearer token
+  enabled: z.boolean().default(false),
+  token: z.string().optional(),
+  tokenEnv: z.string().optional(),
+});
+
+const ConfigSchema = z.object({
+  host: z.string().default("0.0.0.0"),
+  port: z.number().int().min(0).max(65535).default(3000),
+  // Directories the filesystem tools may access; defaults to the directory the server is started from
+  workspaceRoots: z.array(z.string()).default([]),
+  commandPolicyFile: z.string().optional(),
+  // Package names or paths of modules exporting additional tools
+  plugins: z.array(z.string()).default([]),
+  // Per-tool settings: `enabled` plus overrides for the tool's default limits
+  tools: z.record(ToolConfigSchema).default({}),
+  // Host headers accepted on /mcp (DNS rebinding protection); defaults to localhost on the configured port
+  allowedHosts: z.array(z.string()).default([]),
+  // Origin headers accepted from browsers; requests without an Origin header are not affected
+  allowedOrigins: z.array(z.string()).default([]),
+  auth: AuthConfigSchema.default({}),
+  sessions: SessionsConfigSchema.default({}),
+  history: HistoryConfigSchema.default({}),
+  trash: TrashConfigSchema.default({}),
+  network: NetworkConfigSchema.default({}),
+  admin: AdminConfigSchema.default({}),
+});
+
+export type ToolConfig = z.infer<typeof ToolConfigSchema>;
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+export type SessionsConfig = z.infer<typeof SessionsConfigSchema>;
+
+export type Config = z.infer<typeof ConfigSchema> & {
+  // Directory relative paths in the config file are resolved against
+  baseDir: string;
+  configFile?: string;
+};
+
+const DEFAULT_CONFIG_FILES = [
+  "yeeyeeass.config.json",
+  "yeeyeeass.config.yaml",
+  "yeeyeeass.config.yml",
+];
+
+function readConfigFile(configFile: string): unknown {
+  const text = readFileSync(configFile, "utf-8");
+  const extension = extname(configFile).toLowerCase();
+  return extension === ".yaml" || extension === ".yml" ? parseYaml(text) : JSON.parse(text);
+}
+
+function splitList(value: string, separator: string | RegExp = ","): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Environment variables take precedence over the config file
+function applyEnvOverrides(raw: Record<string, unknown>, env: NodeJS.ProcessEnv): Record<string, unknown> {
+  const config: Record<string, unknown> = { ...raw };
+
+  if (env.HOST) {
+    config.host = env.HOST;
+  }
+  if (env.PORT) {
+    config.port = Number(env.PORT);
+  }
+  if (env.WORKSPACE_ROOTS) {
+    config.workspaceRoots = splitList(env.WORKSPACE_ROOTS, delimiter).map((root) => resolve(root));
+  }
+  if (env.COMMAND_POLICY_FILE) {
+    config.commandPolicyFile = resolve(env.COMMAND_POLICY_FILE);
+  }
+  if (env.ALLOWED_HOSTS) {
+    config.allowedHosts = splitList(env.ALLOWED_HOSTS);
+  }
+  if (env.ALLOWED_ORIGINS) {
+    config.allowedOrigins = splitList(env.ALLOWED_ORIGINS);
+  }
+  if (env.PLUGINS) {
+    config.plugins = splitList(env.PLUGINS);
+  }
+  // A 'tools' value that is not an object is left for the schema to report
+  const tools = raw.tools ?? {};
+  if (isRecord(tools)) {
+    const overridden: Record<string, unknown> = { ...tools };
+    for (const [variable, enabled] of [["ENABLED_TOOLS", true], ["DISABLED_TOOLS", false]] as const) {
+      for (const name of splitList(env[variable] ?? "")) {
+        const entry = overridden[name];
+        overridden[name] = { ...(isRecord(entry) ? entry : {}), enabled };
+      }
+    }
+    config.tools = overridden;
+  }
+
+  return config;
+}
+
+export function loadConfig(
+  configFile: string | undefined = process.env.CONFIG_FILE,
+  env: NodeJS.ProcessEnv = process.env
+): Config {
+  const file = configFile
+    ? resolve(configFile)
+    : DEFAULT_CONFIG_FILES.map((name) => resolve(name)).find((path) => existsSync(path));
+
+  if (configFile && !existsSync(file!)) {
+    throw new Error(`Config file not found: ${configFile}`);
+  }
+
+  const raw = file ? readConfigFile(file) : {};
+  if (!isRecord(raw)) {
+    throw new Error(`Invalid config in ${file}: expected an object`);
+  }
+
+  const parsed = ConfigSchema.safeParse(applyEnvOverrides(raw, env));
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid config${file ? ` in ${file}` : ""}: ${issues}`);
+  }
+
+  const baseDir = file ? dirname(file) : process.cwd();
+  const { auth, sessions, history, trash, network } = parsed.data;
+  return {
+    ...parsed.data,
+    workspaceRoots: parsed.data.workspaceRoots.map((root) => resolve(baseDir, root)),
+    commandPolicyFile: parsed.data.commandPolicyFile && resolve(baseDir, parsed.data.commandPolicyFile),
+    auth: {
+      ...auth,
+      jwt: auth.jwt && {
+        ...auth.jwt,
+        jwksFile: auth.jwt.jwksFile && resolve(baseDir, auth.jwt.jwksFile),
+        publicKeyFiles: auth.jwt.publicKeyFiles.map((keyFile) => resolve(baseDir, keyFile)),
+      },
+    },
+    sessions: { ...sessions, eventStoreDir: resolve(baseDir, sessions.eventStoreDir) },
+    history: { ...history, directory: resolve(baseDir, history.directory) },
+    trash: { ...trash, directory: resolve(baseDir, trash.directory) },
+    network: { ...network, cache: { ...network.cache, directory: resolve(baseDir, network.cache.directory) } },
+    baseDir,
+    configFile: file,
+  };
+}
+
+let config: Config | undefined;
+
+export function getConfig(): Config {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
+
+export function setConfig(value: Config): void {
+  config = value;
+}
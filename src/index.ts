@@ -1,99 +1,46 @@
-import express from "express";
-import { randomUUID } from "node:crypto";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-
-const app = express();
-app.use(express.json());
-
-// Map to store transports by session ID
-const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-
-export const server = new McpServer({
-  name: "yeeyeeass-tools",
-  version: "1.0.0",
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { loadConfig, setConfig } from "./config.js";
+import { loadTools } from "./registry.js";
+import { startHttpServer } from "./transports/http.js";
+import { startStdioServer } from "./transports/stdio.js";
+import { logger } from "./utils/logger.js";
+
+const USAGE = `Usage: yeeyeeass-tools [--transport stdio|http] [--config <file>]
+
+  --transport  How clients connect: "http" serves Streamable HTTP on /mcp (default),
+               "stdio" talks to the parent process over stdin/stdout
+  --config     Config file (JSON or YAML); defaults to CONFIG_FILE or yeeyeeass.config.*`;
+
+const { values } = parseArgs({
+  options: {
+    transport: { type: "string", default: process.env.TRANSPORT ?? "http" },
+    config: { type: "string" },
+    help: { type: "boolean", short: "h" },
+  },
 });
 
-require("./tools/hello-world.tool");
-require("./tools/read-file.tool");
-require("./tools/write-file.tool");
-require("./tools/read-many-files.tool");
-require("./tools/shell.tool");
-require("./tools/web-fetch.tool");
-
-// Handle POST requests for client-to-server communication
-app.post("/mcp", async (req, res) => {
-  // Check for existing session ID
-  const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  let transport: StreamableHTTPServerTransport;
+if (values.help) {
+  console.error(USAGE);
+  process.exit(0);
+}
 
-  if (sessionId && transports[sessionId]) {
-    // Reuse existing transport
-    transport = transports[sessionId];
-  } else if (!sessionId && isInitializeRequest(req.body)) {
-    // New initialization request
-    transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
-      onsessioninitialized: (sessionId) => {
-        // Store the transport by session ID
-        transports[sessionId] = transport;
-      },
-      // DNS rebinding protection is disabled by default for backwards compatibility. If you are running this server
-      // locally, make sure to set:
-      // enableDnsRebindingProtection: true,
-      // allowedHosts: ['127.0.0.1'],
-    });
+if (values.transport !== "http" && values.transport !== "stdio") {
+  console.error(`Unknown transport: ${values.transport}\n\n${USAGE}`);
+  process.exit(1);
+}
 
-    // Clean up transport when closed
-    transport.onclose = () => {
-      if (transport.sessionId) {
-        delete transports[transport.sessionId];
-      }
-    };
+try {
+  const config = loadConfig(values.config ?? process.env.CONFIG_FILE);
+  setConfig(config);
+  const tools = await loadTools(config);
 
-    // ... set up server resources, tools, and prompts ...
-
-    // Connect to the MCP server
-    await server.connect(transport);
+  if (values.transport === "stdio") {
+    await startStdioServer(config, tools);
   } else {
-    // Invalid request
-    res.status(400).json({
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Bad Request: No valid session ID provided",
-      },
-      id: null,
-    });
-    return;
-  }
-
-  // Handle the request
-  await transport.handleRequest(req, res, req.body);
-});
-
-// Reusable handler for GET and DELETE requests
-const handleSessionRequest = async (
-  req: express.Request,
-  res: express.Response
-) => {
-  const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
-    res.status(400).send("Invalid or missing session ID");
-    return;
+    startHttpServer(config, tools);
   }
-
-  const transport = transports[sessionId];
-  await transport.handleRequest(req, res);
-};
-
-// Handle GET requests for server-to-client notifications via SSE
-app.get("/mcp", handleSessionRequest);
-
-// Handle DELETE requests for session termination
-app.delete("/mcp", handleSessionRequest);
-
-app.listen(3000, () => {
-  console.log("Server is running on http://localhost:3000");
-});
+} catch (error) {
+  logger.error(`Failed to start: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,125 @@
+import { readdirSync } from "fs";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isToolAllowed } from "./auth.js";
+import { Config } from "./config.js";
+import { registerTool, ToolDefinition } from "./tool.js";
+import { errorResult } from "./utils/tool-result.js";
+
+const TOOLS_DIR = join(dirname(fileURLToPath(import.meta.url)), "tools");
+
+export interface LoadedTool {
+  tool: ToolDefinition;
+  // Where the tool came from: "builtin" or the plugin specifier from the config
+  source: string;
+}
+
+function isToolDefinition(value: unknown): value is ToolDefinition {
+  const tool = value as ToolDefinition;
+  return (
+    typeof tool === "object" &&
+    tool !== null &&
+    typeof tool.name === "string" &&
+    typeof tool.description === "string" &&
+    typeof tool.schema === "object" &&
+    typeof tool.handler === "function"
+  );
+}
+
+// A module may export its tools as the default export or as `tools`
+function toolsFromModule(module: Record<string, unknown>, source: string): ToolDefinition[] {
+  const exported = module.default ?? module.tools;
+  const tools = Array.isArray(exported) ? exported : [exported];
+
+  if (tools.length === 0 || !tools.every(isToolDefinition)) {
+    throw new Error(`${source} does not export a tool definition or a list of them`);
+  }
+  return tools;
+}
+
+async function loadBuiltinTools(): Promise<LoadedTool[]> {
+  const files = readdirSync(TOOLS_DIR)
+    .filter((file) => /\.tool\.(ts|js)$/.test(file) && !file.endsWith(".d.ts"))
+    .sort();
+
+  const loaded: LoadedTool[] = [];
+  for (const file of files) {
+    const module = await import(pathToFileURL(join(TOOLS_DIR, file)).href);
+    for (const tool of toolsFromModule(module, file)) {
+      loaded.push({ tool, source: "builtin" });
+    }
+  }
+  return loaded;
+}
+
+async function loadPluginTools(plugin: string, baseDir: string): Promise<LoadedTool[]> {
+  // Paths are resolved against the config file; anything else is treated as a package name
+  const specifier =
+    plugin.startsWith(".") || isAbsolute(plugin)
+      ? pathToFileURL(resolve(baseDir, plugin)).href
+      : plugin;
+
+  let module: Record<string, unknown>;
+  try {
+    module = await import(specifier);
+  } catch (error) {
+    throw new Error(
+      `Failed to load plugin ${plugin}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  return toolsFromModule(module, `Plugin ${plugin}`).map((tool) => ({ tool, source: plugin }));
+}
+
+// Discovers built-in and plugin tools and keeps the ones the config enables (all tools are enabled unless disabled)
+export async function loadTools(config: Config): Promise<LoadedTool[]> {
+  const loaded = [...(await loadBuiltinTools())];
+  for (const plugin of config.plugins) {
+    loaded.push(...(await loadPluginTools(plugin, config.baseDir)));
+  }
+
+  const seen = new Map<string, string>();
+  for (const { tool, source } of loaded) {
+    const existing = seen.get(tool.name);
+    if (existing) {
+      throw new Error(`Tool ${tool.name} from ${source} conflicts with the one from ${existing}`);
+    }
+    seen.set(tool.name, source);
+  }
+
+  const unknown = Object.keys(config.tools).filter((name) => !seen.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Config refers to unknown tools: ${unknown.join(", ")}`);
+  }
+
+  return loaded.filter(({ tool }) => config.tools[tool.name]?.enabled !== false);
+}
+
+// Registers the tools the session's token may use and re-checks the scopes of the token sent with each call
+export function registerTools(
+  server: McpServer,
+  tools: LoadedTool[],
+  config: Config,
+  authInfo?: AuthInfo
+): void {
+  for (const { tool } of tools) {
+    if (!isToolAllowed(tool.name, authInfo, config)) {
+      continue;
+    }
+
+    const { enabled: _enabled, ...overrides } = config.tools[tool.name] ?? {};
+    registerTool(
+      server,
+      {
+        ...tool,
+        handler: (args, extra, options) =>
+          isToolAllowed(tool.name, extra.authInfo, config)
+            ? tool.handler(args, extra, options)
+            : errorResult("FORBIDDEN", `The access token does not grant a scope for ${tool.name}.`),
+      },
+      overrides
+    );
+  }
+}
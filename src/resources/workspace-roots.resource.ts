@@ -0,0 +1,24 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getWorkspaceRootUris } from "../utils/workspace.js";
+
+// Expose the workspace roots so clients know which paths the filesystem tools can reach
+export function registerWorkspaceRootsResource(server: McpServer): void {
+  server.resource(
+    "workspace_roots",
+    "roots://workspace",
+    {
+      description:
+        "The workspace roots the filesystem tools are allowed to access, in the same shape as MCP roots ({ uri, name }).",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({ roots: getWorkspaceRootUris() }, null, 2),
+        },
+      ],
+    }),
+  );
+}
@@ -0,0 +1,25 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Config } from "./config.js";
+import { LoadedTool, registerTools } from "./registry.js";
+import { registerWorkspaceRootsResource } from "./resources/workspace-roots.resource.js";
+
+// Each MCP session gets its own server instance so responses and notifications reach the right transport
+export function createServer(tools: LoadedTool[], config: Config, authInfo?: AuthInfo): McpServer {
+  const server = new McpServer(
+    {
+      name: "yeeyeeass-tools",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        logging: {},
+      },
+    }
+  );
+
+  registerTools(server, tools, config, authInfo);
+  registerWorkspaceRootsResource(server);
+
+  return server;
+}
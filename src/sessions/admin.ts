@@ -0,0 +1,49 @@
+import express from "express";
+import { tokensEqual } from "../auth.js";
+import { Config } from "../config.js";
+import { SessionManager } from "./session-manager.js";
+
+// Lists and terminates active sessions; every request needs the admin bearer token
+export function adminRouter(config: Config, sessions: SessionManager): express.Router {
+  const router = express.Router();
+  const { admin } = config;
+  if (!admin.enabled) {
+    return router;
+  }
+
+  const adminToken = admin.token ?? (admin.tokenEnv ? process.env[admin.tokenEnv] : undefined);
+  if (!adminToken) {
+    throw new Error("No admin token configured; set 'admin.token' or the variable named by 'admin.tokenEnv'");
+  }
+
+  router.use("/admin", (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token || !tokensEqual(token, adminToken)) {
+      res.status(401).set("WWW-Authenticate", "Bearer").json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  });
+
+  router.get("/admin/sessions", (_req, res) => {
+    res.json({
+      sessions: sessions.list().map((session) => ({
+        id: session.id,
+        clientId: session.clientId,
+        createdAt: session.createdAt.toISOString(),
+        lastActivityAt: session.lastActivityAt.toISOString(),
+        activeRequests: session.activeRequests,
+      })),
+    });
+  });
+
+  router.delete("/admin/sessions/:id", async (req, res) => {
+    if (!(await sessions.terminate(req.params.id))) {
+      res.status(404).json({ error: `Session ${req.params.id} not found` });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
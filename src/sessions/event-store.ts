@@ -0,0 +1,164 @@
+import { appendFile, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { SessionsConfig } from "../config.js";
+
+/**
+ * Event store for one MCP session, so a client can resume a dropped SSE stream with Last-Event-ID.
+ * Event IDs are `<streamId>.<sequence>`; only the newest `maxEventsPerStream` events of each stream are kept.
+ */
+export interface SessionEventStore extends EventStore {
+  // Drops every stored event once the session is gone
+  clear(): Promise<void>;
+}
+
+interface StoredEvent {
+  sequence: number;
+  message: JSONRPCMessage;
+}
+
+function parseEventId(eventId: EventId): { streamId: StreamId; sequence: number } | undefined {
+  const separator = eventId.lastIndexOf(".");
+  const sequence = Number(eventId.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(sequence)) {
+    return undefined;
+  }
+  return { streamId: eventId.slice(0, separator), sequence };
+}
+
+export class MemoryEventStore implements SessionEventStore {
+  private streams = new Map<StreamId, { nextSequence: number; events: StoredEvent[] }>();
+
+  constructor(private maxEventsPerStream: number) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = { nextSequence: 1, events: [] };
+      this.streams.set(streamId, stream);
+    }
+
+    const sequence = stream.nextSequence++;
+    stream.events.push({ sequence, message });
+    if (stream.events.length > this.maxEventsPerStream) {
+      stream.events.splice(0, stream.events.length - this.maxEventsPerStream);
+    }
+    return `${streamId}.${sequence}`;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    const stream = parsed && this.streams.get(parsed.streamId);
+    if (!parsed || !stream) {
+      return "";
+    }
+
+    for (const event of stream.events) {
+      if (event.sequence > parsed.sequence) {
+        await send(`${parsed.streamId}.${event.sequence}`, event.message);
+      }
+    }
+    return parsed.streamId;
+  }
+
+  async clear(): Promise<void> {
+    this.streams.clear();
+  }
+}
+
+// Appends events as JSON lines, one file per stream, so they survive memory pressure and can be inspected
+export class FileEventStore implements SessionEventStore {
+  private streams = new Map<StreamId, { nextSequence: number; count: number; writes: Promise<void> }>();
+
+  constructor(private directory: string, private maxEventsPerStream: number) {}
+
+  private streamFile(streamId: StreamId): string {
+    return join(this.directory, `${encodeURIComponent(streamId)}.jsonl`);
+  }
+
+  private async readEvents(streamId: StreamId): Promise<StoredEvent[]> {
+    let text: string;
+    try {
+      text = await readFile(this.streamFile(streamId), "utf-8");
+    } catch (_e) {
+      return [];
+    }
+    return text
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as StoredEvent);
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = { nextSequence: 1, count: 0, writes: mkdir(this.directory, { recursive: true }).then(() => {}) };
+      this.streams.set(streamId, stream);
+    }
+
+    const sequence = stream.nextSequence++;
+    const state = stream;
+    // Writes are chained per stream so events land in the file in order
+    state.writes = state.writes.then(async () => {
+      await appendFile(this.streamFile(streamId), `${JSON.stringify({ sequence, message })}\n`, "utf-8");
+      state.count++;
+      // Compact once the file holds twice the limit, keeping the newest events
+      if (state.count > this.maxEventsPerStream * 2) {
+        const events = (await this.readEvents(streamId)).slice(-this.maxEventsPerStream);
+        await writeFile(
+          this.streamFile(streamId),
+          events.map((event) => `${JSON.stringify(event)}\n`).join(""),
+          "utf-8"
+        );
+        state.count = events.length;
+      }
+    });
+    await state.writes;
+
+    return `${streamId}.${sequence}`;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    if (!parsed) {
+      return "";
+    }
+
+    await this.streams.get(parsed.streamId)?.writes;
+    const events = await this.readEvents(parsed.streamId);
+    if (events.length === 0) {
+      return "";
+    }
+
+    for (const event of events.slice(-this.maxEventsPerStream)) {
+      if (event.sequence > parsed.sequence) {
+        await send(`${parsed.streamId}.${event.sequence}`, event.message);
+      }
+    }
+    return parsed.streamId;
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([...this.streams.values()].map((stream) => stream.writes.catch(() => {})));
+    this.streams.clear();
+    await rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+export function createEventStore(config: SessionsConfig, sessionId: string): SessionEventStore | undefined {
+  switch (config.eventStore) {
+    case "memory":
+      return new MemoryEventStore(config.maxEventsPerStream);
+    case "file":
+      return new FileEventStore(join(config.eventStoreDir, sessionId), config.maxEventsPerStream);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,117 @@
+import { ServerResponse } from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SessionsConfig } from "../config.js";
+import { logger } from "../utils/logger.js";
+import { SessionEventStore } from "./event-store.js";
+
+export interface ManagedSession {
+  id: string;
+  // Token client ID, or the remote address when authentication is off
+  clientId: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  eventStore?: SessionEventStore;
+  createdAt: Date;
+  lastActivityAt: Date;
+  // Requests whose response is still open, such as SSE streams; the session is not idle while there are any
+  activeRequests: number;
+}
+
+// Sweeps at most this often, so short idle timeouts still expire close to on time
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Tracks the open HTTP sessions, closes idle ones and enforces the per-client limit
+export class SessionManager {
+  private sessions = new Map<string, ManagedSession>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private config: SessionsConfig) {
+    if (config.idleTimeoutMs > 0) {
+      const interval = Math.min(config.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS);
+      this.sweepTimer = setInterval(() => {
+        this.closeIdleSessions().catch((error) => {
+          logger.error(`Idle session sweep failed: ${error instanceof Error ? error.message : error}`);
+        });
+      }, interval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  get(id: string): ManagedSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  list(): ManagedSession[] {
+    return [...this.sessions.values()];
+  }
+
+  add(session: ManagedSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  // Forgets a session once its transport has closed
+  remove(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    session.eventStore?.clear().catch((error) => {
+      logger.warn(`Failed to clear events of session ${id}: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  // Counts the request as activity until its response closes, so a long-lived stream keeps the session open
+  track(id: string, res: ServerResponse): void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    session.activeRequests++;
+    session.lastActivityAt = new Date();
+    res.once("close", () => {
+      session.activeRequests--;
+      session.lastActivityAt = new Date();
+    });
+  }
+
+  hasCapacity(clientId: string): boolean {
+    if (this.config.maxPerClient === 0) {
+      return true;
+    }
+    const open = this.list().filter((session) => session.clientId === clientId).length;
+    return open < this.config.maxPerClient;
+  }
+
+  // Closes the session's transport and server, which also runs the transport's cleanup
+  async terminate(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    await session.server.close();
+    this.remove(id);
+    return true;
+  }
+
+  // Stops the idle sweep; called when the HTTP server shuts down
+  close(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    for (const session of this.list()) {
+      if (session.activeRequests === 0 && session.lastActivityAt.getTime() < cutoff) {
+        logger.info(`Closing session ${session.id} after ${this.config.idleTimeoutMs}ms without requests`);
+        try {
+          await this.terminate(session.id);
+        } catch (error) {
+          logger.warn(`Failed to close idle session ${session.id}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+  }
+}
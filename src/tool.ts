@@ -0,0 +1,51 @@
+import z, { ZodRawShape } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { exceptionResult } from "./utils/tool-result.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ToolOptions = Record<string, unknown>;
+
+/**
+ * A tool module's default export: one definition or a list of them.
+ * Built-in tools live in `src/tools/*.tool.ts`; plugin packages export the same shape.
+ */
+export interface ToolDefinition<Args extends ZodRawShape = ZodRawShape, Options extends ToolOptions = ToolOptions> {
+  name: string;
+  description: string;
+  schema: Args;
+  // Shape of `structuredContent` in successful results; failures carry `{ error: { code, message } }` instead
+  outputSchema?: ZodRawShape;
+  // Default limits, overridable per deployment under `tools.<name>` in the config file
+  defaults?: Options;
+  // A method rather than a function property, so any tool is assignable to the plain `ToolDefinition`
+  handler(
+    args: z.objectOutputType<Args, z.ZodTypeAny>,
+    extra: ToolExtra,
+    options: Options
+  ): CallToolResult | Promise<CallToolResult>;
+}
+
+export function defineTool<Args extends ZodRawShape, Options extends ToolOptions = {}>(
+  tool: ToolDefinition<Args, Options>
+): ToolDefinition<Args, Options> {
+  return tool;
+}
+
+export function registerTool(server: McpServer, tool: ToolDefinition, overrides: ToolOptions = {}): void {
+  const options = { ...tool.defaults, ...overrides };
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema: tool.outputSchema },
+    async (args, extra) => {
+      // Errors a handler did not catch still get an error code
+      try {
+        return await tool.handler(args, extra, options);
+      } catch (error) {
+        return exceptionResult(error);
+      }
+    }
+  );
+}
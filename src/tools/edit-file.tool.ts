@@ -0,0 +1,149 @@
+import z from "zod";
+import { createTwoFilesPatch } from "diff";
+import { writeWithHistory } from "../utils/file-history.js";
+import { checkExpectedHash, checkFileUnchanged, hashContent, recordFileRead } from "../utils/file-tracker.js";
+import { ErrorCode, exceptionResult, ToolError } from "../utils/tool-result.js";
+import { encodeText, readTextFile } from "../utils/text-encoding.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+interface Edit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+class EditError extends ToolError {
+  constructor(message: string, code: ErrorCode = "INVALID_ARGUMENT") {
+    super(message, code);
+    this.name = "EditError";
+  }
+}
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+// Applies the edits in order to an in-memory copy, so a failing edit leaves the file untouched
+function applyEdits(content: string, edits: Edit[]): { content: string; replacements: number } {
+  let updated = content;
+  let replacements = 0;
+
+  edits.forEach((edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1}: ` : "";
+
+    if (edit.old_string === "") {
+      throw new EditError(`${label}old_string cannot be empty.`);
+    }
+    if (edit.old_string === edit.new_string) {
+      throw new EditError(`${label}old_string and new_string are identical.`);
+    }
+
+    const occurrences = countOccurrences(updated, edit.old_string);
+    if (occurrences === 0) {
+      throw new EditError(`${label}old_string was not found in the file.`, "NO_MATCH");
+    }
+    if (occurrences > 1 && !edit.replace_all) {
+      throw new EditError(
+        `${label}old_string matches ${occurrences} locations. Provide more surrounding context to make it unique, or set replace_all=true.`,
+        "AMBIGUOUS_MATCH"
+      );
+    }
+
+    updated = edit.replace_all
+      ? updated.split(edit.old_string).join(edit.new_string)
+      : updated.replace(edit.old_string, () => edit.new_string);
+    replacements += edit.replace_all ? occurrences : 1;
+  });
+
+  return { content: updated, replacements };
+}
+
+// Register edit_file tool
+export default defineTool({
+  name: "edit_file",
+  description: "Makes exact string replacements in an existing file and returns a unified diff of the change. The file must have been read with 'read_file' first and must not have changed on disk since, unless 'expected_sha256' is given, which is checked instead. Either pass a single 'old_string'/'new_string' pair or a list of 'edits' that are applied in order; if any edit fails, none are written. The previous content is kept so the edit can be reverted with 'undo_last_write'.",
+  schema: {
+    file_path: z.string().describe("The path to the file to edit (e.g., '/home/user/project/file.txt'). Relative paths are resolved against the session's working directory. Must be inside one of the server's workspace roots."),
+    old_string: z.string().optional().describe("The exact text to replace. Must match exactly one location unless 'replace_all' is set."),
+    new_string: z.string().optional().describe("The text to replace 'old_string' with."),
+    replace_all: z.boolean().optional().describe("Optional: Replace every occurrence of 'old_string' instead of requiring a unique match. Defaults to false."),
+    edits: z
+      .array(
+        z.object({
+          old_string: z.string().describe("The exact text to replace."),
+          new_string: z.string().describe("The replacement text."),
+          replace_all: z.boolean().optional().describe("Replace every occurrence instead of requiring a unique match."),
+        })
+      )
+      .optional()
+      .describe("Optional: A batch of edits applied in order, atomically. Use instead of 'old_string'/'new_string'."),
+    expected_sha256: z
+      .string()
+      .regex(/^[0-9a-fA-F]{64}$/)
+      .optional()
+      .describe("Optional: SHA-256 of the content you expect to edit (as reported by 'read_file'). The edit is refused if the file on disk differs."),
+  },
+  outputSchema: {
+    path: z.string().describe("The resolved path of the file."),
+    replacements: z.number().describe("Number of replaced occurrences across all edits."),
+    diff: z.string().describe("Unified diff of the change."),
+    sha256: z.string().describe("SHA-256 of the edited file."),
+    versionId: z.string().optional().describe("ID of the kept previous version, for 'restore_file_version'."),
+  },
+  handler: async ({ file_path: requestedPath, old_string, new_string, replace_all, edits, expected_sha256 }, extra) => {
+    try {
+      const file_path = resolveWorkspacePath(requestedPath, getWorkingDirectory(extra.sessionId));
+
+      let allEdits: Edit[];
+      if (edits && edits.length > 0) {
+        if (old_string !== undefined || new_string !== undefined) {
+          throw new EditError("Pass either 'edits' or 'old_string'/'new_string', not both.");
+        }
+        allEdits = edits;
+      } else if (old_string !== undefined && new_string !== undefined) {
+        allEdits = [{ old_string, new_string, replace_all }];
+      } else {
+        throw new EditError("Either 'edits' or both 'old_string' and 'new_string' must be provided.");
+      }
+
+      const staleError =
+        expected_sha256 !== undefined
+          ? checkExpectedHash(file_path, expected_sha256)
+          : checkFileUnchanged(extra.sessionId, file_path);
+      if (staleError) {
+        throw staleError;
+      }
+
+      // Files with CRLF line endings are edited with LF ones, so that 'old_string' matches; encodeText restores them
+      const { text, format } = readTextFile(file_path);
+      const original = format.lineEndings === "crlf" ? text.replace(/\r\n/g, "\n") : text;
+      const { content, replacements } = applyEdits(original, allEdits);
+
+      const data = encodeText(content, format);
+      const version = writeWithHistory(extra.sessionId, file_path, data, "edit_file");
+      recordFileRead(extra.sessionId, file_path);
+
+      const diff = createTwoFilesPatch(file_path, file_path, original, content, undefined, undefined, { context: 3 });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully edited ${file_path} (${replacements} replacement${replacements === 1 ? "" : "s"}).\n\n${diff}`,
+          },
+        ],
+        structuredContent: { path: file_path, replacements, diff, sha256: hashContent(data), versionId: version?.id },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to edit file");
+    }
+  },
+});
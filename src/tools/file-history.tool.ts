@@ -0,0 +1,138 @@
+import z from "zod";
+import { FileVersion, getVersion, listVersions, restoreVersion, undoLastWrite } from "../utils/file-history.js";
+import { recordFileRead } from "../utils/file-tracker.js";
+import { exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+const versionSchema = {
+  versionId: z.string(),
+  path: z.string(),
+  tool: z.string().describe("The tool whose write replaced this version."),
+  createdAt: z.string(),
+  existed: z.boolean().describe("False when the write created the file; restoring then deletes it."),
+  size: z.number().describe("Size of this version in bytes."),
+  sha256: z.string().optional(),
+};
+
+function versionInfo(version: FileVersion) {
+  return {
+    versionId: version.id,
+    path: version.path,
+    tool: version.tool,
+    createdAt: version.createdAt.toISOString(),
+    existed: version.existed,
+    size: version.size,
+    sha256: version.sha256,
+  };
+}
+
+// Restoring a file counts as reading it, so it can be edited right away
+function afterRestore(sessionId: string | undefined, version: FileVersion): string {
+  if (!version.existed) {
+    return `Deleted ${version.path}, which did not exist before version ${version.id} was replaced.`;
+  }
+  recordFileRead(sessionId, version.path);
+  return `Restored ${version.path} to version ${version.id} (${version.size} bytes).`;
+}
+
+const undoLastWriteTool = defineTool({
+  name: "undo_last_write",
+  description: "Reverts the most recent 'write_file' or 'edit_file' change made in this session, restoring the file's previous content (or deleting it if the write created it). Repeated calls step further back. Refused if the file has changed since that write, unless 'force' is set.",
+  schema: {
+    force: z.boolean().optional().describe("Optional: Undo even if the file was changed after the write; those changes are lost. Defaults to false."),
+  },
+  outputSchema: {
+    path: z.string(),
+    versionId: z.string().describe("The version that was put back."),
+    action: z.enum(["restored", "deleted"]),
+  },
+  handler: async ({ force }, extra) => {
+    try {
+      const version = undoLastWrite(extra.sessionId, force);
+      return {
+        content: [{ type: "text", text: afterRestore(extra.sessionId, version) }],
+        structuredContent: {
+          path: version.path,
+          versionId: version.id,
+          action: version.existed ? "restored" : "deleted",
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to undo write");
+    }
+  },
+});
+
+const listFileVersionsTool = defineTool({
+  name: "list_file_versions",
+  description: "Lists the previous file versions kept in this session by 'write_file' and 'edit_file', newest first. Each entry is the content a write replaced.",
+  schema: {
+    path: z.string().optional().describe("Optional: Absolute path of a file to list versions for. Defaults to all files."),
+  },
+  outputSchema: {
+    versions: z.array(z.object(versionSchema)),
+  },
+  handler: async ({ path }, extra) => {
+    try {
+      const versions = listVersions(extra.sessionId, path !== undefined ? resolveWorkspacePath(path, getWorkingDirectory(extra.sessionId)) : undefined);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              versions.length > 0
+                ? versions
+                    .map(
+                      (version) =>
+                        `- ${version.id}: ${version.path} (${
+                          version.existed ? `${version.size} bytes` : "did not exist"
+                        }, replaced by ${version.tool} at ${version.createdAt.toISOString()})`
+                    )
+                    .join("\n")
+                : "No file versions.",
+          },
+        ],
+        structuredContent: { versions: versions.map(versionInfo) },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to list file versions");
+    }
+  },
+});
+
+const restoreFileVersionTool = defineTool({
+  name: "restore_file_version",
+  description: "Restores a file to a version listed by 'list_file_versions'. The content being replaced is kept as a new version, so the restore can be undone too.",
+  schema: {
+    version_id: z.string().describe("The version ID, e.g. 'v3'."),
+  },
+  outputSchema: {
+    path: z.string(),
+    versionId: z.string(),
+    action: z.enum(["restored", "deleted"]),
+    backupVersionId: z.string().optional().describe("ID of the version holding the content that was replaced."),
+  },
+  handler: async ({ version_id }, extra) => {
+    try {
+      const version = getVersion(extra.sessionId, version_id);
+      // The workspace roots may have changed since the version was kept
+      resolveWorkspacePath(version.path);
+      const backup = restoreVersion(extra.sessionId, version, "restore_file_version");
+      return {
+        content: [{ type: "text", text: afterRestore(extra.sessionId, version) }],
+        structuredContent: {
+          path: version.path,
+          versionId: version.id,
+          action: version.existed ? "restored" : "deleted",
+          backupVersionId: backup?.id,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to restore file version");
+    }
+  },
+});
+
+export default [undoLastWriteTool, listFileVersionsTool, restoreFileVersionTool];
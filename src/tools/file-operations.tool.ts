@@ -0,0 +1,455 @@
+import z from "zod";
+import { cpSync, existsSync, lstatSync, mkdirSync, readdirSync, rmSync } from "fs";
+import { dirname, join, relative } from "path";
+import {
+  entryTypeOf,
+  getTrashEntry,
+  listTrash,
+  listTree,
+  moveEntry,
+  moveToTrash,
+  pathExists,
+  restoreFromTrash,
+  summarizeEntries,
+  TreeEntry,
+} from "../utils/file-operations.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { getWorkspaceRoots, isWithinRoot, resolveWorkspaceEntry, resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool, ToolExtra } from "../tool.js";
+
+const entryTypeSchema = z.enum(["file", "directory", "symlink", "other"]);
+
+const affectedSchema = {
+  dryRun: z.boolean().describe("Whether nothing was changed because 'dry_run' was set."),
+  totalEntries: z.number().describe("Number of files, directories and links affected."),
+  entries: z
+    .array(z.object({ path: z.string().describe("Path relative to the source."), type: entryTypeSchema, size: z.number() }))
+    .describe("The affected entries, up to the configured limit."),
+};
+
+const trashEntrySchema = z.object({
+  trashId: z.string(),
+  originalPath: z.string(),
+  type: entryTypeSchema,
+  size: z.number().describe("Bytes of the entry and everything below it."),
+  deletedAt: z.string(),
+});
+
+type OperationOptions = {
+  // Affected entries listed in results; the count is always complete
+  maxListedEntries: number;
+};
+
+const operationDefaults: OperationOptions = {
+  maxListedEntries: 100,
+};
+
+// With authentication the trash is per client, so it outlives sessions; otherwise per session
+function trashOwner(extra: ToolExtra): string {
+  return extra.authInfo ? `client:${extra.authInfo.clientId}` : `session:${extra.sessionId ?? "stdio"}`;
+}
+
+function isWorkspaceRoot(path: string): boolean {
+  return getWorkspaceRoots().includes(path);
+}
+
+function affected(entries: TreeEntry[], base: string, dryRun: boolean, options: OperationOptions) {
+  return {
+    dryRun,
+    totalEntries: entries.length,
+    entries: entries.slice(0, options.maxListedEntries).map((entry) => ({
+      path: relative(base, entry.path) || ".",
+      type: entry.type,
+      size: entry.size,
+    })),
+  };
+}
+
+function listEntries(entries: TreeEntry[], base: string, options: OperationOptions): string {
+  return summarizeEntries(entries, base, options.maxListedEntries)
+    .map((line) => `- ${line}`)
+    .join("\n");
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+const movePathTool = defineTool({
+  name: "move_path",
+  description: "Moves or renames a file, directory or symlink within the workspace. 'destination' is the new path, not a directory to move into. An existing destination is only replaced with 'overwrite', and then moved to the trash rather than lost. Use 'dry_run' to see what would be moved and whether the destination conflicts.",
+  schema: {
+    source: z.string().describe("The absolute path to move. Must be inside one of the server's workspace roots."),
+    destination: z.string().describe("The absolute new path. Missing parent directories are created."),
+    overwrite: z.boolean().optional().describe("Optional: Replace an existing destination; it is moved to the trash. Defaults to false."),
+    dry_run: z.boolean().optional().describe("Optional: Only report what would be moved and any conflict. Defaults to false."),
+  },
+  outputSchema: {
+    source: z.string(),
+    destination: z.string(),
+    ...affectedSchema,
+    conflict: entryTypeSchema.optional().describe("Type of the existing entry at the destination, if any."),
+    replacedTrashId: z.string().optional().describe("Trash ID of the replaced destination, for 'restore_from_trash'."),
+  },
+  defaults: operationDefaults,
+  handler: async ({ source: requestedSource, destination: requestedDestination, overwrite, dry_run }, extra, options) => {
+    try {
+      const cwd = getWorkingDirectory(extra.sessionId);
+      const source = resolveWorkspaceEntry(requestedSource, cwd);
+      const destination = resolveWorkspaceEntry(requestedDestination, cwd);
+      const entries = listTree(source);
+
+      if (isWorkspaceRoot(source)) {
+        return errorResult("INVALID_ARGUMENT", "Cannot move a workspace root.", { path: source });
+      }
+      if (isWithinRoot(destination, source)) {
+        return errorResult("INVALID_ARGUMENT", "Cannot move a path onto itself or into itself.", { source, destination });
+      }
+
+      const conflict = pathExists(destination) ? entryTypeOf(lstatSync(destination)) : undefined;
+      if (conflict && !overwrite && !dry_run) {
+        return errorResult(
+          "EEXIST",
+          `Destination already exists (${conflict}): ${destination}. Set overwrite=true to replace it; the existing ${conflict} is moved to the trash.`,
+          { path: destination, conflicts: [destination] }
+        );
+      }
+
+      if (dry_run) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Dry run: would move ${plural(entries.length, "entry", "entries")} from ${source} to ${destination}${
+                conflict ? `, replacing the existing ${conflict}${overwrite ? "" : " (requires overwrite=true)"}` : ""
+              }:\n${listEntries(entries, source, options)}`,
+            },
+          ],
+          structuredContent: { source, destination, ...affected(entries, source, true, options), conflict },
+        };
+      }
+
+      const replaced = conflict ? moveToTrash(destination, trashOwner(extra)) : undefined;
+      mkdirSync(dirname(destination), { recursive: true });
+      moveEntry(source, destination);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Moved ${source} to ${destination} (${plural(entries.length, "entry", "entries")}).${
+              replaced ? ` The previous ${conflict} at the destination is in the trash as ${replaced.id}.` : ""
+            }`,
+          },
+        ],
+        structuredContent: {
+          source,
+          destination,
+          ...affected(entries, source, false, options),
+          conflict,
+          replacedTrashId: replaced?.id,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to move path");
+    }
+  },
+});
+
+const copyPathTool = defineTool({
+  name: "copy_path",
+  description: "Copies a file, or a directory with 'recursive', within the workspace. Symlinks are copied as links. Copying a directory onto an existing one merges them; files that already exist are conflicts, which are only replaced with 'overwrite' (the old files go to the trash). Use 'dry_run' to list what would be copied and the conflicts.",
+  schema: {
+    source: z.string().describe("The absolute path to copy. Must be inside one of the server's workspace roots."),
+    destination: z.string().describe("The absolute path of the copy. Missing parent directories are created."),
+    recursive: z.boolean().optional().describe("Optional: Required to copy a directory. Defaults to false."),
+    overwrite: z.boolean().optional().describe("Optional: Replace conflicting files; the replaced ones are moved to the trash. Defaults to false."),
+    dry_run: z.boolean().optional().describe("Optional: Only report what would be copied and the conflicts. Defaults to false."),
+  },
+  outputSchema: {
+    source: z.string(),
+    destination: z.string(),
+    ...affectedSchema,
+    conflicts: z.array(z.string()).describe("Existing destination paths that the copy would replace."),
+    replacedTrashIds: z.array(z.string()).optional(),
+  },
+  defaults: operationDefaults,
+  handler: async (
+    { source: requestedSource, destination: requestedDestination, recursive, overwrite, dry_run },
+    extra,
+    options
+  ) => {
+    try {
+      const cwd = getWorkingDirectory(extra.sessionId);
+      const source = resolveWorkspaceEntry(requestedSource, cwd);
+      const destination = resolveWorkspaceEntry(requestedDestination, cwd);
+      const sourceType = entryTypeOf(lstatSync(source));
+
+      if (sourceType === "directory" && !recursive) {
+        return errorResult("EISDIR", `${source} is a directory. Set recursive=true to copy it.`, { path: source });
+      }
+      if (isWithinRoot(destination, source)) {
+        return errorResult("INVALID_ARGUMENT", "Cannot copy a path onto itself or into itself.", { source, destination });
+      }
+
+      const entries = listTree(source);
+      // A directory copied onto an existing directory is merged, so only other clashes count
+      const conflicts = entries
+        .map((entry) => ({ entry, target: join(destination, relative(source, entry.path)) }))
+        .filter(({ entry, target }) => {
+          if (!pathExists(target)) {
+            return false;
+          }
+          return !(entry.type === "directory" && entryTypeOf(lstatSync(target)) === "directory");
+        })
+        .map(({ target }) => target);
+
+      if (conflicts.length > 0 && !overwrite && !dry_run) {
+        return errorResult(
+          "EEXIST",
+          `${plural(conflicts.length, "destination path")} already exist${conflicts.length === 1 ? "s" : ""}. Set overwrite=true to replace them; the replaced entries are moved to the trash.`,
+          { path: destination, conflicts: conflicts.slice(0, options.maxListedEntries) },
+          conflicts.slice(0, options.maxListedEntries).map((conflict) => `- ${conflict}`)
+        );
+      }
+
+      if (dry_run) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Dry run: would copy ${plural(entries.length, "entry", "entries")} from ${source} to ${destination}:\n${listEntries(
+                entries,
+                source,
+                options
+              )}${
+                conflicts.length > 0
+                  ? `\n\nConflicts${overwrite ? " (would be replaced)" : " (require overwrite=true)"}:\n${conflicts
+                      .slice(0, options.maxListedEntries)
+                      .map((conflict) => `- ${conflict}`)
+                      .join("\n")}`
+                  : ""
+              }`,
+            },
+          ],
+          structuredContent: { source, destination, ...affected(entries, source, true, options), conflicts },
+        };
+      }
+
+      // With the conflicts out of the way, only directories to merge into remain at the destination
+      const replaced = conflicts.map((conflict) => moveToTrash(conflict, trashOwner(extra)));
+      mkdirSync(dirname(destination), { recursive: true });
+      cpSync(source, destination, { recursive: true, verbatimSymlinks: true, preserveTimestamps: true, force: false });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Copied ${source} to ${destination} (${plural(entries.length, "entry", "entries")}).${
+              replaced.length > 0 ? ` ${plural(replaced.length, "replaced entry", "replaced entries")} moved to the trash.` : ""
+            }`,
+          },
+        ],
+        structuredContent: {
+          source,
+          destination,
+          ...affected(entries, source, false, options),
+          conflicts,
+          replacedTrashIds: replaced.map((entry) => entry.id),
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to copy path");
+    }
+  },
+});
+
+const deletePathTool = defineTool({
+  name: "delete_path",
+  description: "Deletes a file, symlink or directory in the workspace. By default it is moved to the trash and can be brought back with 'restore_from_trash'; set 'permanent' to remove it outright. Non-empty directories need 'recursive'. Use 'dry_run' to list what would be deleted.",
+  schema: {
+    path: z.string().describe("The absolute path to delete. Must be inside one of the server's workspace roots; a symlink is deleted, not its target."),
+    recursive: z.boolean().optional().describe("Optional: Required to delete a non-empty directory. Defaults to false."),
+    permanent: z.boolean().optional().describe("Optional: Remove instead of moving to the trash. Defaults to false."),
+    dry_run: z.boolean().optional().describe("Optional: Only report what would be deleted. Defaults to false."),
+  },
+  outputSchema: {
+    path: z.string(),
+    ...affectedSchema,
+    permanent: z.boolean(),
+    trashId: z.string().optional().describe("ID for 'restore_from_trash'."),
+  },
+  defaults: operationDefaults,
+  handler: async ({ path: requestedPath, recursive, permanent = false, dry_run }, extra, options) => {
+    try {
+      const path = resolveWorkspaceEntry(requestedPath, getWorkingDirectory(extra.sessionId));
+      if (isWorkspaceRoot(path)) {
+        return errorResult("INVALID_ARGUMENT", "Cannot delete a workspace root.", { path });
+      }
+
+      const type = entryTypeOf(lstatSync(path));
+      if (type === "directory" && !recursive && readdirSync(path).length > 0) {
+        return errorResult("ENOTEMPTY", `Directory is not empty: ${path}. Set recursive=true to delete it with its contents.`, {
+          path,
+        });
+      }
+
+      const entries = listTree(path);
+      if (dry_run) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Dry run: would ${permanent ? "permanently delete" : "move to the trash"} ${plural(entries.length, "entry", "entries")}:\n${listEntries(entries, path, options)}`,
+            },
+          ],
+          structuredContent: { path, ...affected(entries, path, true, options), permanent },
+        };
+      }
+
+      let trashId: string | undefined;
+      if (permanent) {
+        rmSync(path, { recursive: true });
+      } else {
+        trashId = moveToTrash(path, trashOwner(extra)).id;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: permanent
+              ? `Permanently deleted ${path} (${plural(entries.length, "entry", "entries")}).`
+              : `Moved ${path} to the trash (${plural(entries.length, "entry", "entries")}). Restore it with restore_from_trash, trash_id: ${trashId}.`,
+          },
+        ],
+        structuredContent: { path, ...affected(entries, path, false, options), permanent, trashId },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to delete path");
+    }
+  },
+});
+
+const createDirectoryTool = defineTool({
+  name: "create_directory",
+  description: "Creates a directory, including missing parent directories unless 'parents' is false. Succeeds without changes if the directory already exists. Use 'dry_run' to list the directories that would be created.",
+  schema: {
+    path: z.string().describe("The absolute path of the directory. Must be inside one of the server's workspace roots."),
+    parents: z.boolean().optional().describe("Optional: Create missing parent directories too. Defaults to true."),
+    dry_run: z.boolean().optional().describe("Optional: Only report which directories would be created. Defaults to false."),
+  },
+  outputSchema: {
+    path: z.string(),
+    dryRun: z.boolean(),
+    created: z.array(z.string()).describe("Directories created (or that would be), outermost first."),
+  },
+  handler: async ({ path: requestedPath, parents = true, dry_run = false }, extra) => {
+    try {
+      const path = resolveWorkspacePath(requestedPath, getWorkingDirectory(extra.sessionId));
+
+      const missing: string[] = [];
+      for (let current = path; !existsSync(current); current = dirname(current)) {
+        missing.unshift(current);
+      }
+      if (missing.length === 0 && !lstatSync(path).isDirectory()) {
+        return errorResult("EEXIST", `A ${entryTypeOf(lstatSync(path))} already exists at ${path}.`, { path });
+      }
+      if (missing.length > 1 && !parents) {
+        return errorResult(
+          "ENOENT",
+          `Parent directory does not exist: ${dirname(path)}. Set parents=true to create it too.`,
+          { path: dirname(path) }
+        );
+      }
+
+      if (!dry_run && missing.length > 0) {
+        mkdirSync(path, { recursive: true });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              missing.length === 0
+                ? `Directory already exists: ${path}`
+                : `${dry_run ? "Dry run: would create" : "Created"} ${missing.join(", ")}`,
+          },
+        ],
+        structuredContent: { path, dryRun: dry_run, created: missing },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to create directory");
+    }
+  },
+});
+
+const listTrashTool = defineTool({
+  name: "list_trash",
+  description: "Lists entries this client moved to the trash with 'delete_path', 'move_path' and 'copy_path', newest first, with the path each came from.",
+  schema: {},
+  outputSchema: {
+    entries: z.array(trashEntrySchema),
+  },
+  handler: async (_args, extra) => {
+    try {
+      const entries = listTrash(trashOwner(extra));
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              entries.length > 0
+                ? entries
+                    .map((entry) => `- ${entry.id}: ${entry.originalPath} (${entry.type}, deleted ${entry.deletedAt})`)
+                    .join("\n")
+                : "The trash is empty.",
+          },
+        ],
+        structuredContent: {
+          entries: entries.map(({ id, owner: _owner, ...entry }) => ({ trashId: id, ...entry })),
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to list trash");
+    }
+  },
+});
+
+const restoreFromTrashTool = defineTool({
+  name: "restore_from_trash",
+  description: "Moves an entry from the trash back to where it was deleted from, or to 'destination'. The target path must not exist.",
+  schema: {
+    trash_id: z.string().describe("The trash ID reported by 'delete_path' or 'list_trash'."),
+    destination: z.string().optional().describe("Optional: Absolute path to restore to instead of the original path."),
+  },
+  outputSchema: {
+    trashId: z.string(),
+    path: z.string().describe("Where the entry was restored."),
+    type: entryTypeSchema,
+  },
+  handler: async ({ trash_id, destination }, extra) => {
+    try {
+      const entry = getTrashEntry(trash_id, trashOwner(extra));
+      const target = resolveWorkspaceEntry(destination ?? entry.originalPath, getWorkingDirectory(extra.sessionId));
+      restoreFromTrash(entry, target);
+      return {
+        content: [{ type: "text", text: `Restored ${entry.type} ${trash_id} to ${target}.` }],
+        structuredContent: { trashId: trash_id, path: target, type: entry.type },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to restore from trash");
+    }
+  },
+});
+
+export default [
+  movePathTool,
+  copyPathTool,
+  deletePathTool,
+  createDirectoryTool,
+  listTrashTool,
+  restoreFromTrashTool,
+];
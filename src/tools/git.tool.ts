@@ -0,0 +1,626 @@
+import z from "zod";
+import { dirname } from "path";
+import { assertRevision, findRepository, runGit } from "../utils/git.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory, resolveWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+const STATUS_NAMES: Record<string, string> = {
+  M: "modified",
+  A: "added",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "typechange",
+  U: "unmerged",
+};
+
+const changeSchema = z.object({
+  path: z.string().describe("Path relative to the repository root."),
+  status: z.string().describe("One of modified, added, deleted, renamed, copied, typechange or unmerged."),
+  oldPath: z.string().optional().describe("The previous path of a renamed or copied file."),
+});
+
+type Change = z.infer<typeof changeSchema>;
+
+const repositorySchema = z
+  .string()
+  .optional()
+  .describe("Optional: A directory inside the repository. Defaults to the session's working directory.");
+
+function statusName(letter: string): string {
+  return STATUS_NAMES[letter] ?? letter;
+}
+
+async function repositoryFor(sessionId: string | undefined, repository: string | undefined): Promise<string> {
+  return findRepository(resolveWorkingDirectory(repository ?? ".", getWorkingDirectory(sessionId)));
+}
+
+// Path filters are resolved like the file tools' paths and must stay inside the workspace
+function pathspecs(paths: string[] | undefined, sessionId: string | undefined): string[] {
+  const cwd = getWorkingDirectory(sessionId);
+  return ["--", ...(paths ?? []).map((path) => resolveWorkspacePath(path, cwd))];
+}
+
+// `--name-status -z` output: a status letter (with a score for renames and copies) followed by one or two paths
+function parseNameStatus(output: string): Change[] {
+  const tokens = output.split("\0");
+  const changes: Change[] = [];
+  for (let i = 0; i < tokens.length && tokens[i]; ) {
+    const letter = tokens[i][0];
+    if (letter === "R" || letter === "C") {
+      changes.push({ path: tokens[i + 2], status: statusName(letter), oldPath: tokens[i + 1] });
+      i += 3;
+    } else {
+      changes.push({ path: tokens[i + 1], status: statusName(letter) });
+      i += 2;
+    }
+  }
+  return changes;
+}
+
+function formatChange(change: Change): string {
+  return `  ${change.status}: ${change.oldPath ? `${change.oldPath} -> ` : ""}${change.path}`;
+}
+
+// Register git_status tool
+const gitStatusTool = defineTool({
+  name: "git_status",
+  description: "Shows the state of a git repository: the current branch and commit, how far it is ahead of or behind its upstream, and the staged, unstaged, untracked and conflicted files. Uses the local git binary; nothing is fetched.",
+  schema: {
+    repository: repositorySchema,
+  },
+  outputSchema: {
+    repository: z.string().describe("Absolute path of the repository root."),
+    branch: z.string().nullable().describe("The current branch, or null when HEAD is detached."),
+    commit: z.string().nullable().describe("The commit HEAD points to, or null before the first commit."),
+    upstream: z.string().optional(),
+    ahead: z.number().optional(),
+    behind: z.number().optional(),
+    staged: z.array(changeSchema),
+    unstaged: z.array(changeSchema),
+    untracked: z.array(z.string()),
+    conflicted: z.array(z.string()),
+    counts: z.object({
+      staged: z.number(),
+      unstaged: z.number(),
+      untracked: z.number(),
+      conflicted: z.number(),
+    }),
+    clean: z.boolean().describe("Whether there are no changes at all, untracked files included."),
+  },
+  defaults: {
+    // Entries listed per category; the counts are always complete
+    maxEntries: 500,
+  },
+  handler: async ({ repository: requestedRepository }, extra, options) => {
+    try {
+      const repository = await repositoryFor(extra.sessionId, requestedRepository);
+      const { stdout } = await runGit(["status", "--porcelain=v2", "--branch", "-z", "--untracked-files=all"], repository);
+
+      let branch: string | null = null;
+      let commit: string | null = null;
+      let upstream: string | undefined;
+      let ahead: number | undefined;
+      let behind: number | undefined;
+      const staged: Change[] = [];
+      const unstaged: Change[] = [];
+      const untracked: string[] = [];
+      const conflicted: string[] = [];
+
+      const tokens = stdout.split("\0");
+      for (let i = 0; i < tokens.length; i++) {
+        const entry = tokens[i];
+        const fields = entry.split(" ");
+        if (entry.startsWith("# branch.oid ")) {
+          commit = fields[2] === "(initial)" ? null : fields[2];
+        } else if (entry.startsWith("# branch.head ")) {
+          branch = fields[2] === "(detached)" ? null : fields[2];
+        } else if (entry.startsWith("# branch.upstream ")) {
+          upstream = fields[2];
+        } else if (entry.startsWith("# branch.ab ")) {
+          ahead = Number(fields[2].slice(1));
+          behind = Number(fields[3].slice(1));
+        } else if (entry.startsWith("1 ") || entry.startsWith("2 ")) {
+          // "1 XY sub mH mI mW hH hI path", "2 XY sub mH mI mW hH hI Xscore path" followed by the original path
+          const renamed = entry[0] === "2";
+          const path = fields.slice(renamed ? 9 : 8).join(" ");
+          const oldPath = renamed ? tokens[++i] : undefined;
+          const [indexStatus, worktreeStatus] = fields[1];
+          if (indexStatus !== ".") {
+            staged.push({ path, status: statusName(indexStatus), ...(oldPath !== undefined && { oldPath }) });
+          }
+          if (worktreeStatus !== ".") {
+            unstaged.push({ path, status: statusName(worktreeStatus) });
+          }
+        } else if (entry.startsWith("u ")) {
+          conflicted.push(fields.slice(10).join(" "));
+        } else if (entry.startsWith("? ")) {
+          untracked.push(entry.slice(2));
+        }
+      }
+
+      const counts = {
+        staged: staged.length,
+        unstaged: unstaged.length,
+        untracked: untracked.length,
+        conflicted: conflicted.length,
+      };
+      const clean = Object.values(counts).every((count) => count === 0);
+      const limit = options.maxEntries;
+
+      const lines = [
+        `Repository: ${repository}`,
+        `Branch: ${branch ?? "(detached HEAD)"}${commit ? ` at ${commit.slice(0, 12)}` : " (no commits yet)"}${
+          upstream ? `, tracking ${upstream} (ahead ${ahead ?? 0}, behind ${behind ?? 0})` : ""
+        }`,
+      ];
+      const section = (title: string, items: string[], count: number) => {
+        if (count > 0) {
+          lines.push(`${title} (${count}):`, ...items.slice(0, limit));
+          if (count > limit) {
+            lines.push(`  ... ${count - limit} more`);
+          }
+        }
+      };
+      section("Conflicted", conflicted.map((path) => `  ${path}`), counts.conflicted);
+      section("Staged", staged.map(formatChange), counts.staged);
+      section("Unstaged", unstaged.map(formatChange), counts.unstaged);
+      section("Untracked", untracked.map((path) => `  ${path}`), counts.untracked);
+      if (clean) {
+        lines.push("Working tree clean.");
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          repository,
+          branch,
+          commit,
+          upstream,
+          ahead,
+          behind,
+          staged: staged.slice(0, limit),
+          unstaged: unstaged.slice(0, limit),
+          untracked: untracked.slice(0, limit),
+          conflicted: conflicted.slice(0, limit),
+          counts,
+          clean,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to get git status");
+    }
+  },
+});
+
+// Register git_diff tool
+const gitDiffTool = defineTool({
+  name: "git_diff",
+  description: "Shows changes in a git repository as per-file statistics and a unified diff. By default compares the working tree with the index (unstaged changes); 'staged' compares the index with HEAD; 'from' and 'to' compare commits, or a commit with the working tree (or index, with 'staged') when 'to' is omitted. 'paths' limits the diff to files or directories.",
+  schema: {
+    repository: repositorySchema,
+    staged: z.boolean().optional().describe("Optional: Show staged changes instead of unstaged ones. Defaults to false."),
+    from: z.string().optional().describe("Optional: The commit, branch or tag to compare from."),
+    to: z.string().optional().describe("Optional: The commit, branch or tag to compare to. Requires 'from'."),
+    paths: z.array(z.string()).optional().describe("Optional: Files or directories to limit the diff to."),
+    context_lines: z.number().int().min(0).max(100).optional().describe("Optional: Lines of context around each change. Defaults to 3."),
+    stat_only: z.boolean().optional().describe("Optional: Only return the per-file statistics, without the patch. Defaults to false."),
+  },
+  outputSchema: {
+    repository: z.string(),
+    files: z.array(
+      changeSchema.extend({
+        additions: z.number(),
+        deletions: z.number(),
+        binary: z.boolean(),
+      })
+    ),
+    additions: z.number(),
+    deletions: z.number(),
+    diff: z.string().optional().describe("The unified diff, unless 'stat_only' is set."),
+    truncated: z.boolean().describe("Whether the diff was cut off at the configured size."),
+  },
+  defaults: {
+    // Characters of patch text returned; the per-file statistics are always complete
+    maxDiffChars: 100000,
+  },
+  handler: async ({ repository: requestedRepository, staged, from, to, paths, context_lines, stat_only }, extra, options) => {
+    try {
+      if (to !== undefined && from === undefined) {
+        return errorResult("INVALID_ARGUMENT", "'to' requires 'from'.", { to });
+      }
+      if (to !== undefined && staged) {
+        return errorResult("INVALID_ARGUMENT", "'staged' cannot be combined with 'to'; two commits are compared directly.", { to });
+      }
+      for (const [name, revision] of [["from", from], ["to", to]] as const) {
+        if (revision !== undefined) {
+          assertRevision(revision, name);
+        }
+      }
+
+      const repository = await repositoryFor(extra.sessionId, requestedRepository);
+      const base = ["diff", "--no-color", "--no-ext-diff", "--no-textconv", "-M"];
+      const range = [...(staged ? ["--cached"] : []), ...(from !== undefined ? [from] : []), ...(to !== undefined ? [to] : [])];
+      const filter = pathspecs(paths, extra.sessionId);
+
+      const changes = parseNameStatus((await runGit([...base, "--name-status", "-z", ...range, ...filter], repository)).stdout);
+      // `--numstat -z`: "added\tdeleted\tpath" or, for renames, "added\tdeleted\t" followed by both paths
+      const numstat = new Map<string, { additions: number; deletions: number; binary: boolean }>();
+      const numstatTokens = (await runGit([...base, "--numstat", "-z", ...range, ...filter], repository)).stdout.split("\0");
+      for (let i = 0; i < numstatTokens.length && numstatTokens[i]; i++) {
+        const [added, deleted, path] = numstatTokens[i].split("\t");
+        const key = path || ((i += 2), numstatTokens[i]);
+        numstat.set(key, {
+          additions: added === "-" ? 0 : Number(added),
+          deletions: deleted === "-" ? 0 : Number(deleted),
+          binary: added === "-",
+        });
+      }
+
+      const files = changes.map((change) => ({
+        ...change,
+        ...(numstat.get(change.path) ?? { additions: 0, deletions: 0, binary: false }),
+      }));
+      const additions = files.reduce((sum, file) => sum + file.additions, 0);
+      const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+      let diff: string | undefined;
+      let truncated = false;
+      if (!stat_only && files.length > 0) {
+        diff = (await runGit([...base, `-U${context_lines ?? 3}`, ...range, ...filter], repository)).stdout;
+        if (diff.length > options.maxDiffChars) {
+          // Cut at a line boundary so the last hunk line is whole
+          const cut = diff.lastIndexOf("\n", options.maxDiffChars);
+          diff = diff.slice(0, cut > 0 ? cut + 1 : options.maxDiffChars);
+          truncated = true;
+        }
+      }
+
+      const compared = from !== undefined
+        ? `${from}..${to ?? (staged ? "index" : "working tree")}`
+        : staged
+          ? "staged changes"
+          : "unstaged changes";
+      const summary = files.length === 0
+        ? `No differences (${compared}) in ${repository}.`
+        : `${files.length} file${files.length === 1 ? "" : "s"} changed (${compared}), +${additions} -${deletions}:\n${files
+            .map((file) => `${formatChange(file)} (${file.binary ? "binary" : `+${file.additions} -${file.deletions}`})`)
+            .join("\n")}`;
+      const text = diff
+        ? `${summary}\n\n${diff}${truncated ? `\n[Diff truncated at ${options.maxDiffChars} characters; narrow it down with 'paths'.]` : ""}`
+        : summary;
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { repository, files, additions, deletions, diff, truncated },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to get git diff");
+    }
+  },
+});
+
+const commitSchema = z.object({
+  hash: z.string(),
+  shortHash: z.string(),
+  author: z.string(),
+  email: z.string(),
+  date: z.string().describe("Author date in ISO 8601 format."),
+  parents: z.array(z.string()),
+  subject: z.string(),
+  body: z.string(),
+  files: z.array(changeSchema).optional().describe("Files changed by the commit, with 'include_files'."),
+});
+
+// Register git_log tool
+const gitLogTool = defineTool({
+  name: "git_log",
+  description: "Lists commits in a git repository, newest first, optionally limited to those touching 'paths' and filtered by author, message or date. Set 'include_files' to see which files each commit changed.",
+  schema: {
+    repository: repositorySchema,
+    ref: z.string().optional().describe("Optional: The branch, tag, commit or range (e.g. 'main..feature') to list. Defaults to HEAD."),
+    paths: z.array(z.string()).optional().describe("Optional: Only list commits touching these files or directories."),
+    max_count: z.number().int().min(1).optional().describe("Optional: Maximum number of commits. Defaults to 20."),
+    skip: z.number().int().min(0).optional().describe("Optional: Number of commits to skip, for paging. Defaults to 0."),
+    author: z.string().optional().describe("Optional: Only commits whose author name or email matches this pattern."),
+    grep: z.string().optional().describe("Optional: Only commits whose message matches this pattern."),
+    since: z.string().optional().describe("Optional: Only commits after this date, e.g. '2024-01-31' or '2 weeks ago'."),
+    until: z.string().optional().describe("Optional: Only commits before this date."),
+    include_files: z.boolean().optional().describe("Optional: Include the files each commit changed. Defaults to false."),
+  },
+  outputSchema: {
+    repository: z.string(),
+    commits: z.array(commitSchema),
+    hasMore: z.boolean().describe("Whether more commits match; page with 'skip'."),
+  },
+  defaults: {
+    // Upper bound for 'max_count'
+    maxCount: 200,
+  },
+  handler: async (
+    { repository: requestedRepository, ref, paths, max_count = 20, skip = 0, author, grep, since, until, include_files },
+    extra,
+    options
+  ) => {
+    try {
+      if (ref !== undefined) {
+        assertRevision(ref, "ref");
+      }
+      const count = Math.min(max_count, options.maxCount);
+      const repository = await repositoryFor(extra.sessionId, requestedRepository);
+
+      // Fields are separated by US and commits by RS, which do not occur in commit metadata
+      const args = [
+        "log",
+        "--no-color",
+        "--format=%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%P%x1f%s%x1f%b%x1e",
+        `--max-count=${count + 1}`,
+        `--skip=${skip}`,
+        ...(author !== undefined ? [`--author=${author}`] : []),
+        ...(grep !== undefined ? [`--grep=${grep}`] : []),
+        ...(since !== undefined ? [`--since=${since}`] : []),
+        ...(until !== undefined ? [`--until=${until}`] : []),
+        ref ?? "HEAD",
+        ...pathspecs(paths, extra.sessionId),
+      ];
+      const records = (await runGit(args, repository)).stdout
+        .split("\x1e")
+        .map((record) => record.replace(/^\n/, ""))
+        .filter(Boolean);
+      const hasMore = records.length > count;
+
+      const commits: z.infer<typeof commitSchema>[] = records.slice(0, count).map((record) => {
+        const [hash, shortHash, name, email, date, parents, subject, body] = record.split("\x1f");
+        return {
+          hash,
+          shortHash,
+          author: name,
+          email,
+          date,
+          parents: parents ? parents.split(" ") : [],
+          subject,
+          body: body.trim(),
+        };
+      });
+      if (include_files) {
+        for (const commit of commits) {
+          const { stdout } = await runGit(
+            ["show", "--no-color", "--format=", "--name-status", "-z", "-M", commit.hash],
+            repository
+          );
+          commit.files = parseNameStatus(stdout);
+        }
+      }
+
+      const text = commits.length === 0
+        ? `No matching commits in ${repository}.`
+        : commits
+            .map((commit) => {
+              const header = `${commit.shortHash} ${commit.date} ${commit.author} <${commit.email}>\n    ${commit.subject}`;
+              return commit.files ? `${header}\n${commit.files.map((file) => `  ${formatChange(file)}`).join("\n")}` : header;
+            })
+            .join("\n") + (hasMore ? `\n... more commits; use skip=${skip + count} to continue.` : "");
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { repository, commits, hasMore },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to get git log");
+    }
+  },
+});
+
+// Register git_blame tool
+const gitBlameTool = defineTool({
+  name: "git_blame",
+  description: "Shows which commit last changed each line of a file, with its author, date and summary. Limit it to a line range with 'start_line' and 'end_line'; uncommitted lines are attributed to 'Not Committed Yet'.",
+  schema: {
+    file: z.string().describe("The file to blame. Must be inside a git repository in the workspace."),
+    start_line: z.number().int().min(1).optional().describe("Optional: The first line to blame (1-based). Defaults to 1."),
+    end_line: z.number().int().min(1).optional().describe("Optional: The last line to blame (inclusive)."),
+    ref: z.string().optional().describe("Optional: Blame the file as of this commit instead of the working tree."),
+  },
+  outputSchema: {
+    repository: z.string(),
+    path: z.string(),
+    lines: z.array(
+      z.object({
+        line: z.number(),
+        content: z.string(),
+        commit: z.string(),
+        author: z.string(),
+        date: z.string(),
+        summary: z.string(),
+      })
+    ),
+    truncated: z.boolean().describe("Whether the range was cut at the configured line limit."),
+  },
+  defaults: {
+    // Lines blamed when no end line is given
+    maxLines: 2000,
+  },
+  handler: async ({ file, start_line = 1, end_line, ref }, extra, options) => {
+    try {
+      if (ref !== undefined) {
+        assertRevision(ref, "ref");
+      }
+      if (end_line !== undefined && end_line < start_line) {
+        return errorResult("INVALID_ARGUMENT", "'end_line' must not be before 'start_line'.", { start_line, end_line });
+      }
+      const path = resolveWorkspacePath(file, getWorkingDirectory(extra.sessionId));
+      const repository = await findRepository(dirname(path));
+
+      const lastLine = Math.min(end_line ?? Infinity, start_line + options.maxLines - 1);
+      const args = ["blame", "--porcelain", "--no-textconv", "-L", `${start_line},${lastLine === Infinity ? "" : lastLine}`];
+      let output: string;
+      try {
+        output = (await runGit([...args, ...(ref !== undefined ? [ref] : []), "--", path], repository)).stdout;
+      } catch (error) {
+        // Without an explicit end the range may run past the file; blame to the end instead
+        if (end_line === undefined && error instanceof Error && /has only \d+ lines?/.test(error.message)) {
+          output = (await runGit(["blame", "--porcelain", "--no-textconv", "-L", `${start_line},`, ...(ref !== undefined ? [ref] : []), "--", path], repository)).stdout;
+        } else {
+          throw error;
+        }
+      }
+
+      // Porcelain output: a "<commit> <original line> <final line> [<group size>]" header, the commit's details the
+      // first time it appears, then the line content prefixed with a tab
+      const commitInfo = new Map<string, { author: string; date: string; summary: string }>();
+      const lines: { line: number; content: string; commit: string; author: string; date: string; summary: string }[] = [];
+      let current: { commit: string; line: number; details: Record<string, string> } | undefined;
+      for (const row of output.split("\n")) {
+        if (current === undefined) {
+          const [commit, , finalLine] = row.split(" ");
+          if (commit) {
+            current = { commit, line: Number(finalLine), details: {} };
+          }
+        } else if (row.startsWith("\t")) {
+          if (!commitInfo.has(current.commit)) {
+            const { details } = current;
+            commitInfo.set(current.commit, {
+              author: details["author"] ?? "",
+              date: details["author-time"] ? new Date(Number(details["author-time"]) * 1000).toISOString() : "",
+              summary: details["summary"] ?? "",
+            });
+          }
+          lines.push({ line: current.line, content: row.slice(1), commit: current.commit, ...commitInfo.get(current.commit)! });
+          current = undefined;
+        } else {
+          const space = row.indexOf(" ");
+          current.details[space === -1 ? row : row.slice(0, space)] = space === -1 ? "" : row.slice(space + 1);
+        }
+      }
+      const truncated = end_line === undefined
+        ? lines.length === options.maxLines
+        : end_line > lastLine;
+
+      const authorWidth = Math.min(20, Math.max(0, ...lines.map((line) => line.author.length)));
+      const numberWidth = String(lines.at(-1)?.line ?? 0).length;
+      const text = [
+        `Blame for ${path}${ref !== undefined ? ` at ${ref}` : ""}:`,
+        ...lines.map(
+          (line) =>
+            `${line.commit.slice(0, 8)} ${line.date.slice(0, 10)} ${line.author.slice(0, 20).padEnd(authorWidth)} ${String(
+              line.line
+            ).padStart(numberWidth)}: ${line.content}`
+        ),
+        ...(truncated ? [`[Stopped after ${options.maxLines} lines; continue with start_line=${lastLine + 1}.]`] : []),
+      ].join("\n");
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { repository, path, lines, truncated },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to get git blame");
+    }
+  },
+});
+
+// Register git_commit tool
+const gitCommitTool = defineTool({
+  name: "git_commit",
+  description: "Creates a git commit. Stages 'paths' first (new, modified and deleted files alike), or all changes to tracked files with 'all'; otherwise commits what is already staged. Repository hooks are not run. Fails when there is nothing to commit unless 'allow_empty' is set.",
+  schema: {
+    repository: repositorySchema,
+    message: z.string().min(1).describe("The commit message. The first line is the subject."),
+    paths: z.array(z.string()).optional().describe("Optional: Files or directories to stage before committing."),
+    all: z.boolean().optional().describe("Optional: Stage all modified and deleted tracked files, like 'git commit -a'. Defaults to false."),
+    amend: z.boolean().optional().describe("Optional: Replace the last commit instead of adding a new one. Defaults to false."),
+    allow_empty: z.boolean().optional().describe("Optional: Allow a commit without changes. Defaults to false."),
+    author: z.string().optional().describe("Optional: The author as 'Name <email>'. Defaults to the configured git identity."),
+  },
+  outputSchema: {
+    repository: z.string(),
+    commit: z.string(),
+    shortCommit: z.string(),
+    branch: z.string().nullable(),
+    subject: z.string(),
+    files: z.array(changeSchema),
+    amended: z.boolean(),
+  },
+  handler: async ({ repository: requestedRepository, message, paths, all, amend, allow_empty, author }, extra) => {
+    try {
+      const identity = author !== undefined ? /^\s*([^<>]+?)\s*<([^<>\s]*)>\s*$/.exec(author) : null;
+      if (author !== undefined && !identity) {
+        return errorResult("INVALID_ARGUMENT", `Invalid author '${author}'; expected 'Name <email>'.`, { author });
+      }
+      const repository = await repositoryFor(extra.sessionId, requestedRepository);
+
+      if (paths && paths.length > 0) {
+        await runGit(["add", "--all", ...pathspecs(paths, extra.sessionId)], repository);
+      }
+      if (all) {
+        await runGit(["add", "--update"], repository);
+      }
+
+      // `diff --cached --quiet` exits with 1 when something is staged; it fails before the first commit
+      const hasHead = (await runGit(["rev-parse", "--verify", "--quiet", "HEAD"], repository, { allowedExitCodes: [1] })).exitCode === 0;
+      const staged = hasHead
+        ? (await runGit(["diff", "--cached", "--quiet"], repository, { allowedExitCodes: [1] })).exitCode === 1
+        : (await runGit(["ls-files", "--cached"], repository)).stdout.length > 0;
+      if (!staged && !allow_empty && !amend) {
+        return errorResult("NOTHING_TO_COMMIT", "Nothing to commit: no changes are staged. Pass 'paths' or 'all' to stage changes.", {
+          repository,
+        });
+      }
+
+      // Without a configured identity, the author doubles as the committer
+      const env: Record<string, string> = {};
+      const committer = await runGit(["var", "GIT_COMMITTER_IDENT"], repository, { allowedExitCodes: [128] });
+      if (committer.exitCode !== 0) {
+        if (!identity) {
+          return errorResult(
+            "GIT_ERROR",
+            "No git identity is configured for committing. Pass 'author' as 'Name <email>' or configure user.name and user.email.",
+            { repository }
+          );
+        }
+        env.GIT_COMMITTER_NAME = identity[1];
+        env.GIT_COMMITTER_EMAIL = identity[2];
+      }
+
+      await runGit(
+        [
+          "commit",
+          "--quiet",
+          "--no-edit",
+          `--message=${message}`,
+          ...(amend ? ["--amend"] : []),
+          ...(allow_empty ? ["--allow-empty"] : []),
+          ...(identity ? [`--author=${identity[1]} <${identity[2]}>`] : []),
+        ],
+        repository,
+        { env }
+      );
+
+      const [commit, shortCommit, subject] = (await runGit(["log", "-1", "--format=%H%x1f%h%x1f%s"], repository)).stdout
+        .trim()
+        .split("\x1f");
+      const branch = (await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], repository, { allowedExitCodes: [1] })).stdout.trim() || null;
+      const files = parseNameStatus(
+        (await runGit(["show", "--no-color", "--format=", "--name-status", "-z", "-M", "--root", commit], repository)).stdout
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${amend ? "Amended" : "Created"} commit ${shortCommit} on ${branch ?? "detached HEAD"}: ${subject}\n${
+              files.length > 0 ? files.map(formatChange).join("\n") : "  (no file changes)"
+            }`,
+          },
+        ],
+        structuredContent: { repository, commit, shortCommit, branch, subject, files, amended: amend ?? false },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to create git commit");
+    }
+  },
+});
+
+export default [gitStatusTool, gitDiffTool, gitLogTool, gitBlameTool, gitCommitTool];
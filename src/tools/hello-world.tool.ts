@@ -1,21 +1,25 @@
 import z from "zod";
-import { server } from "../index.js";
+import { defineTool } from "../tool.js";
+import { logger } from "../utils/logger.js";
 
 // Register weather tools
-server.tool(
-  "write_helloworld",
-  "write_helloworld",
-  {
+export default defineTool({
+  name: "write_helloworld",
+  description: "write_helloworld",
+  schema: {
     number: z.number().min(0).describe("A number representing the state"),
   },
-  async ({ number }) => {
+  outputSchema: {
+    text: z.string(),
+  },
+  handler: async ({ number }) => {
     let alertsText = "";
 
     for(let i = 0; i < number; i++) {
       alertsText += `Hello, World! ${i + 1}\n`;
     }
 
-    console.log(alertsText);
+    logger.debug(alertsText);
 
     return {
       content: [
@@ -24,6 +28,9 @@ server.tool(
           text: alertsText,
         },
       ],
+      structuredContent: {
+        text: alertsText,
+      },
     };
   },
-);
\ No newline at end of file
+});
@@ -0,0 +1,208 @@
+import z from "zod";
+import { credentialsFor, redactSecrets } from "../utils/credentials.js";
+import { decodeBody, httpRequest, HttpResponse, isJsonType, mediaTypeOf } from "../utils/http-client.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { defineTool } from "../tool.js";
+
+const METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"] as const;
+
+// Set by the server, or by the client from the body and connection
+const RESERVED_HEADERS = ["host", "content-length", "transfer-encoding", "connection"];
+
+function isTextType(mediaType: string): boolean {
+  return (
+    mediaType.startsWith("text/") ||
+    isJsonType(mediaType) ||
+    mediaType.endsWith("+xml") ||
+    [
+      "application/xml",
+      "application/javascript",
+      "application/x-www-form-urlencoded",
+      "application/yaml",
+      "application/x-yaml",
+      "application/graphql",
+    ].includes(mediaType)
+  );
+}
+
+// Text bodies are decoded with their charset; anything else is returned as base64 unless it is valid UTF-8
+function describeBody(response: HttpResponse): { body: string; bodyEncoding: "text" | "base64"; json?: unknown } {
+  const mediaType = mediaTypeOf(response.headers.get("content-type"));
+  let text: string | undefined;
+  if (isTextType(mediaType)) {
+    text = decodeBody(response);
+  } else {
+    try {
+      text = new TextDecoder("utf-8", { fatal: true }).decode(response.body);
+    } catch (_e) {
+      text = undefined;
+    }
+    if (text !== undefined && mediaType !== "" && /[\u0000-\u0008\u000e-\u001f]/.test(text)) {
+      text = undefined;
+    }
+  }
+  if (text === undefined) {
+    return { body: response.body.toString("base64"), bodyEncoding: "base64" };
+  }
+  if (isJsonType(mediaType) && !response.truncated) {
+    try {
+      return { body: text, bodyEncoding: "text", json: JSON.parse(text) };
+    } catch (_e) {
+      // Returned as text; the status and body usually say what went wrong
+    }
+  }
+  return { body: text, bodyEncoding: "text" };
+}
+
+// Register http_request tool
+export default defineTool({
+  name: "http_request",
+  description: "Sends an HTTP request with any method, headers and body, and returns the status, response headers and body. Meant for calling REST APIs. Responses with error statuses are returned, not treated as failures. Bodies are read up to a size cap and marked truncated past it; binary bodies are returned as base64. Credentials for hosts the server is configured with are added to https requests by the server; if the host echoes them back, they are replaced with [REDACTED] in the result. Hosts that resolve to private, loopback or reserved addresses are refused, after every redirect too, unless the server allowlists them.",
+  schema: {
+    url: z.string().describe("The absolute http:// or https:// URL to request."),
+    method: z.enum(METHODS).optional().describe("Optional: The HTTP method. Defaults to GET."),
+    headers: z
+      .record(z.string())
+      .optional()
+      .describe("Optional: Request headers, e.g. { \"Accept\": \"application/json\" }."),
+    body: z
+      .string()
+      .optional()
+      .describe("Optional: The request body as a string. Set 'Content-Type' in 'headers' to match. Cannot be used with 'json'."),
+    json: z
+      .unknown()
+      .optional()
+      .describe("Optional: A value sent as a JSON body, with 'Content-Type: application/json' unless set in 'headers'. Cannot be used with 'body'."),
+    timeout: z
+      .number()
+      .optional()
+      .describe("Optional: Timeout in milliseconds for the whole request, redirects included. Defaults to the server's configured timeout (30000ms unless changed)."),
+    max_bytes: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Optional: Stop reading the response body after this many bytes. Cannot exceed the server's limit, which is also the default (1 MB unless changed)."),
+    follow_redirects: z
+      .boolean()
+      .optional()
+      .describe("Optional: Follow redirects; when false, a redirect is returned as the response. Defaults to true."),
+  },
+  outputSchema: {
+    url: z.string(),
+    finalUrl: z.string().describe("The URL of the response, after redirects."),
+    redirects: z.array(z.string()).describe("URLs redirected to, in order."),
+    method: z.string(),
+    status: z.number(),
+    statusText: z.string(),
+    headers: z.record(z.string()).describe("Response headers, with lowercase names."),
+    contentType: z.string().optional(),
+    body: z.string(),
+    bodyEncoding: z.enum(["text", "base64"]),
+    json: z.unknown().optional().describe("The parsed body, for complete JSON responses."),
+    bytes: z.number().describe("Bytes of the body read, after decompression."),
+    truncated: z.boolean().describe("Whether the body stopped at the size cap."),
+    authenticated: z.boolean().describe("Whether the server added configured credentials to the request."),
+    durationMs: z.number(),
+  },
+  defaults: {
+    timeout: 30000,
+    maxRedirects: 5,
+    // Cap on response bodies; 'max_bytes' may only lower it
+    maxBytes: 1024 * 1024,
+  },
+  handler: async (
+    { url, method = "GET", headers = {}, body, json, timeout, max_bytes, follow_redirects },
+    _extra,
+    options
+  ) => {
+    try {
+      if (body !== undefined && json !== undefined) {
+        return errorResult("INVALID_ARGUMENT", "Pass either 'body' or 'json', not both.");
+      }
+      let target: URL;
+      try {
+        target = new URL(url);
+      } catch (_e) {
+        return errorResult("INVALID_ARGUMENT", `Invalid URL: ${url}`, { url });
+      }
+
+      const requestHeaders = Object.fromEntries(
+        Object.entries(headers)
+          .map(([name, value]) => [name.toLowerCase(), value])
+          .filter(([name]) => !RESERVED_HEADERS.includes(name))
+      );
+      if (json !== undefined && !requestHeaders["content-type"]) {
+        requestHeaders["content-type"] = "application/json";
+      }
+
+      const maxBytes = Math.min(max_bytes ?? options.maxBytes, options.maxBytes);
+      const secrets = new Set<string>();
+      const startedAt = Date.now();
+      // Every hop is resolved and checked against the private address ranges before connecting
+      const response = await httpRequest(target.href, {
+        method,
+        headers: requestHeaders,
+        body: json !== undefined ? JSON.stringify(json) : body,
+        timeout: timeout ?? options.timeout,
+        maxRedirects: options.maxRedirects,
+        followRedirects: follow_redirects ?? true,
+        maxBytes,
+        // Looked up for every hop, so a redirect to another host does not carry these credentials along
+        headersFor: (hop) => {
+          const credentials = credentialsFor(hop);
+          credentials.secrets.forEach((secret) => secrets.add(secret));
+          return credentials.headers;
+        },
+      });
+      const authenticated = secrets.size > 0;
+      const bytes = response.body.length;
+      response.body = redactSecrets(response.body, secrets, response.truncated);
+      const durationMs = Date.now() - startedAt;
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = redactSecrets(Buffer.from(value), secrets).toString();
+      });
+      const { body: responseBody, bodyEncoding, json: parsed } = describeBody(response);
+      const contentType = response.headers.get("content-type") ?? undefined;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `${method} ${response.url}`,
+              `Status: ${response.status} ${response.statusText}`,
+              ...Object.entries(responseHeaders).map(([name, value]) => `${name}: ${value}`),
+              "",
+              ...(response.truncated ? [`IMPORTANT: The body was truncated at ${maxBytes} bytes.`, ""] : []),
+              bodyEncoding === "base64"
+                ? `(binary body, ${bytes} bytes, base64)\n${responseBody}`
+                : responseBody || "(empty body)",
+            ].join("\n"),
+          },
+        ],
+        structuredContent: {
+          url: target.href,
+          finalUrl: response.url,
+          redirects: response.redirects,
+          method,
+          status: response.status,
+          statusText: response.statusText,
+          headers: responseHeaders,
+          contentType,
+          body: responseBody,
+          bodyEncoding,
+          json: parsed,
+          bytes,
+          truncated: response.truncated,
+          authenticated,
+          durationMs,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "HTTP request failed");
+    }
+  },
+});
@@ -0,0 +1,236 @@
+import z from "zod";
+import { lstatSync, readdirSync, readlinkSync, Stats, statSync } from "fs";
+import { join, relative } from "path";
+import { EntryType, entryTypeOf } from "../utils/file-operations.js";
+import { IgnoreRules } from "../utils/ignore-rules.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath, workspaceRootOf } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+interface ListedEntry {
+  path: string;
+  name: string;
+  type: EntryType;
+  size: number;
+  mtime: Date;
+  // 0 for the listed directory's own children
+  depth: number;
+  symlinkTarget?: string;
+  // Tree branches drawn before the name
+  prefix: string;
+}
+
+interface WalkState {
+  root: string;
+  maxDepth: number;
+  sort: "name" | "size" | "mtime";
+  reverse: boolean;
+  rules?: IgnoreRules;
+  maxScanEntries: number;
+  entries: ListedEntry[];
+  ignoredCount: number;
+  unreadable: string[];
+  incomplete: boolean;
+}
+
+// Directories come first; names sort ascending, sizes and times newest/largest first unless reversed
+function compareEntries(a: ListedEntry, b: ListedEntry, state: WalkState): number {
+  if ((a.type === "directory") !== (b.type === "directory")) {
+    return a.type === "directory" ? -1 : 1;
+  }
+  const order =
+    state.sort === "size"
+      ? b.size - a.size
+      : state.sort === "mtime"
+        ? b.mtime.getTime() - a.mtime.getTime()
+        : 0;
+  const result = order !== 0 ? order : a.name.localeCompare(b.name);
+  return state.reverse ? -result : result;
+}
+
+// Symlinked directories are listed but not followed, so links cannot lead out of the workspace or into loops
+function walk(directory: string, depth: number, prefix: string, state: WalkState): void {
+  let names: string[];
+  try {
+    names = readdirSync(directory);
+  } catch (_e) {
+    state.unreadable.push(relative(state.root, directory) || ".");
+    return;
+  }
+
+  const children: ListedEntry[] = [];
+  for (const name of names) {
+    const fullPath = join(directory, name);
+    let stats: Stats;
+    try {
+      stats = lstatSync(fullPath);
+    } catch (_e) {
+      // Removed while listing
+      continue;
+    }
+    const type = entryTypeOf(stats);
+    if (state.rules?.check(fullPath, type === "directory")) {
+      state.ignoredCount++;
+      continue;
+    }
+    children.push({
+      path: relative(state.root, fullPath),
+      name,
+      type,
+      size: stats.size,
+      mtime: stats.mtime,
+      depth,
+      symlinkTarget: type === "symlink" ? readlinkSync(fullPath) : undefined,
+      prefix: "",
+    });
+  }
+  children.sort((a, b) => compareEntries(a, b, state));
+
+  children.forEach((child, i) => {
+    if (state.entries.length >= state.maxScanEntries) {
+      state.incomplete = true;
+      return;
+    }
+    const isLast = i === children.length - 1;
+    child.prefix = `${prefix}${isLast ? "└── " : "├── "}`;
+    state.entries.push(child);
+    if (child.type === "directory" && depth + 1 < state.maxDepth) {
+      walk(join(directory, child.name), depth + 1, `${prefix}${isLast ? "    " : "│   "}`, state);
+    }
+  });
+}
+
+function renderEntry(entry: ListedEntry, format: "tree" | "list"): string {
+  const suffix = `${entry.type === "directory" ? "/" : ""}${entry.symlinkTarget !== undefined ? ` -> ${entry.symlinkTarget}` : ""}`;
+  if (format === "tree") {
+    return `${entry.prefix}${entry.name}${suffix}`;
+  }
+  const flag = entry.type === "directory" ? "d" : entry.type === "symlink" ? "l" : entry.type === "file" ? "-" : "?";
+  return `${flag} ${String(entry.size).padStart(10)} ${entry.mtime.toISOString()} ${entry.path}${suffix}`;
+}
+
+// Register list_directory tool
+export default defineTool({
+  name: "list_directory",
+  description: "Lists the contents of a directory, optionally recursively, as a tree or as a detailed list with sizes and modification times. Entries excluded by .gitignore/.ignore files or the default excludes (node_modules, .git, build output, etc.) are hidden unless disabled. Results are paginated with 'offset' and 'limit'.",
+  schema: {
+    path: z.string().describe("The absolute path of the directory to list. Must be inside one of the server's workspace roots."),
+    depth: z.number().int().min(1).optional().describe("Optional: How many levels to descend; 1 lists only the directory's own entries. Defaults to 1."),
+    sort: z.enum(["name", "size", "mtime"]).optional().describe("Optional: Sort order within each directory: 'name' (A-Z), 'size' (largest first) or 'mtime' (newest first). Directories are always listed before files. Defaults to 'name'."),
+    reverse: z.boolean().optional().describe("Optional: Reverse the sort order. Defaults to false."),
+    format: z.enum(["tree", "list"]).optional().describe("Optional: 'tree' draws the hierarchy; 'list' shows type, size, modification time and relative path per line. Defaults to 'tree'."),
+    respect_ignore_files: z.boolean().optional().default(true).describe("Optional: Hide entries matched by .gitignore and .ignore files. Defaults to true."),
+    use_default_excludes: z.boolean().optional().default(true).describe("Optional: Hide node_modules, .git, build artifacts and similar. Defaults to true."),
+    offset: z.number().int().min(0).optional().describe("Optional: Number of entries to skip, for paging through large directories."),
+    limit: z.number().int().min(1).optional().describe("Optional: Maximum number of entries to return. Defaults to the server's configured limit (500 unless changed)."),
+  },
+  outputSchema: {
+    path: z.string().describe("The resolved path of the directory."),
+    entries: z.array(
+      z.object({
+        path: z.string().describe("Path relative to the listed directory."),
+        name: z.string(),
+        type: z.enum(["file", "directory", "symlink", "other"]),
+        size: z.number(),
+        mtime: z.string(),
+        depth: z.number().describe("0 for the directory's own entries."),
+        symlinkTarget: z.string().optional(),
+      })
+    ),
+    totalEntries: z.number().describe("Entries found, before paging."),
+    offset: z.number(),
+    truncated: z.boolean().describe("Whether entries after this page were left out."),
+    nextOffset: z.number().optional(),
+    ignoredCount: z.number().describe("Entries hidden by ignore files or default excludes; hidden directories are not descended into."),
+    unreadable: z.array(z.string()).describe("Directories that could not be read."),
+    incomplete: z.boolean().describe("Whether listing stopped early because the directory tree is too large."),
+  },
+  defaults: {
+    maxEntries: 500,
+    maxDepth: 20,
+    // Entries collected before listing stops; paging only covers these
+    maxScanEntries: 20000,
+  },
+  handler: async (
+    { path, depth, sort, reverse, format = "tree", respect_ignore_files = true, use_default_excludes = true, offset = 0, limit },
+    extra,
+    options
+  ) => {
+    try {
+      const directory = resolveWorkspacePath(path, getWorkingDirectory(extra.sessionId));
+      if (!statSync(directory).isDirectory()) {
+        return errorResult("ENOTDIR", `Not a directory: ${directory}`, { path: directory });
+      }
+
+      const state: WalkState = {
+        root: directory,
+        maxDepth: Math.min(depth ?? 1, options.maxDepth),
+        sort: sort ?? "name",
+        reverse: reverse ?? false,
+        rules:
+          respect_ignore_files || use_default_excludes
+            ? new IgnoreRules(workspaceRootOf(directory) ?? directory, {
+                useIgnoreFiles: respect_ignore_files,
+                useDefaultExcludes: use_default_excludes,
+              })
+            : undefined,
+        maxScanEntries: options.maxScanEntries,
+        entries: [],
+        ignoredCount: 0,
+        unreadable: [],
+        incomplete: false,
+      };
+      walk(directory, 0, "", state);
+
+      const pageSize = limit ?? options.maxEntries;
+      const page = state.entries.slice(offset, offset + pageSize);
+      const end = offset + page.length;
+      const truncated = end < state.entries.length;
+
+      const notes = [
+        truncated || offset > 0
+          ? `Showing entries ${offset + 1}-${end} of ${state.entries.length}.${truncated ? ` To see more, use offset: ${end}.` : ""}`
+          : undefined,
+        state.ignoredCount > 0
+          ? `${state.ignoredCount} entr${state.ignoredCount === 1 ? "y" : "ies"} hidden by ignore rules.`
+          : undefined,
+        state.incomplete ? `Listing stopped after ${options.maxScanEntries} entries; list a subdirectory or use a smaller depth.` : undefined,
+        state.unreadable.length > 0 ? `Could not read: ${state.unreadable.join(", ")}` : undefined,
+      ].filter((note) => note !== undefined);
+
+      const lines =
+        page.length > 0 ? page.map((entry) => renderEntry(entry, format)) : [offset > 0 ? "No more entries." : "(empty)"];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [`${directory}/`, ...lines, ...(notes.length > 0 ? ["", ...notes] : [])].join("\n"),
+          },
+        ],
+        structuredContent: {
+          path: directory,
+          entries: page.map(({ path, name, type, size, mtime, depth, symlinkTarget }) => ({
+            path,
+            name,
+            type,
+            size,
+            mtime: mtime.toISOString(),
+            depth,
+            symlinkTarget,
+          })),
+          totalEntries: state.entries.length,
+          offset,
+          truncated,
+          nextOffset: truncated ? end : undefined,
+          ignoredCount: state.ignoredCount,
+          unreadable: state.unreadable,
+          incomplete: state.incomplete,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to list directory");
+    }
+  },
+});
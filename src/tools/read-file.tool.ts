@@ -1,65 +1,286 @@
 import z from "zod";
-import { server } from "../index.js";
-import { readFileSync } from "fs";
-import { extname } from "path";
+import { readFileSync, statSync } from "fs";
+import { pathToFileURL } from "url";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describeBinary, detectFileType, extractPdfPages, FileType, readFileHead } from "../utils/file-content.js";
+import { recordFileRead } from "../utils/file-tracker.js";
+import {
+  LineWindow,
+  readByteRange,
+  readLastLines,
+  readLineWindow,
+  textLastLines,
+  textLineWindow,
+} from "../utils/line-reader.js";
+import { decodeBytes, decodeText, scanTextFile, TEXT_ENCODINGS } from "../utils/text-encoding.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+interface ReadFileOptions {
+  maxPdfPages: number;
+  maxPdfBytes: number;
+  maxImageBytes: number;
+}
+
+// Images come back as image blocks, PDFs as text page by page and other binaries as a hex summary
+async function readNonTextFile(
+  filePath: string,
+  head: Buffer,
+  size: number,
+  type: FileType,
+  offset: number | undefined,
+  limit: number | undefined,
+  options: ReadFileOptions
+): Promise<CallToolResult> {
+  const base = { path: filePath, kind: type.kind, mimeType: type.mimeType, size };
+
+  if (type.kind === "binary") {
+    return {
+      content: [{ type: "text", text: describeBinary(head, size, type.mimeType) }],
+      structuredContent: { ...base, truncated: false },
+    };
+  }
+
+  const maxBytes = type.kind === "image" ? options.maxImageBytes : options.maxPdfBytes;
+  if (size > maxBytes) {
+    return errorResult(
+      "FILE_TOO_LARGE",
+      `${type.kind === "image" ? "Image" : "PDF"} is ${size} bytes, more than the limit of ${maxBytes} bytes.`,
+      { path: filePath, size }
+    );
+  }
+  const buffer = readFileSync(filePath);
+
+  if (type.kind === "image") {
+    return {
+      content: [{ type: "image", data: buffer.toString("base64"), mimeType: type.mimeType! }],
+      structuredContent: { ...base, truncated: false },
+    };
+  }
+
+  let pages: string[];
+  try {
+    pages = await extractPdfPages(buffer);
+  } catch (_e) {
+    // Unparsable PDFs are handed to the client as they are
+    return {
+      content: [
+        {
+          type: "resource",
+          resource: { uri: pathToFileURL(filePath).href, mimeType: "application/pdf", blob: buffer.toString("base64") },
+        },
+      ],
+      structuredContent: { ...base, truncated: false },
+    };
+  }
+
+  // offset and limit select pages for PDFs
+  const startPage = offset ?? 0;
+  const endPage = Math.min(startPage + Math.min(limit ?? options.maxPdfPages, options.maxPdfPages), pages.length);
+  const truncated = endPage < pages.length;
+  const text = pages
+    .slice(startPage, endPage)
+    .map((page, i) => `--- Page ${startPage + i + 1} of ${pages.length} ---\n${page}`)
+    .join("\n\n");
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: truncated
+          ? `${text}\n\nIMPORTANT: Showing pages ${startPage + 1}-${endPage} of ${pages.length}. To read more, use offset: ${endPage}.`
+          : text,
+      },
+    ],
+    structuredContent: {
+      ...base,
+      pageCount: pages.length,
+      startPage: startPage + 1,
+      endPage,
+      truncated,
+      nextOffset: truncated ? endPage : undefined,
+    },
+  };
+}
 
 // Register read_file tool
-server.tool(
-  "read_file",
-  "Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. Handles text files.",
-  {
-    absolute_path: z.string().describe("The absolute path to the file to read (e.g., '/home/user/project/file.txt'). Relative paths are not supported. You must provide an absolute path."),
-    offset: z.number().optional().describe("Optional: For text files, the 0-based line number to start reading from. Requires 'limit' to be set. Use for paginating through large files."),
-    limit: z.number().optional().describe("Optional: For text files, maximum number of lines to read. Use with 'offset' to paginate through large files. If omitted, reads the entire file (if feasible, up to a default limit)."),
+export default defineTool({
+  name: "read_file",
+  description: "Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. Text files are streamed, so very large files can be paged through, read from the end with 'tail' or read by byte range with 'byte_offset'/'byte_length'; overlong lines are cut at 'max_line_length'. Handles text files, images (PNG, JPEG, GIF, WebP, SVG; returned as images), PDFs (text extracted page by page) and other binary files (returned as a hex summary). The file type is detected from the content, not the extension. Text is decoded as UTF-8, UTF-16 or Latin-1 depending on its BOM and content, and the detected encoding and line endings are reported in the result; files that cannot be decoded without losing data are refused.",
+  schema: {
+    absolute_path: z.string().describe("The path to the file to read (e.g., '/home/user/project/file.txt'). Relative paths are resolved against the session's working directory. Must be inside one of the server's workspace roots."),
+    offset: z.number().min(0).optional().describe("Optional: For text files, the 0-based line number to start reading from; for PDFs, the 0-based page number. Use for paginating through large files."),
+    limit: z.number().min(1).optional().describe("Optional: For text files, maximum number of lines to read; for PDFs, maximum number of pages. Use with 'offset' to paginate through large files. If omitted, reads up to a default limit, which is also the most it reads."),
+    tail: z.number().min(1).optional().describe("Optional: For text files, return only the last N lines (e.g. the end of a log), at most the server's line limit. Cannot be combined with 'offset'/'limit' or a byte range."),
+    byte_offset: z.number().min(0).optional().describe("Optional: For text files, read raw content starting at this 0-based byte offset instead of by line. Cannot be combined with 'offset'/'limit' or 'tail'."),
+    byte_length: z.number().min(1).optional().describe("Optional: Number of bytes to read with 'byte_offset'. Defaults to the server's configured limit (100,000 unless changed), which is also the most it reads."),
+    max_line_length: z.number().min(1).optional().describe("Optional: Lines longer than this many characters are cut off, so minified files stay readable. Defaults to the server's configured limit (2,000 unless changed), which it cannot exceed."),
+  },
+  outputSchema: {
+    path: z.string().describe("The resolved path of the file."),
+    kind: z.enum(["text", "image", "pdf", "binary"]).describe("The file type detected from the content."),
+    mimeType: z.string().optional(),
+    size: z.number().describe("Size of the file in bytes."),
+    sha256: z.string().optional().describe("Text files: SHA-256 of the file, for 'expected_sha256' when writing it; absent for very large files."),
+    encoding: z.enum(TEXT_ENCODINGS).optional().describe("Text files: the detected encoding."),
+    bom: z.boolean().optional().describe("Text files: whether the file starts with a byte order mark."),
+    lineEndings: z
+      .enum(["lf", "crlf", "mixed"])
+      .optional()
+      .describe("Text files: the line ending style, detected from the whole file; absent when there are no line breaks."),
+    startLine: z.number().optional().describe("Text files: 1-based number of the first line returned."),
+    endLine: z.number().optional().describe("Text files: 1-based number of the last line returned."),
+    totalLines: z.number().optional().describe("Text files: number of lines in the file, when known."),
+    truncatedLines: z.number().optional().describe("Text files: number of returned lines cut off at 'max_line_length'."),
+    byteOffset: z.number().optional().describe("Byte ranges: offset of the first byte returned."),
+    byteLength: z.number().optional().describe("Byte ranges: number of bytes returned."),
+    nextByteOffset: z.number().optional().describe("Byte ranges: the 'byte_offset' for reading on, when bytes are left."),
+    pageCount: z.number().optional().describe("PDFs: number of pages."),
+    startPage: z.number().optional().describe("PDFs: 1-based number of the first page returned."),
+    endPage: z.number().optional().describe("PDFs: 1-based number of the last page returned."),
+    truncated: z.boolean().describe("Whether lines, pages or bytes outside the returned ones were left out."),
+    nextOffset: z.number().optional().describe("The 'offset' for reading the next section, when truncated."),
   },
-  async ({ absolute_path, offset, limit }) => {
+  defaults: {
+    maxLines: 1000,
+    maxLineLength: 2000,
+    maxBytes: 100000,
+    maxPdfPages: 50,
+    maxPdfBytes: 50 * 1024 * 1024,
+    maxImageBytes: 10 * 1024 * 1024,
+    // UTF-16 files are decoded in full instead of streamed
+    maxUtf16Bytes: 50 * 1024 * 1024,
+  },
+  handler: async (
+    { absolute_path, offset, limit, tail, byte_offset, byte_length, max_line_length },
+    extra,
+    options
+  ) => {
     try {
-      // Read the entire file content
-      const fileContent = readFileSync(absolute_path, 'utf-8');
-      const lines = fileContent.split('\n');
-      const totalLines = lines.length;
-
-      let content = fileContent;
-      let isTruncated = false;
-      let startLine = 0;
-      let endLine = totalLines - 1;
-
-      // Handle pagination with offset and limit
-      if (offset !== undefined && limit !== undefined) {
-        startLine = offset;
-        endLine = Math.min(offset + limit - 1, totalLines - 1);
-        content = lines.slice(startLine, endLine + 1).join('\n');
-        isTruncated = endLine < totalLines - 1;
-      } else if (limit !== undefined) {
-        // If only limit is provided, read from start
-        endLine = Math.min(limit - 1, totalLines - 1);
-        content = lines.slice(0, endLine + 1).join('\n');
-        isTruncated = endLine < totalLines - 1;
+      const filePath = resolveWorkspacePath(absolute_path, getWorkingDirectory(extra.sessionId));
+
+      // Only the start of the file is read up front; text is streamed below
+      const size = statSync(filePath).size;
+      const head = readFileHead(filePath);
+      const sha256 = recordFileRead(extra.sessionId, filePath);
+
+      const type = detectFileType(head);
+      if (type.kind !== "text") {
+        return readNonTextFile(filePath, head, size, type, offset, limit, options);
+      }
+
+      const modes = [offset ?? limit, tail, byte_offset ?? byte_length].filter((value) => value !== undefined);
+      if (modes.length > 1) {
+        return errorResult(
+          "INVALID_ARGUMENT",
+          "Use only one of 'offset'/'limit', 'tail' or 'byte_offset'/'byte_length'."
+        );
+      }
+
+      // Undecodable files are refused instead of being returned with replacement characters
+      const { format, valid } = scanTextFile(filePath);
+      if (!valid) {
+        return errorResult(
+          "ENCODING_ERROR",
+          `File is not valid ${format.encoding} and cannot be decoded without losing data.`,
+          { path: filePath, encoding: format.encoding }
+        );
+      }
+      const utf16 = format.encoding === "utf-16le" || format.encoding === "utf-16be";
+      const base = { path: filePath, kind: type.kind, size, sha256, encoding: format.encoding, bom: format.bom };
+
+      // Arguments can narrow the configured limits but not widen them, so one call cannot allocate without bound
+      const maxLines = Math.min(tail ?? limit ?? options.maxLines, options.maxLines);
+      const maxLineLength = Math.min(max_line_length ?? options.maxLineLength, options.maxLineLength);
+
+      if (byte_offset !== undefined || byte_length !== undefined) {
+        const start = Math.min(byte_offset ?? 0, size);
+        const length = Math.min(byte_length ?? options.maxBytes, options.maxBytes, size - start);
+        const bytes = await readByteRange(filePath, start, length);
+        const end = start + bytes.length;
+        const text = decodeBytes(bytes, format.encoding);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                end < size
+                  ? `Status: Showing bytes ${start}-${end - 1} of ${size}. To read on, use byte_offset: ${end}.\n\n--- FILE CONTENT (byte range) ---\n${text}`
+                  : text,
+            },
+          ],
+          structuredContent: {
+            ...base,
+            lineEndings: format.lineEndings,
+            byteOffset: start,
+            byteLength: bytes.length,
+            nextByteOffset: end < size ? end : undefined,
+            truncated: start > 0 || end < size,
+          },
+        };
+      }
+
+      let window: LineWindow;
+      if (utf16) {
+        // A UTF-16 line break is two bytes, so these files are decoded in full and split in memory
+        if (size > options.maxUtf16Bytes) {
+          return errorResult(
+            "FILE_TOO_LARGE",
+            `UTF-16 file is ${size} bytes, more than the limit of ${options.maxUtf16Bytes} bytes. Use 'byte_offset' and 'byte_length' to read parts of it.`,
+            { path: filePath, size }
+          );
+        }
+        const text = decodeText(readFileSync(filePath), format, filePath);
+        window =
+          tail !== undefined
+            ? textLastLines(text, maxLines, maxLineLength)
+            : textLineWindow(text, offset ?? 0, maxLines, maxLineLength);
       } else {
-        // Check if file is too large (arbitrary limit of 1000 lines)
-        const maxLines = 1000;
-        if (totalLines > maxLines) {
-          endLine = maxLines - 1;
-          content = lines.slice(0, maxLines).join('\n');
-          isTruncated = true;
+        const encoding = format.encoding === "latin1" ? "latin1" : "utf-8";
+        window =
+          tail !== undefined
+            ? await readLastLines(filePath, maxLines, maxLineLength, encoding)
+            : await readLineWindow(filePath, offset ?? 0, maxLines, maxLineLength, encoding);
+        if (format.bom && window.startLine === 0 && window.lines.length > 0) {
+          window.lines[0] = window.lines[0].replace(/^\uFEFF/, "");
         }
       }
 
+      const content = window.lines.join('\n');
+      const startLine = window.startLine;
+      const endLine = startLine !== undefined ? startLine + window.lines.length - 1 : undefined;
+      const totalLines = window.totalLines;
+      // In tail mode the lines before the window are the ones left out
+      const isTruncated =
+        tail !== undefined
+          ? startLine !== 0
+          : endLine !== undefined && totalLines !== undefined && endLine < totalLines - 1;
+      const nextOffset = isTruncated && tail === undefined ? endLine! + 1 : undefined;
+
       let resultContent = content;
 
-      if (isTruncated) {
-        const nextOffset = offset ? offset + (endLine - startLine + 1) : endLine + 1;
+      if (tail !== undefined && isTruncated) {
+        resultContent = `Status: Showing the last ${window.lines.length} line${window.lines.length === 1 ? "" : "s"}${
+          startLine !== undefined ? ` (lines ${startLine + 1}-${endLine! + 1} of ${totalLines})` : ""
+        }.
+
+--- FILE CONTENT (tail) ---
+${content}`;
+      } else if (isTruncated) {
         resultContent = `
 IMPORTANT: The file content has been truncated.
-Status: Showing lines ${startLine + 1}-${endLine + 1} of ${totalLines} total lines.
+Status: Showing lines ${startLine! + 1}-${endLine! + 1} of ${totalLines} total lines.
 Action: To read more of the file, you can use the 'offset' and 'limit' parameters in a subsequent 'read_file' call. For example, to read the next section of the file, use offset: ${nextOffset}.
 
 --- FILE CONTENT (truncated) ---
 ${content}`;
       }
 
-      // Get file extension for context
-      const fileExtension = extname(absolute_path);
+      if (window.truncatedLines > 0) {
+        resultContent = `Note: ${window.truncatedLines} line${window.truncatedLines === 1 ? " was" : "s were"} longer than ${maxLineLength} characters and cut off. Use 'byte_offset' and 'byte_length' to read them in full.\n${resultContent}`;
+      }
 
       return {
         content: [
@@ -68,16 +289,19 @@ ${content}`;
             text: resultContent,
           },
         ],
+        structuredContent: {
+          ...base,
+          lineEndings: format.lineEndings,
+          startLine: startLine !== undefined ? startLine + 1 : undefined,
+          endLine: endLine !== undefined ? endLine + 1 : undefined,
+          totalLines,
+          truncatedLines: window.truncatedLines,
+          truncated: isTruncated,
+          nextOffset,
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error reading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          },
-        ],
-      };
+      return exceptionResult(error, "Failed to read file");
     }
   },
-);
\ No newline at end of file
+});
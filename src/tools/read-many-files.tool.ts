@@ -1,73 +1,145 @@
 import z from "zod";
-import { server } from "../index.js";
-import { readFileSync, statSync } from "fs";
-import { extname, relative, resolve, basename } from "path";
-import fg from "fast-glob";
-
-// Default exclusion patterns for common files/directories to skip
-const DEFAULT_EXCLUDES = [
-  "**/node_modules/**",
-  "**/.git/**",
-  "**/.svn/**",
-  "**/.hg/**",
-  "**/dist/**",
-  "**/build/**",
-  "**/coverage/**",
-  "**/.nyc_output/**",
-  "**/tmp/**",
-  "**/temp/**",
-  "**/*.log",
-  "**/*.tmp",
-  "**/*.cache",
-  "**/.DS_Store",
-  "**/Thumbs.db",
-  "**/*.exe",
-  "**/*.dll",
-  "**/*.so",
-  "**/*.dylib",
-  "**/*.bin",
-  "**/*.zip",
-  "**/*.tar.gz",
-  "**/*.rar",
-  "**/*.7z",
-];
+import { readFileSync, realpathSync, statSync } from "fs";
+import { extname, relative, basename, resolve } from "path";
+import { ImageContent } from "@modelcontextprotocol/sdk/types.js";
+import { describeBinary, detectFileType, extractPdfPages, FileKind, readFileHead } from "../utils/file-content.js";
+import { patternBase } from "../utils/file-discovery.js";
+import { describeIgnoreMatch, discoverFiles, PROJECT_IGNORE_FILE } from "../utils/ignore-rules.js";
+import { formatOutline, OutlineEntry, outlineText } from "../utils/outline.js";
+import { decodeText, detectTextFormat } from "../utils/text-encoding.js";
+import { estimateTokens, IMAGE_TOKEN_ESTIMATE } from "../utils/token-estimate.js";
+import { exceptionResult, ToolError } from "../utils/tool-result.js";
+import { getWorkingDirectory, resolveWorkingDirectory } from "../utils/working-directory.js";
+import { assertGlobPatternInWorkspace, isWithinWorkspace } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+// Images, PDFs and other binaries are only included when a pattern names the file or its extension
+function isExplicitlyRequested(filePath: string, patterns: string[]): boolean {
+  const fileExtension = extname(filePath).toLowerCase();
+  const fileName = basename(filePath);
+  return patterns.some(
+    (pattern) => pattern.includes(fileName) || (fileExtension !== "" && pattern.toLowerCase().includes(fileExtension))
+  );
+}
+
+// Files a pattern names exactly come first, then the rest in the requested order
+function rankFiles(files: string[], patterns: string[], sort: "path" | "size" | "mtime", baseDir: string): string[] {
+  const explicit = new Set(
+    patterns.filter((pattern) => patternBase(pattern) === pattern).map((pattern) => resolve(baseDir, pattern))
+  );
+  const keys = new Map(
+    files.map((file) => {
+      try {
+        const stats = statSync(file);
+        return [file, sort === "size" ? stats.size : -stats.mtimeMs];
+      } catch (_e) {
+        return [file, 0];
+      }
+    })
+  );
+  return [...files].sort((a, b) => {
+    if (explicit.has(a) !== explicit.has(b)) {
+      return explicit.has(a) ? -1 : 1;
+    }
+    const order = sort === "path" ? 0 : keys.get(a)! - keys.get(b)!;
+    return order !== 0 ? order : a.localeCompare(b);
+  });
+}
+
+// Cursors name the next file, so a call still resumes at the right place when files were added or removed since
+function encodeCursor(index: number, filePath: string): string {
+  return Buffer.from(JSON.stringify({ index, path: filePath })).toString("base64url");
+}
+
+function resumeIndex(cursor: string, files: string[]): number {
+  let position: { index?: unknown; path?: unknown };
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch (_e) {
+    position = {};
+  }
+  if (typeof position.index !== "number" || typeof position.path !== "string") {
+    throw new ToolError("Invalid cursor; pass the 'nextCursor' of a previous call unchanged.", "INVALID_ARGUMENT");
+  }
+  const index = files.indexOf(position.path);
+  return index !== -1 ? index : Math.min(position.index, files.length);
+}
+
+// The lines a file adds to the output
+function renderBlock(relativePath: string, info: string, text: string | undefined, includeFileInfo: boolean): string[] {
+  if (includeFileInfo) {
+    return [`--- ${relativePath} ---`, info, "", ...(text !== undefined ? [text, ""] : [])];
+  }
+  return text !== undefined ? [text] : [];
+}
 
 // Register read_many_files tool
-server.tool(
-  "read_many_files",
-  "Reads and concatenates content from multiple files specified by glob patterns. Useful for analyzing codebases, reviewing multiple configuration files, or getting an overview of related files. Handles text files primarily, with optional support for explicitly requested image/PDF files.",
-  {
+export default defineTool({
+  name: "read_many_files",
+  description: `Reads and concatenates content from multiple files specified by glob patterns. Useful for analyzing codebases, reviewing multiple configuration files, or getting an overview of related files. Files excluded by .gitignore, .ignore, .git/info/exclude and ${PROJECT_IGNORE_FILE} files are skipped unless a pattern points into the excluded path (e.g. 'out/*.js' when 'out' is ignored); the summary names the rule that excluded each one. Handles text files primarily. Images, PDFs and other binary files (detected from their content) are skipped unless a pattern names the file or its extension; then images are returned as image content, PDFs as extracted text and other binaries as a hex summary.`,
+  schema: {
     patterns: z
       .array(z.string())
       .describe(
-        "Array of glob patterns to match files (e.g., ['src/**/*.ts', '*.md']). Patterns are relative to the current working directory."
+        "Array of glob patterns to match files (e.g., ['src/**/*.ts', '*.md']). Patterns are relative to 'base_dir' and must stay inside the server's workspace roots."
+      ),
+    base_dir: z
+      .string()
+      .optional()
+      .describe(
+        "Optional: Directory the patterns and the reported paths are relative to. A relative value is resolved against the session's working directory (see 'set_working_directory'), which is also the default."
       ),
     exclude: z
       .array(z.string())
       .optional()
       .describe(
-        "Optional: Additional glob patterns to exclude files/directories. These are added to default exclusions."
+        "Optional: Additional glob patterns to exclude files/directories. These are added to the ignore rules."
+      ),
+    respect_ignore_files: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe(
+        "Optional: Whether to skip files excluded by ignore files. Defaults to true."
       ),
     use_default_excludes: z
       .boolean()
       .optional()
       .default(true)
       .describe(
-        "Optional: Whether to apply default exclusion patterns (node_modules, .git, build artifacts, etc.). Defaults to true."
+        "Optional: Whether to skip node_modules and version control directories, and build artifacts, temporary files, etc. where no ignore file applies. Defaults to true."
       ),
     max_files: z
       .number()
       .optional()
-      .default(50)
       .describe(
-        "Optional: Maximum number of files to process. Defaults to 50 to prevent overwhelming output."
+        "Optional: Maximum number of files to process. Defaults to the server's configured limit (50 unless changed) to prevent overwhelming output."
       ),
     max_file_size: z
       .number()
       .optional()
-      .default(100000)
       .describe(
-        "Optional: Maximum file size in bytes to process per file. Defaults to 100KB. Larger files will be truncated."
+        "Optional: Maximum file size in bytes to process per file. Defaults to the server's configured limit (100KB unless changed). Larger files will be truncated."
+      ),
+    max_tokens: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        "Optional: Token budget for the file contents, estimated locally. Files are added in rank order until the budget is reached; the rest are left for the next call (see 'cursor'). Files too large for the whole budget, or larger than max_file_size, are shown as an outline of their headings or signatures instead. Defaults to the server's configured budget (none unless set)."
+      ),
+    sort: z
+      .enum(["path", "size", "mtime"])
+      .optional()
+      .describe(
+        "Optional: Order of the files after those a pattern names exactly: 'path' (A-Z), 'size' (smallest first, so more files fit a budget) or 'mtime' (most recently modified first). Defaults to 'path'."
+      ),
+    cursor: z
+      .string()
+      .optional()
+      .describe(
+        "Optional: The 'nextCursor' of a previous call with the same arguments, to continue where it stopped."
       ),
     include_file_info: z
       .boolean()
@@ -77,214 +149,285 @@ server.tool(
         "Optional: Whether to include file path separators and metadata in output. Defaults to true."
       ),
   },
-  async ({
-    patterns,
-    exclude = [],
-    use_default_excludes = true,
-    max_files = 50,
-    max_file_size = 100000,
-    include_file_info = true,
-  }) => {
+  outputSchema: {
+    baseDir: z.string().describe("The directory patterns and paths are relative to."),
+    files: z
+      .array(
+        z.object({
+          path: z.string().describe("Path relative to 'baseDir'."),
+          kind: z.enum(["text", "image", "pdf", "binary"]).describe("The file type detected from the content."),
+          lines: z.number().optional().describe("Number of lines included (text files)."),
+          bytes: z.number().describe("Size of the file on disk."),
+          truncated: z.boolean().describe("Whether only the first 'max_file_size' bytes were included."),
+          outlined: z.boolean().describe("Whether only an outline was included because the file does not fit 'max_tokens'."),
+          tokens: z.number().describe("Estimated tokens of the file's part of the output."),
+        })
+      )
+      .describe("Files whose content is included, in output order."),
+    skipped: z.array(z.object({ path: z.string(), reason: z.string() })),
+    ignored: z
+      .array(z.object({ path: z.string(), rule: z.string().describe("The rule as 'file:line: pattern'.") }))
+      .describe("Matching files excluded by ignore rules, up to the configured limit."),
+    ignoredCount: z.number(),
+    omittedByLimit: z.number().describe("Matching files left for later calls because of 'max_files' or 'max_tokens'."),
+    tokens: z.number().describe("Estimated tokens of the file contents returned."),
+    maxTokens: z.number().optional(),
+    nextCursor: z.string().optional().describe("Pass as 'cursor' to continue with the remaining files."),
+  },
+  defaults: {
+    max_files: 50,
+    max_file_size: 100000,
+    // Ignored files listed per call; the count is always complete
+    max_ignored_listed: 100,
+    // Token budget applied when a call sets none; 0 for no budget
+    max_tokens: 0,
+    // With a budget, how much of a large text file is read to outline it
+    max_outline_file_size: 5 * 1024 * 1024,
+  },
+  handler: async (
+    {
+      patterns,
+      base_dir,
+      exclude = [],
+      respect_ignore_files = true,
+      use_default_excludes = true,
+      max_files: requestedMaxFiles,
+      max_file_size: requestedMaxFileSize,
+      max_tokens,
+      sort = "path",
+      cursor,
+      include_file_info = true,
+    },
+    extra,
+    options
+  ) => {
+    const max_files = requestedMaxFiles ?? options.max_files;
+    const max_file_size = requestedMaxFileSize ?? options.max_file_size;
+
     try {
-      // Prepare exclusion patterns
-      const excludePatterns = use_default_excludes
-        ? [...DEFAULT_EXCLUDES, ...exclude]
-        : [...exclude];
-
-      // Use fast-glob to find matching files
-      const matchedFiles = await fg(patterns, {
-        ignore: excludePatterns,
-        onlyFiles: true,
-        dot: false,
-        absolute: true,
-        suppressErrors: true,
-        globstar: true,
+      const workingDir = getWorkingDirectory(extra.sessionId);
+      const baseDir = base_dir ? resolveWorkingDirectory(base_dir, workingDir) : workingDir;
+
+      // Refuse patterns that cannot match anything inside the workspace roots
+      for (const pattern of patterns) {
+        assertGlobPatternInWorkspace(pattern, baseDir);
+      }
+
+      // Find matching files, leaving out those excluded by ignore rules
+      const { files: matchedFiles, ignored: ignoredFiles } = await discoverFiles(patterns, {
+        exclude,
+        useDefaultExcludes: use_default_excludes,
+        useIgnoreFiles: respect_ignore_files,
+        cwd: baseDir,
       });
+      const ignored = ignoredFiles
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .map(({ path, match }) => ({ path: relative(baseDir, path), rule: describeIgnoreMatch(match) }));
+      const listedIgnored = ignored.slice(0, options.max_ignored_listed);
+
+      // Ignored files grouped by rule, with a few examples each
+      const ignoredSummary = () => {
+        const byRule = new Map<string, string[]>();
+        for (const { path, rule } of ignored) {
+          byRule.set(rule, [...(byRule.get(rule) ?? []), path]);
+        }
+        return [...byRule]
+          .map(
+            ([rule, paths]) =>
+              `- ${rule} (${paths.length} file${paths.length === 1 ? "" : "s"}: ${paths.slice(0, 3).join(", ")}${
+                paths.length > 3 ? ", ..." : ""
+              })\n`
+          )
+          .join("");
+      };
 
       if (matchedFiles.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `No files found matching patterns: ${patterns.join(
-                ", "
-              )}\n\nExcluded patterns: ${excludePatterns
-                .slice(0, 5)
-                .join(", ")}${excludePatterns.length > 5 ? "..." : ""}`,
+              text: `No files found matching patterns: ${patterns.join(", ")} (in ${baseDir})${
+                ignored.length > 0
+                  ? `\n\n${ignored.length} matching file${ignored.length === 1 ? " was" : "s were"} excluded by ignore rules:\n${ignoredSummary()}`
+                  : exclude.length > 0
+                    ? `\n\nExcluded patterns: ${exclude.slice(0, 5).join(", ")}${exclude.length > 5 ? "..." : ""}`
+                    : ""
+              }`,
             },
           ],
+          structuredContent: {
+            baseDir,
+            files: [],
+            skipped: [],
+            ignored: listedIgnored,
+            ignoredCount: ignored.length,
+            omittedByLimit: 0,
+            tokens: 0,
+          },
         };
       }
 
-      // Sort files for consistent output
-      const sortedFiles = matchedFiles.sort();
+      const skippedFiles: Array<{ path: string; reason: string }> = [];
+
+      // Drop matches that are outside the workspace roots or escape them through symlinks
+      const workspaceFiles = matchedFiles.filter((filePath) => {
+        try {
+          if (isWithinWorkspace(realpathSync(filePath))) {
+            return true;
+          }
+        } catch (_e) {
+          // Unresolvable paths are treated as outside the workspace
+        }
+        skippedFiles.push({
+          path: relative(baseDir, filePath),
+          reason: "Outside the allowed workspace roots",
+        });
+        return false;
+      });
 
-      // Limit number of files if needed
-      const filesToProcess = sortedFiles.slice(0, max_files);
-      const filesSkipped = sortedFiles.length - filesToProcess.length;
+      // Rank the files and resume where a previous call stopped
+      const rankedFiles = rankFiles(workspaceFiles, patterns, sort, baseDir);
+      const start = cursor ? resumeIndex(cursor, rankedFiles) : 0;
+      const budget = max_tokens ?? (options.max_tokens > 0 ? options.max_tokens : undefined);
+      // With a budget, text files over max_file_size are outlined rather than cut, so more of them is read
+      const readLimit = budget ? Math.max(max_file_size, options.max_outline_file_size) : max_file_size;
 
       const results: string[] = [];
-      const processedFiles: string[] = [];
-      const skippedFiles: Array<{ path: string; reason: string }> = [];
+      // Image blocks follow the text block, in the same order as the files
+      const images: ImageContent[] = [];
+      const processedFiles: Array<{
+        path: string;
+        kind: FileKind;
+        lines?: number;
+        bytes: number;
+        truncated: boolean;
+        outlined: boolean;
+        tokens: number;
+      }> = [];
+      let usedTokens = 0;
+      let stoppedByBudget = false;
 
-      // Process each file
-      for (const filePath of filesToProcess) {
+      // Process files in rank order until max_files or the budget is reached
+      let next = start;
+      for (; next < rankedFiles.length && processedFiles.length < max_files; next++) {
+        const filePath = rankedFiles[next];
+        const relativePath = relative(baseDir, filePath);
         try {
           const stats = statSync(filePath);
-          const relativePath = relative(process.cwd(), filePath);
-
-          // Check file size
-          if (stats.size > max_file_size) {
-            // Read truncated content
-            const buffer = Buffer.alloc(max_file_size);
-            const fd = require("fs").openSync(filePath, "r");
-            const bytesRead = require("fs").readSync(
-              fd,
-              buffer,
-              0,
-              max_file_size,
-              0
-            );
-            require("fs").closeSync(fd);
-
-            const truncatedContent = buffer
-              .subarray(0, bytesRead)
-              .toString("utf-8");
-            const lines = truncatedContent.split("\n").length;
-
-            if (include_file_info) {
-              results.push(
-                `--- ${relativePath} ---`,
-                `[WARNING: File truncated - showing first ${max_file_size} bytes of ${stats.size} total bytes]`,
-                "",
-                truncatedContent,
-                ""
-              );
-            } else {
-              results.push(truncatedContent);
-            }
+          const isTruncated = stats.size > readLimit;
+          const buffer = isTruncated ? readFileHead(filePath, readLimit) : readFileSync(filePath);
+          const type = detectFileType(buffer);
 
-            processedFiles.push(relativePath);
-            continue;
-          }
-
-          // Detect file type based on extension
-          const fileExtension = extname(filePath).toLowerCase();
-          const isTextFile =
-            !fileExtension ||
-            [
-              ".txt",
-              ".md",
-              ".js",
-              ".ts",
-              ".jsx",
-              ".tsx",
-              ".json",
-              ".xml",
-              ".html",
-              ".htm",
-              ".css",
-              ".scss",
-              ".less",
-              ".py",
-              ".java",
-              ".c",
-              ".cpp",
-              ".h",
-              ".hpp",
-              ".php",
-              ".rb",
-              ".go",
-              ".rs",
-              ".swift",
-              ".kt",
-              ".scala",
-              ".sh",
-              ".bash",
-              ".yml",
-              ".yaml",
-              ".toml",
-              ".ini",
-              ".cfg",
-              ".conf",
-              ".env",
-              ".gitignore",
-              ".gitattributes",
-              ".editorconfig",
-              ".eslintrc",
-              ".prettierrc",
-              ".dockerfile",
-              ".sql",
-              ".graphql",
-              ".vue",
-              ".svelte",
-              ".astro",
-              ".R",
-              ".m",
-              ".pl",
-              ".ps1",
-              ".bat",
-              ".cmd",
-              ".vbs",
-              ".awk",
-              ".sed",
-              ".tex",
-              ".bib",
-              ".cls",
-              ".sty",
-              ".log",
-              ".config",
-              ".properties",
-              ".gradle",
-              ".maven",
-              ".cmake",
-              ".make",
-              ".makefile",
-              ".lock",
-              ".spec",
-              ".test",
-              ".story",
-              ".stories",
-            ].includes(fileExtension);
-
-          if (!isTextFile) {
-            // Check if this is an explicitly requested non-text file
-            const fileName = basename(filePath);
-            const explicitlyRequested = patterns.some(
-              (pattern) =>
-                pattern.includes(fileExtension) ||
-                pattern.includes(fileName) ||
-                pattern.includes("*" + fileExtension)
-            );
-
-            if (!explicitlyRequested) {
+          if (type.kind !== "text") {
+            if (!isExplicitlyRequested(filePath, patterns)) {
+              skippedFiles.push({
+                path: relativePath,
+                reason: `${type.kind === "binary" ? "Binary" : "Non-text"} file (${type.mimeType ?? "unknown type"}) not explicitly requested`,
+              });
+              continue;
+            }
+            // A partial image or PDF cannot be decoded
+            if (isTruncated && type.kind !== "binary") {
               skippedFiles.push({
                 path: relativePath,
-                reason: `Binary/non-text file (${fileExtension}) not explicitly requested`,
+                reason: `${type.mimeType} file is larger than max_file_size (${stats.size} > ${readLimit} bytes)`,
               });
               continue;
             }
           }
 
-          // Read file content
-          const content = readFileSync(filePath, "utf-8");
-          const lines = content.split("\n").length;
-
-          if (include_file_info) {
-            results.push(
-              `--- ${relativePath} ---`,
-              `[File info: ${lines} lines, ${stats.size} bytes]`,
-              "",
-              content,
-              ""
-            );
+          let info: string;
+          let text: string | undefined;
+          let lines: number | undefined;
+          let image: ImageContent | undefined;
+          // Structure to show instead of the content when the file does not fit the budget
+          let outline: OutlineEntry[] | undefined;
+          if (type.kind === "image") {
+            image = { type: "image", data: buffer.toString("base64"), mimeType: type.mimeType! };
+            info = `[Image: ${type.mimeType}, ${stats.size} bytes - included as an image below]`;
+          } else if (type.kind === "pdf") {
+            const pages = await extractPdfPages(buffer);
+            info = `[PDF: ${pages.length} pages, ${stats.size} bytes]`;
+            text = pages.map((page, i) => `--- Page ${i + 1} of ${pages.length} ---\n${page}`).join("\n\n");
+            outline = pages.map((page, i) => ({
+              line: i + 1,
+              text: page.split("\n").find((line) => line.trim() !== "")?.trim().slice(0, 200) ?? "",
+            }));
+          } else if (type.kind === "binary") {
+            info = `[Binary file: ${stats.size} bytes]`;
+            text = describeBinary(buffer, stats.size, type.mimeType);
           } else {
-            results.push(content);
+            text = decodeText(buffer, detectTextFormat(buffer, !isTruncated), filePath, !isTruncated);
+            lines = text.split("\n").length;
+            outline = outlineText(text, filePath);
+            info = isTruncated
+              ? `[WARNING: File truncated - showing first ${readLimit} bytes of ${stats.size} total bytes]`
+              : `[File info: ${lines} lines, ${stats.size} bytes]`;
+          }
+
+          let block = renderBlock(relativePath, info, text, include_file_info);
+          let tokens = estimateTokens(block.join("\n")) + (image ? IMAGE_TOKEN_ESTIMATE : 0);
+          let outlined = false;
+          if (budget !== undefined) {
+            const remaining = budget - usedTokens;
+            // Files that could never fit, or are over max_file_size, are outlined; the rest wait for the next call
+            const fitsAlone = tokens <= budget && !(type.kind === "text" && stats.size > max_file_size);
+            if (fitsAlone && tokens > remaining) {
+              stoppedByBudget = true;
+              break;
+            }
+            if (!fitsAlone) {
+              if (!outline) {
+                skippedFiles.push({
+                  path: relativePath,
+                  reason: `${type.kind === "image" ? "Image" : "Binary file"} does not fit in max_tokens (~${tokens} tokens)`,
+                });
+                continue;
+              }
+              image = undefined;
+              const unit = type.kind === "pdf" ? "page" : "line";
+              const describe = (entries: OutlineEntry[]) =>
+                renderBlock(
+                  relativePath,
+                  `[Outline: ${type.kind === "pdf" ? info.slice(1, -1) : `${lines} lines, ${stats.size} bytes`}, ~${tokens} tokens in full - ${
+                    entries.length < outline!.length ? `first ${entries.length} of ${outline!.length} entries, ` : ""
+                  }${unit} numbers shown; read sections with read_file${type.kind === "pdf" ? "" : " using offset and limit"}]`,
+                  formatOutline(entries, unit === "page" ? "Page " : ""),
+                  // Keep the header even without file info, so an outline is not mistaken for the content
+                  true
+                ).slice(include_file_info ? 0 : 1);
+              let entries = outline;
+              block = describe(entries);
+              // Halve an outline that is itself too long, but always make progress on an empty page
+              while (estimateTokens(block.join("\n")) > remaining && entries.length > 1) {
+                entries = entries.slice(0, Math.ceil(entries.length / 2));
+                block = describe(entries);
+              }
+              const outlineTokens = estimateTokens(block.join("\n"));
+              if (outlineTokens > remaining && processedFiles.length > 0) {
+                stoppedByBudget = true;
+                break;
+              }
+              tokens = outlineTokens;
+              outlined = true;
+            }
           }
 
-          processedFiles.push(relativePath);
+          results.push(...block);
+          if (image) {
+            images.push(image);
+          }
+          usedTokens += tokens;
+          processedFiles.push({
+            path: relativePath,
+            kind: type.kind,
+            lines,
+            bytes: stats.size,
+            truncated: type.kind === "text" && isTruncated && !outlined,
+            outlined,
+            tokens,
+          });
         } catch (error) {
-          const relativePath = relative(process.cwd(), filePath);
           skippedFiles.push({
             path: relativePath,
             reason: `Error reading file: ${
@@ -294,6 +437,9 @@ server.tool(
         }
       }
 
+      const remainingFiles = rankedFiles.length - next;
+      const nextCursor = remainingFiles > 0 ? encodeCursor(next, rankedFiles[next]) : undefined;
+
       // Build final output
       let finalOutput = "";
 
@@ -305,16 +451,26 @@ server.tool(
           finalOutput += `Skipped: ${skippedFiles.length} files\n`;
         }
 
-        if (filesSkipped > 0) {
-          finalOutput += `Truncated: ${filesSkipped} files (exceeded max_files limit of ${max_files})\n`;
+        if (ignored.length > 0) {
+          finalOutput += `Ignored: ${ignored.length} files\n`;
+        }
+
+        if (budget !== undefined) {
+          finalOutput += `Tokens: ~${usedTokens} of ${budget} (estimated)\n`;
+        }
+
+        if (remainingFiles > 0) {
+          finalOutput += `Remaining: ${remainingFiles} files (${
+            stoppedByBudget ? `max_tokens budget of ${budget}` : `max_files limit of ${max_files}`
+          } reached)\n`;
         }
 
-        finalOutput += `Patterns: ${patterns.join(", ")}\n\n`;
+        finalOutput += `Patterns: ${patterns.join(", ")} (in ${baseDir})\n\n`;
 
         if (processedFiles.length > 0) {
           finalOutput += `PROCESSED FILES:\n`;
-          processedFiles.forEach((file) => {
-            finalOutput += `- ${file}\n`;
+          processedFiles.forEach(({ path, outlined }) => {
+            finalOutput += `- ${path}${outlined ? " (outline)" : ""}\n`;
           });
           finalOutput += "\n";
         }
@@ -330,10 +486,14 @@ server.tool(
           finalOutput += "\n";
         }
 
+        if (ignored.length > 0) {
+          finalOutput += `IGNORED FILES (by rule):\n${ignoredSummary()}\n`;
+        }
+
         finalOutput += `=== FILE CONTENTS ===\n\n`;
       }
 
-      if (results.length > 0) {
+      if (results.length > 0 || images.length > 0) {
         finalOutput += results.join("\n");
 
         if (include_file_info) {
@@ -343,25 +503,32 @@ server.tool(
         finalOutput += "No file content was successfully read.";
       }
 
+      if (nextCursor) {
+        finalOutput += `\n\n[${remainingFiles} more file${remainingFiles === 1 ? "" : "s"} to read. To continue, call again with the same arguments and cursor: "${nextCursor}"]`;
+      }
+
       return {
         content: [
           {
             type: "text",
             text: finalOutput,
           },
+          ...images,
         ],
+        structuredContent: {
+          baseDir,
+          files: processedFiles,
+          skipped: skippedFiles,
+          ignored: listedIgnored,
+          ignoredCount: ignored.length,
+          omittedByLimit: remainingFiles,
+          tokens: usedTokens,
+          maxTokens: budget,
+          nextCursor,
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error processing files: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`,
-          },
-        ],
-      };
+      return exceptionResult(error, "Failed to process files");
     }
   }
-);
+});
@@ -0,0 +1,378 @@
+import z from "zod";
+import { readFileSync, realpathSync, statSync } from "fs";
+import { relative } from "path";
+import { DEFAULT_EXCLUDES, findFiles, isBinaryContent } from "../utils/file-discovery.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import {
+  isWithinWorkspace,
+  resolveWorkspacePath,
+} from "../utils/workspace.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { defineTool } from "../tool.js";
+
+interface LineMatch {
+  file: string;
+  lineNumber: number;
+  before: Array<{ lineNumber: number; text: string }>;
+  line: string;
+  after: Array<{ lineNumber: number; text: string }>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function truncateLine(line: string, maxLength: number): string {
+  return line.length > maxLength
+    ? `${line.slice(0, maxLength)}... [${line.length - maxLength} more characters]`
+    : line;
+}
+
+// Renders matches grep-style, merging overlapping context and separating non-adjacent groups with "--"
+function renderMatches(matches: LineMatch[], maxLineLength: number): string[] {
+  const entries: string[] = [];
+  let currentFile: string | undefined;
+  let lastPrinted = -1;
+
+  for (const match of matches) {
+    const lines: string[] = [];
+
+    if (match.file !== currentFile) {
+      lines.push(currentFile === undefined ? match.file : `\n${match.file}`);
+      currentFile = match.file;
+      lastPrinted = -1;
+    } else if (match.before.length > 0 ? match.before[0].lineNumber > lastPrinted + 1 : match.lineNumber > lastPrinted + 1) {
+      lines.push("--");
+    }
+
+    for (const context of match.before) {
+      if (context.lineNumber > lastPrinted) {
+        lines.push(`${context.lineNumber}-${truncateLine(context.text, maxLineLength)}`);
+      }
+    }
+    if (match.lineNumber > lastPrinted) {
+      lines.push(`${match.lineNumber}:${truncateLine(match.line, maxLineLength)}`);
+    }
+    lastPrinted = Math.max(lastPrinted, match.lineNumber);
+    for (const context of match.after) {
+      if (context.lineNumber > lastPrinted) {
+        lines.push(`${context.lineNumber}-${truncateLine(context.text, maxLineLength)}`);
+        lastPrinted = context.lineNumber;
+      }
+    }
+
+    entries.push(lines.join("\n"));
+  }
+
+  return entries;
+}
+
+// Register search_file_content tool
+export default defineTool({
+  name: "search_file_content",
+  description: "Searches file contents for a regular expression or literal string, like grep. Supports case-insensitive search, context lines around matches and output modes for matching lines, matching file names or per-file match counts. Binary files are skipped. Results are paginated with 'offset' and 'limit' and capped in size.",
+  schema: {
+    pattern: z
+      .string()
+      .describe(
+        "The regular expression (JavaScript syntax) or literal string to search for."
+      ),
+    path: z
+      .string()
+      .optional()
+      .describe(
+        "Optional: Absolute path of the directory to search in. Must be inside one of the server's workspace roots. Defaults to the current working directory."
+      ),
+    include: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Optional: Glob patterns, relative to 'path', selecting which files to search (e.g., ['**/*.ts']). Defaults to all files."
+      ),
+    exclude: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Optional: Additional glob patterns to exclude files/directories. These are added to default exclusions."
+      ),
+    use_default_excludes: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe(
+        "Optional: Whether to apply default exclusion patterns (node_modules, .git, build artifacts, etc.). Defaults to true."
+      ),
+    literal: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Optional: Treat 'pattern' as a literal string instead of a regular expression. Defaults to false."
+      ),
+    case_sensitive: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Optional: Whether the search is case-sensitive. Defaults to true."),
+    before_context: z
+      .number()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe(
+        "Optional: Number of lines to show before each match (content mode only). At most the server's limit (100 unless changed)."
+      ),
+    after_context: z
+      .number()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe(
+        "Optional: Number of lines to show after each match (content mode only). At most the server's limit (100 unless changed)."
+      ),
+    output_mode: z
+      .enum(["content", "files_with_matches", "count"])
+      .optional()
+      .default("content")
+      .describe(
+        "Optional: 'content' shows matching lines, 'files_with_matches' lists matching files, 'count' shows the number of matching lines per file. Defaults to 'content'."
+      ),
+    offset: z
+      .number()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe(
+        "Optional: The 0-based index of the first result to return (a result is a matching line, a file or a count, depending on 'output_mode'). Use for paginating through results."
+      ),
+    limit: z
+      .number()
+      .min(1)
+      .optional()
+      .describe("Optional: Maximum number of results to return. Defaults to the server's configured limit (100 unless changed)."),
+    max_output_chars: z
+      .number()
+      .min(1)
+      .optional()
+      .describe(
+        "Optional: Maximum number of characters of results to return. Defaults to the server's configured limit (50,000 unless changed). Results beyond this are left for the next page."
+      ),
+    max_file_size: z
+      .number()
+      .optional()
+      .describe(
+        "Optional: Files larger than this many bytes are skipped. Cannot exceed the server's limit, which is also the default (1MB unless changed)."
+      ),
+  },
+  outputSchema: {
+    totalMatches: z.number().describe("Matching lines across all files."),
+    totalResults: z.number().describe("Results available for paging in the chosen output mode."),
+    nextOffset: z.number().optional().describe("The 'offset' of the next page, when more results are available."),
+    filesSearched: z.number(),
+    skippedBinary: z.number(),
+    skippedLarge: z.number(),
+    results: z
+      .array(
+        z.object({
+          file: z.string().describe("Path relative to the searched directory."),
+          lineNumber: z.number().optional().describe("1-based line number (content mode)."),
+          line: z.string().optional().describe("The matching line (content mode)."),
+          count: z.number().optional().describe("Number of matching lines in the file (count and files_with_matches modes)."),
+        })
+      )
+      .describe("The results on this page."),
+  },
+  defaults: {
+    limit: 100,
+    max_output_chars: 50000,
+    max_file_size: 1000000,
+    // Cap on 'before_context' and 'after_context'
+    max_context_lines: 100,
+  },
+  handler: async (
+    {
+      pattern,
+      path,
+      include = ["**/*"],
+      exclude = [],
+      use_default_excludes = true,
+      literal = false,
+      case_sensitive = true,
+      before_context = 0,
+      after_context = 0,
+      output_mode = "content",
+      offset = 0,
+      limit: requestedLimit,
+      max_output_chars: requestedMaxOutputChars,
+      max_file_size: requestedMaxFileSize,
+    },
+    extra,
+    options
+  ) => {
+    const limit = requestedLimit ?? options.limit;
+    const max_output_chars = requestedMaxOutputChars ?? options.max_output_chars;
+    const max_file_size = Math.min(requestedMaxFileSize ?? options.max_file_size, options.max_file_size);
+    const beforeContext = Math.min(before_context, options.max_context_lines);
+    const afterContext = Math.min(after_context, options.max_context_lines);
+
+    try {
+      const workingDir = getWorkingDirectory(extra.sessionId);
+      const searchDir = path ? resolveWorkspacePath(path, workingDir) : workingDir;
+
+      if (!statSync(searchDir).isDirectory()) {
+        return errorResult("ENOTDIR", `Specified path is not a directory: ${searchDir}`, { path: searchDir });
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(literal ? escapeRegExp(pattern) : pattern, case_sensitive ? "" : "i");
+      } catch (error) {
+        return errorResult(
+          "INVALID_ARGUMENT",
+          error instanceof Error ? error.message : "Invalid regular expression"
+        );
+      }
+
+      const excludePatterns = use_default_excludes
+        ? [...DEFAULT_EXCLUDES, ...exclude]
+        : [...exclude];
+      const files = (await findFiles(include, excludePatterns, searchDir)).sort();
+
+      // Only the matches on the requested page are kept, with their context; the others are only counted
+      const pageMatches: LineMatch[] = [];
+      let matchIndex = 0;
+      const fileCounts: Array<{ file: string; count: number }> = [];
+      let skippedBinary = 0;
+      let skippedLarge = 0;
+
+      for (const filePath of files) {
+        try {
+          if (!isWithinWorkspace(realpathSync(filePath))) {
+            continue;
+          }
+          if (statSync(filePath).size > max_file_size) {
+            skippedLarge++;
+            continue;
+          }
+
+          const buffer = readFileSync(filePath);
+          if (isBinaryContent(buffer)) {
+            skippedBinary++;
+            continue;
+          }
+
+          const displayPath = relative(searchDir, filePath);
+          const lines = buffer.toString("utf-8").split("\n");
+          let count = 0;
+
+          lines.forEach((line, i) => {
+            if (!regex.test(line)) {
+              return;
+            }
+            count++;
+            if (output_mode === "content" && matchIndex >= offset && matchIndex < offset + limit) {
+              const toContext = (lineIndex: number) => ({
+                lineNumber: lineIndex + 1,
+                text: lines[lineIndex],
+              });
+              pageMatches.push({
+                file: displayPath,
+                lineNumber: i + 1,
+                before: Array.from({ length: Math.min(beforeContext, i) }, (_, k) =>
+                  toContext(i - Math.min(beforeContext, i) + k)
+                ),
+                line,
+                after: Array.from(
+                  { length: Math.min(afterContext, lines.length - 1 - i) },
+                  (_, k) => toContext(i + 1 + k)
+                ),
+              });
+            }
+            matchIndex++;
+          });
+
+          if (count > 0) {
+            fileCounts.push({ file: displayPath, count });
+          }
+        } catch (_e) {
+          // Unreadable files are skipped, like grep -s
+        }
+      }
+
+      const totalMatches = fileCounts.reduce((sum, { count }) => sum + count, 0);
+      const totalResults =
+        output_mode === "content" ? totalMatches : fileCounts.length;
+
+      let entries: string[];
+      if (output_mode === "content") {
+        entries = renderMatches(pageMatches, 500);
+      } else if (output_mode === "files_with_matches") {
+        entries = fileCounts.slice(offset, offset + limit).map(({ file }) => file);
+      } else {
+        entries = fileCounts
+          .slice(offset, offset + limit)
+          .map(({ file, count }) => `${file}:${count}`);
+      }
+
+      // Stop at the character cap; remaining entries are reachable through the next page
+      let output = "";
+      let returned = 0;
+      for (const entry of entries) {
+        if (returned > 0 && output.length + entry.length + 1 > max_output_chars) {
+          break;
+        }
+        // A match can be empty when it was already printed as context of the previous one
+        if (entry) {
+          output += (output ? "\n" : "") + entry;
+        }
+        returned++;
+      }
+      if (output.length > max_output_chars) {
+        output = output.slice(0, max_output_chars);
+      }
+
+      const nextOffset = offset + returned;
+      const results =
+        output_mode === "content"
+          ? pageMatches
+              .slice(0, returned)
+              .map(({ file, lineNumber, line }) => ({ file, lineNumber, line }))
+          : fileCounts.slice(offset, nextOffset).map(({ file, count }) => ({ file, count }));
+      const summary = [
+        `Found ${totalMatches} matching line${totalMatches === 1 ? "" : "s"} in ${fileCounts.length} file${fileCounts.length === 1 ? "" : "s"} (searched ${files.length} files in ${searchDir}).`,
+        totalResults > 0
+          ? `Showing results ${Math.min(offset + 1, totalResults)}-${nextOffset} of ${totalResults}.`
+          : "",
+        skippedBinary > 0 ? `Skipped ${skippedBinary} binary files.` : "",
+        skippedLarge > 0
+          ? `Skipped ${skippedLarge} files larger than ${max_file_size} bytes.`
+          : "",
+        nextOffset < totalResults
+          ? `Action: To see more results, call 'search_file_content' again with offset: ${nextOffset}.`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: output ? `${summary}\n\n${output}` : summary,
+          },
+        ],
+        structuredContent: {
+          totalMatches,
+          totalResults,
+          nextOffset: nextOffset < totalResults ? nextOffset : undefined,
+          filesSearched: files.length,
+          skippedBinary,
+          skippedLarge,
+          results,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to search files");
+    }
+  }
+});
@@ -0,0 +1,360 @@
+import z from "zod";
+import { statSync } from "fs";
+import { enforceCommandPolicy } from "../utils/command-policy.js";
+import {
+  getShellSession,
+  listShellSessions,
+  OutputChunk,
+  removeShellSession,
+  ShellSession,
+  startShellSession,
+} from "../utils/shell-sessions.js";
+import { errorCodeOf, errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool, ToolExtra } from "../tool.js";
+
+const sessionStateSchema = {
+  sessionId: z.string(),
+  running: z.boolean(),
+  pid: z.number().optional(),
+  exitCode: z.number().nullable().describe("The shell's exit code once it has exited without a signal."),
+  signal: z.string().nullable().describe("The signal that terminated the shell, if any."),
+};
+
+const sessionOutputSchema = {
+  ...sessionStateSchema,
+  stdout: z.string().describe("Output written to stdout since the previous read."),
+  stderr: z.string().describe("Output written to stderr since the previous read."),
+  droppedChars: z.number().describe("Characters of unread output dropped because the buffer was full."),
+};
+
+function sessionState(shell: ShellSession) {
+  return {
+    sessionId: shell.id,
+    running: !shell.exited,
+    pid: shell.pid,
+    exitCode: shell.exitCode,
+    signal: shell.signal,
+  };
+}
+
+function unknownSessionResult(sessionId: string) {
+  return errorResult("NOT_FOUND", `Unknown shell session: ${sessionId}`, { sessionId });
+}
+
+function describeStatus(shell: ShellSession): string {
+  if (!shell.exited) {
+    return `running (pid ${shell.pid ?? "unknown"})`;
+  }
+  return shell.signal
+    ? `exited (signal ${shell.signal})`
+    : `exited (exit code ${shell.exitCode})`;
+}
+
+// Waits up to waitMs for new output, streaming each chunk to the client as logging and progress notifications
+async function collectOutput(
+  shell: ShellSession,
+  waitMs: number,
+  extra: ToolExtra
+) {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  const notify = (chunk: OutputChunk) => {
+    extra
+      .sendNotification({
+        method: "notifications/message",
+        params: {
+          level: chunk.stream === "stderr" ? "warning" : "info",
+          logger: shell.id,
+          data: chunk.text,
+        },
+      })
+      .catch(() => {});
+
+    if (progressToken !== undefined) {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: ++progress, message: chunk.text },
+        })
+        .catch(() => {});
+    }
+  };
+
+  if (waitMs > 0 && !shell.exited) {
+    await new Promise<void>((resolve) => {
+      const finish = () => {
+        clearTimeout(timeoutId);
+        extra.signal.removeEventListener("abort", finish);
+        shell.off("output", notify);
+        shell.off("exit", finish);
+        resolve();
+      };
+      const timeoutId = setTimeout(finish, waitMs);
+      extra.signal.addEventListener("abort", finish);
+      shell.on("output", notify);
+      shell.on("exit", finish);
+    });
+  }
+
+  const chunks = shell.read();
+  const stdout = chunks.filter((c) => c.stream === "stdout").map((c) => c.text).join("");
+  const stderr = chunks.filter((c) => c.stream === "stderr").map((c) => c.text).join("");
+
+  const text = [
+    `Session: ${shell.id}`,
+    `Status: ${describeStatus(shell)}`,
+    shell.droppedChars > 0
+      ? `Warning: ${shell.droppedChars} characters of older output were dropped because they were not read in time.`
+      : "",
+    `Stdout: ${stdout || "(no new output)"}`,
+    `Stderr: ${stderr || "(no new output)"}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return { text, output: { ...sessionState(shell), stdout, stderr, droppedChars: shell.droppedChars } };
+}
+
+const waitMsSchema = z
+  .number()
+  .min(0)
+  .max(60000)
+  .optional()
+  .describe(
+    "Optional: How long to wait for output before returning, in milliseconds. Output produced while waiting is streamed as notifications. Default is 1000ms."
+  );
+
+const shellSessionStartTool = defineTool({
+  name: "shell_session_start",
+  description: "Starts a persistent background shell session (bash on Unix, cmd.exe on Windows) that keeps its working directory and environment between commands. Use it for long-running processes such as dev servers or watchers. Returns a session ID for use with 'shell_session_write', 'shell_session_read' and 'shell_session_kill'. Sessions are closed when the MCP session ends.",
+  schema: {
+    command: z
+      .string()
+      .optional()
+      .describe("Optional: A command to run in the new session right away."),
+    description: z
+      .string()
+      .optional()
+      .describe("Optional brief description of what the session is for."),
+    directory: z
+      .string()
+      .optional()
+      .describe(
+        "Optional working directory for the session, absolute or relative to the MCP session's working directory. Must be inside one of the server's workspace roots. If not provided, uses the MCP session's working directory."
+      ),
+    wait_ms: waitMsSchema,
+  },
+  outputSchema: {
+    ...sessionOutputSchema,
+    directory: z.string().describe("The session's working directory."),
+  },
+  handler: async ({ command, description, directory, wait_ms = 1000 }, extra) => {
+    try {
+      const sessionDir = getWorkingDirectory(extra.sessionId);
+      const workingDir = directory ? resolveWorkspacePath(directory, sessionDir) : sessionDir;
+
+      try {
+        if (!statSync(workingDir).isDirectory()) {
+          return errorResult("ENOTDIR", `Specified directory is not a directory: ${workingDir}`, {
+            path: workingDir,
+          });
+        }
+      } catch (error) {
+        return errorResult(
+          errorCodeOf(error) === "EACCES" ? "EACCES" : "ENOENT",
+          `Directory does not exist or is not accessible: ${workingDir}`,
+          { path: workingDir }
+        );
+      }
+
+      if (command) {
+        const rejection = await enforceCommandPolicy(command, workingDir, extra);
+        if (rejection) {
+          return rejection;
+        }
+      }
+
+      const shell = startShellSession(extra.sessionId, workingDir, description);
+      if (command) {
+        shell.write(`${command}\n`);
+      }
+
+      const { text, output } = await collectOutput(shell, wait_ms, extra);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Started shell session in ${workingDir}\n${text}`,
+          },
+        ],
+        structuredContent: { ...output, directory: workingDir },
+      };
+    } catch (error) {
+      return exceptionResult(error);
+    }
+  },
+});
+
+const shellSessionWriteTool = defineTool({
+  name: "shell_session_write",
+  description: "Writes input to the stdin of a running shell session, e.g. a command to run or input for an interactive program, and returns the output produced within 'wait_ms'. Only complete lines are sent: input without a trailing newline is held back until a later write completes the line, and the whole line is then checked against the command policy.",
+  schema: {
+    session_id: z.string().describe("The shell session ID returned by 'shell_session_start'."),
+    input: z.string().describe("The text to write to stdin."),
+    append_newline: z
+      .boolean()
+      .optional()
+      .describe("Optional: Whether to append a newline to the input. Defaults to true."),
+    wait_ms: waitMsSchema,
+  },
+  outputSchema: {
+    ...sessionOutputSchema,
+    bufferedInput: z.string().describe("Input held back until a newline completes its line."),
+  },
+  handler: async ({ session_id, input, append_newline = true, wait_ms = 1000 }, extra) => {
+    const shell = getShellSession(extra.sessionId, session_id);
+    if (!shell) {
+      return unknownSessionResult(session_id);
+    }
+
+    // Input to the shell is a command line, so it goes through the same policy as run_shell_command. Only
+    // complete lines are checked and sent, so a command cannot be slipped past a rule in pieces.
+    const buffered = `${shell.pendingInput}${input}${append_newline ? "\n" : ""}`;
+    const lineEnd = buffered.lastIndexOf("\n") + 1;
+    const lines = buffered.slice(0, lineEnd);
+    if (lines) {
+      const rejection = await enforceCommandPolicy(lines, shell.currentDirectory, extra);
+      if (rejection) {
+        shell.pendingInput = "";
+        return rejection;
+      }
+    }
+
+    try {
+      if (lines) {
+        shell.write(lines);
+      }
+      shell.pendingInput = buffered.slice(lineEnd);
+      const { text, output } = await collectOutput(shell, wait_ms, extra);
+      return {
+        content: [
+          {
+            type: "text",
+            text: shell.pendingInput ? `Buffered until a newline: ${shell.pendingInput}\n${text}` : text,
+          },
+        ],
+        structuredContent: { ...output, bufferedInput: shell.pendingInput },
+      };
+    } catch (error) {
+      return exceptionResult(error);
+    }
+  },
+});
+
+const shellSessionReadTool = defineTool({
+  name: "shell_session_read",
+  description: "Returns the stdout and stderr a shell session produced since the last read, optionally waiting for new output first.",
+  schema: {
+    session_id: z.string().describe("The shell session ID returned by 'shell_session_start'."),
+    wait_ms: waitMsSchema,
+  },
+  outputSchema: sessionOutputSchema,
+  handler: async ({ session_id, wait_ms = 1000 }, extra) => {
+    const shell = getShellSession(extra.sessionId, session_id);
+    if (!shell) {
+      return unknownSessionResult(session_id);
+    }
+
+    const { text, output } = await collectOutput(shell, wait_ms, extra);
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: output,
+    };
+  },
+});
+
+const shellSessionKillTool = defineTool({
+  name: "shell_session_kill",
+  description: "Terminates a shell session and every process it started, returning any output that was not read yet.",
+  schema: {
+    session_id: z.string().describe("The shell session ID returned by 'shell_session_start'."),
+    signal: z
+      .enum(["SIGTERM", "SIGINT", "SIGKILL", "SIGHUP"])
+      .optional()
+      .describe("Optional: The signal to send. Defaults to SIGTERM."),
+  },
+  outputSchema: sessionOutputSchema,
+  handler: async ({ session_id, signal = "SIGTERM" }, extra) => {
+    const shell = getShellSession(extra.sessionId, session_id);
+    if (!shell) {
+      return unknownSessionResult(session_id);
+    }
+
+    shell.kill(signal);
+    const { text, output } = await collectOutput(shell, 2000, extra);
+    if (!shell.exited) {
+      shell.kill("SIGKILL");
+    }
+    removeShellSession(extra.sessionId, session_id);
+
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: output,
+    };
+  },
+});
+
+const shellSessionListTool = defineTool({
+  name: "shell_session_list",
+  description: "Lists the shell sessions of the current MCP session with their status.",
+  schema: {},
+  outputSchema: {
+    sessions: z.array(
+      z.object({
+        ...sessionStateSchema,
+        directory: z.string(),
+        startedAt: z.string(),
+        description: z.string().optional(),
+      })
+    ),
+  },
+  handler: async (_args, extra) => {
+    const shells = listShellSessions(extra.sessionId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            shells.length > 0
+              ? shells
+                  .map((shell) =>
+                    [
+                      `- ${shell.id}: ${describeStatus(shell)}`,
+                      `  Directory: ${shell.currentDirectory}`,
+                      `  Started: ${shell.startedAt.toISOString()}`,
+                      shell.description ? `  Description: ${shell.description}` : "",
+                    ]
+                      .filter(Boolean)
+                      .join("\n")
+                  )
+                  .join("\n")
+              : "No shell sessions.",
+        },
+      ],
+      structuredContent: {
+        sessions: shells.map((shell) => ({
+          ...sessionState(shell),
+          directory: shell.currentDirectory,
+          startedAt: shell.startedAt.toISOString(),
+          description: shell.description,
+        })),
+      },
+    };
+  },
+});
+
+export default [shellSessionStartTool, shellSessionWriteTool, shellSessionReadTool, shellSessionKillTool, shellSessionListTool];
@@ -1,13 +1,18 @@
 import z from "zod";
-import { server } from "../index.js";
 import { spawn } from "child_process";
 import { platform } from "os";
 import path from "path";
-
-server.tool(
-  "run_shell_command",
-  "Executes a shell command and returns the output. On Windows, commands are executed via cmd.exe. On Unix-like systems, commands are executed via bash. The tool returns stdout, stderr, exit code, and execution details.",
-  {
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { enforceCommandPolicy } from "../utils/command-policy.js";
+import { errorCodeOf, errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+export default defineTool({
+  name: "run_shell_command",
+  description: "Executes a shell command and returns the output. On Windows, commands are executed via cmd.exe. On Unix-like systems, commands are executed via bash. The tool returns stdout, stderr, exit code, and execution details. Every program in the command (including pipelines, chains and subshells) is checked against the server's command policy; denied commands are rejected and some may require user approval.",
+  schema: {
     command: z
       .string()
       .describe(
@@ -23,61 +28,68 @@ server.tool(
       .string()
       .optional()
       .describe(
-        "Optional working directory to execute the command in. Must be an absolute path. If not provided, uses the current working directory."
+        "Optional working directory to execute the command in, absolute or relative to the session's working directory. Must be inside one of the server's workspace roots. If not provided, uses the session's working directory (see 'set_working_directory')."
       ),
     timeout: z
       .number()
       .optional()
       .describe(
-        "Optional timeout in milliseconds. Command will be terminated if it exceeds this duration. Default is 30000ms (30 seconds)."
+        "Optional timeout in milliseconds. Command will be terminated if it exceeds this duration. Defaults to the server's configured timeout (30000ms unless changed)."
       ),
   },
-  async ({ command, description, directory, timeout = 30000 }) => {
+  outputSchema: {
+    command: z.string(),
+    directory: z.string().describe("The directory the command ran in."),
+    exitCode: z.number().nullable().describe("The exit code, or null when the process was terminated by a signal."),
+    signal: z.string().nullable().describe("The signal that terminated the process, if any."),
+    stdout: z.string(),
+    stderr: z.string(),
+    timedOut: z.boolean(),
+    durationMs: z.number(),
+  },
+  defaults: {
+    timeout: 30000,
+  },
+  handler: async ({ command, description, directory, timeout: requestedTimeout }, extra, options) => {
+    const timeout = requestedTimeout ?? options.timeout;
     try {
       if (!command.trim()) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Error: Command cannot be empty.",
-            },
-          ],
-        };
+        return errorResult("INVALID_ARGUMENT", "Command cannot be empty.");
       }
 
       const isWindows = platform() === "win32";
-      const workingDir = directory || process.cwd();
+      const sessionDir = getWorkingDirectory(extra.sessionId);
+      const workingDir = directory ? resolveWorkspacePath(directory, sessionDir) : sessionDir;
 
       // Validate directory exists
       try {
         const fs = await import("fs");
         const stats = fs.statSync(workingDir);
         if (!stats.isDirectory()) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Specified directory is not a directory: ${workingDir}`,
-              },
-            ],
-          };
+          return errorResult("ENOTDIR", `Specified directory is not a directory: ${workingDir}`, {
+            path: workingDir,
+          });
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: Directory does not exist or is not accessible: ${workingDir}`,
-            },
-          ],
-        };
+        return errorResult(
+          errorCodeOf(error) === "EACCES" ? "EACCES" : "ENOENT",
+          `Directory does not exist or is not accessible: ${workingDir}`,
+          { path: workingDir }
+        );
+      }
+
+      // Check the command against the configured allow/deny rules
+      const rejection = await enforceCommandPolicy(command, workingDir, extra);
+      if (rejection) {
+        return rejection;
       }
 
       // Setup command execution based on platform
       const shellCommand = isWindows ? "cmd.exe" : "bash";
       const shellArgs = isWindows ? ["/c", command] : ["-c", command];
 
-      return new Promise((resolve) => {
+      return new Promise<CallToolResult>((resolve) => {
+        const startedAt = Date.now();
         let stdout = "";
         let stderr = "";
         let isTimedOut = false;
@@ -141,6 +153,18 @@ server.tool(
             .filter(Boolean)
             .join("\n");
 
+          const result = {
+            command,
+            directory: workingDir,
+            exitCode,
+            signal,
+            stdout,
+            stderr,
+            timedOut: isTimedOut,
+            durationMs: Date.now() - startedAt,
+          };
+
+          // A non-zero exit code is a normal result; only a timeout is a failure of the call itself
           resolve({
             content: [
               {
@@ -148,33 +172,21 @@ server.tool(
                 text: resultText,
               },
             ],
+            structuredContent: isTimedOut
+              ? { ...result, error: { code: "TIMEOUT", message: `Command timed out after ${timeout}ms` } }
+              : result,
+            isError: isTimedOut,
           });
         });
 
         // Handle spawn errors
         child.on("error", (error) => {
           clearTimeout(timeoutId);
-          resolve({
-            content: [
-              {
-                type: "text",
-                text: `Error executing command: ${error.message}\nCommand: ${command}\nDirectory: ${workingDir}`,
-              },
-            ],
-          });
+          resolve(exceptionResult(error, `Failed to execute command in ${workingDir}`));
         });
       });
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${
-              error instanceof Error ? error.message : "Unknown error occurred"
-            }`,
-          },
-        ],
-      };
+      return exceptionResult(error);
     }
   }
-);
+});
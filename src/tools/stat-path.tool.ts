@@ -0,0 +1,150 @@
+import z from "zod";
+import { lstatSync, readFileSync, readlinkSync, realpathSync, statSync } from "fs";
+import { EntryType, entryTypeOf } from "../utils/file-operations.js";
+import { detectFileType, readFileHead, SNIFF_BYTES } from "../utils/file-content.js";
+import { detectTextFormat } from "../utils/text-encoding.js";
+import { exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { isWithinWorkspace, resolveWorkspaceEntry } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
+
+// Maps IDs to names from /etc/passwd or /etc/group; unavailable on Windows and for IDs from other systems
+function lookupName(file: string, id: number): string | undefined {
+  try {
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      const [name, , entryId] = line.split(":");
+      if (entryId !== undefined && Number(entryId) === id) {
+        return name;
+      }
+    }
+  } catch (_e) {
+    // No such database on this platform
+  }
+  return undefined;
+}
+
+// e.g. "rwxr-xr-x", with setuid, setgid and sticky bits shown like ls does
+function formatPermissions(mode: number): string {
+  const triplet = (bits: number, special: boolean, specialChar: string) =>
+    `${bits & 4 ? "r" : "-"}${bits & 2 ? "w" : "-"}${
+      special ? (bits & 1 ? specialChar : specialChar.toUpperCase()) : bits & 1 ? "x" : "-"
+    }`;
+  return (
+    triplet((mode >> 6) & 7, (mode & 0o4000) !== 0, "s") +
+    triplet((mode >> 3) & 7, (mode & 0o2000) !== 0, "s") +
+    triplet(mode & 7, (mode & 0o1000) !== 0, "t")
+  );
+}
+
+// Register stat_path tool
+export default defineTool({
+  name: "stat_path",
+  description: "Returns metadata for a file, directory or symlink: type, size, permissions, owner, timestamps and, for symlinks, the link target. For files the content type is detected (text with its encoding, image, PDF or binary).",
+  schema: {
+    path: z.string().describe("The absolute path to inspect. Must be inside one of the server's workspace roots."),
+  },
+  outputSchema: {
+    path: z.string().describe("The absolute path; a symlink at the path itself is not resolved."),
+    type: z.enum(["file", "directory", "symlink", "other"]),
+    size: z.number().describe("Size in bytes (of the link itself for symlinks)."),
+    mode: z.string().describe("Permission bits in octal, e.g. '0644'."),
+    permissions: z.string().describe("Permission bits as shown by ls, e.g. 'rw-r--r--'."),
+    uid: z.number(),
+    gid: z.number(),
+    owner: z.string().optional(),
+    group: z.string().optional(),
+    mtime: z.string(),
+    atime: z.string(),
+    ctime: z.string(),
+    birthtime: z.string().optional().describe("Creation time, where the filesystem records it."),
+    symlinkTarget: z.string().optional().describe("The target as stored in the link."),
+    resolvedPath: z.string().optional().describe("Symlinks: the fully resolved target, if it exists."),
+    targetType: z.enum(["file", "directory", "symlink", "other"]).optional().describe("Symlinks: the type of the resolved target."),
+    contentKind: z.enum(["text", "image", "pdf", "binary"]).optional().describe("Files: the type detected from the content."),
+    mimeType: z.string().optional(),
+    encoding: z.string().optional().describe("Text files: the detected encoding."),
+  },
+  handler: async ({ path }, extra) => {
+    try {
+      // A symlink is described rather than followed
+      const entryPath = resolveWorkspaceEntry(path, getWorkingDirectory(extra.sessionId));
+      const stats = lstatSync(entryPath);
+      const type = entryTypeOf(stats);
+
+      let symlinkTarget: string | undefined;
+      let resolvedPath: string | undefined;
+      let targetType: EntryType | undefined;
+      let contentPath: string | undefined = type === "file" ? entryPath : undefined;
+      if (type === "symlink") {
+        symlinkTarget = readlinkSync(entryPath);
+        try {
+          resolvedPath = realpathSync(entryPath);
+          targetType = entryTypeOf(statSync(resolvedPath));
+          contentPath = targetType === "file" ? resolvedPath : undefined;
+        } catch (_e) {
+          // Dangling link
+        }
+        // Targets outside the workspace are named but not read
+        contentPath = contentPath && isWithinWorkspace(contentPath) ? contentPath : undefined;
+      }
+
+      let contentKind: string | undefined;
+      let mimeType: string | undefined;
+      let encoding: string | undefined;
+      if (contentPath) {
+        const head = readFileHead(contentPath);
+        const fileType = detectFileType(head);
+        contentKind = fileType.kind;
+        mimeType = fileType.mimeType;
+        encoding = fileType.kind === "text" ? detectTextFormat(head, head.length < SNIFF_BYTES).encoding : undefined;
+      }
+
+      const mode = stats.mode & 0o7777;
+      const owner = lookupName("/etc/passwd", stats.uid);
+      const group = lookupName("/etc/group", stats.gid);
+      const birthtime = stats.birthtimeMs > 0 ? stats.birthtime.toISOString() : undefined;
+
+      const lines = [
+        `Path: ${entryPath}`,
+        `Type: ${type}${symlinkTarget !== undefined ? ` -> ${symlinkTarget}${targetType ? ` (${targetType})` : " (dangling)"}` : ""}`,
+        `Size: ${stats.size} bytes`,
+        `Mode: ${mode.toString(8).padStart(4, "0")} (${formatPermissions(mode)})`,
+        `Owner: ${owner ?? stats.uid}:${group ?? stats.gid}`,
+        `Modified: ${stats.mtime.toISOString()}`,
+        `Accessed: ${stats.atime.toISOString()}`,
+        `Changed: ${stats.ctime.toISOString()}`,
+        birthtime ? `Created: ${birthtime}` : undefined,
+        contentKind
+          ? `Content: ${contentKind}${mimeType ? ` (${mimeType})` : ""}${encoding ? `, ${encoding}` : ""}`
+          : undefined,
+      ].filter((line) => line !== undefined);
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          path: entryPath,
+          type,
+          size: stats.size,
+          mode: mode.toString(8).padStart(4, "0"),
+          permissions: formatPermissions(mode),
+          uid: stats.uid,
+          gid: stats.gid,
+          owner,
+          group,
+          mtime: stats.mtime.toISOString(),
+          atime: stats.atime.toISOString(),
+          ctime: stats.ctime.toISOString(),
+          birthtime,
+          symlinkTarget,
+          resolvedPath,
+          targetType,
+          contentKind,
+          mimeType,
+          encoding,
+        },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to stat path");
+    }
+  },
+});
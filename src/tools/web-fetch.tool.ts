@@ -1,133 +1,448 @@
 import z from "zod";
-import { server } from "../index.js";
-import { convert } from "html-to-text";
-import { URL } from "url"; // Explicitly import URL from 'node:url'
-
-const PRIVATE_IP_RANGES = [
-  /^10\./,
-  /^127\./,
-  /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-  /^192\.168\./,
-  /^::1$/,
-  /^fc00:/,
-  /^fe80:/,
-];
-
-class FetchError extends Error {
-  constructor(message: string, public code?: string) {
-    super(message);
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getConfig } from "../config.js";
+import { documentTitle, extractMainContent, htmlToMarkdown, htmlToText, parseHtml, selectContent } from "../utils/html-content.js";
+import { decodeBody, httpRequest, HttpResponse, isJsonType, mediaTypeOf } from "../utils/http-client.js";
+import { assertAllowedByRobots } from "../utils/robots.js";
+import { ErrorCode, errorCodeOf, errorResult, exceptionResult, ToolError } from "../utils/tool-result.js";
+import {
+  CachedPage,
+  cacheKey,
+  conditionalHeaders,
+  freshUntil,
+  isStorable,
+  readCachedPage,
+  writeCachedPage,
+} from "../utils/web-cache.js";
+import { defineTool } from "../tool.js";
+
+class FetchError extends ToolError {
+  constructor(message: string, code: ErrorCode, details: Record<string, unknown> = {}) {
+    super(message, code, details);
     this.name = "FetchError";
   }
 }
 
-interface NodeJSError extends Error {
-  code?: string;
+const FORMATS = ["markdown", "text", "raw", "json"] as const;
+
+type Format = (typeof FORMATS)[number];
+
+interface ExtractOptions {
+  format?: Format;
+  selector?: string;
+  mainContent?: boolean;
+}
+
+/**
+ * Converts a response to the requested format, or by default to Markdown for HTML, pretty-printed JSON for JSON
+ * and the text as it is for anything else. HTML is narrowed to `selector` or, unless `mainContent` is false, to
+ * the main content of the page.
+ */
+function extractContent(response: HttpResponse, options: ExtractOptions): { text: string; format: Format; title?: string } {
+  const body = decodeBody(response);
+  const mediaType = mediaTypeOf(response.headers.get("content-type"));
+  const isHtml =
+    mediaType === "text/html" ||
+    mediaType === "application/xhtml+xml" ||
+    (mediaType === "" && /^\s*<(?:!doctype html|html)[\s>]/i.test(body));
+  const format = options.format ?? (isHtml ? "markdown" : isJsonType(mediaType) ? "json" : "raw");
+
+  if ((options.selector !== undefined || options.mainContent) && !isHtml) {
+    throw new FetchError(
+      `'selector' and 'main_content' only apply to HTML, but the response is ${mediaType || "of unknown type"}.`,
+      "INVALID_ARGUMENT",
+      { url: response.url, contentType: mediaType }
+    );
+  }
+
+  if (format === "raw") {
+    return { text: body, format };
+  }
+  if (format === "json") {
+    try {
+      return { text: JSON.stringify(JSON.parse(body), null, 2), format };
+    } catch (error) {
+      throw new FetchError(`Response is not valid JSON: ${(error as Error).message}`, "INVALID_CONTENT", {
+        url: response.url,
+        contentType: mediaType,
+      });
+    }
+  }
+  if (!isHtml) {
+    return { text: body, format };
+  }
+
+  const document = parseHtml(body);
+  const title = documentTitle(document);
+  const nodes =
+    options.selector !== undefined
+      ? selectContent(document, options.selector)
+      : options.mainContent === false
+        ? document.children
+        : [extractMainContent(document)];
+  if (options.selector !== undefined && nodes.length === 0) {
+    throw new FetchError(`No elements match the selector '${options.selector}'.`, "NO_MATCH", {
+      url: response.url,
+      selector: options.selector,
+    });
+  }
+  return { text: format === "markdown" ? htmlToMarkdown(nodes, response.url) : htmlToText(nodes), format, title };
 }
 
-function isNodeError(error: unknown): error is NodeJSError {
-  return error instanceof Error && "code" in error;
+const CACHE_STATUSES = ["hit", "revalidated", "miss"] as const;
+
+type CacheStatus = (typeof CACHE_STATUSES)[number];
+
+interface FetchPageOptions extends ExtractOptions {
+  timeout: number;
+  maxRedirects: number;
+  maxBytes: number;
+  // Use a cached copy even when it is stale, so the pages of one document stay consistent
+  preferCached: boolean;
+  refresh: boolean;
 }
 
-function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+/**
+ * Returns the converted page from the cache while it is fresh, and otherwise fetches it, asking the server
+ * to answer 304 Not Modified when a cached copy's ETag or Last-Modified still matches.
+ */
+async function fetchPage(url: string, options: FetchPageOptions): Promise<{ page: CachedPage; cache: CacheStatus }> {
+  const key = cacheKey({ url, format: options.format, selector: options.selector, mainContent: options.mainContent });
+  const cached = options.refresh ? undefined : readCachedPage(key);
+  if (cached && (options.preferCached || cached.freshUntil > Date.now())) {
+    return { page: cached, cache: "hit" };
   }
-  return String(error);
+
+  // Every hop is resolved and checked against the private address ranges before connecting
+  const response = await httpRequest(url, {
+    headers: cached ? conditionalHeaders(cached) : {},
+    timeout: options.timeout,
+    maxRedirects: options.maxRedirects,
+    maxBytes: options.maxBytes,
+    beforeRequest: getConfig().network.respectRobotsTxt
+      ? (target) => assertAllowedByRobots(target, options.timeout)
+      : undefined,
+  });
+  const now = Date.now();
+  if (cached && response.status === 304) {
+    const page = {
+      ...cached,
+      etag: response.headers.get("etag") ?? cached.etag,
+      lastModified: response.headers.get("last-modified") ?? cached.lastModified,
+      storedAt: now,
+      freshUntil: freshUntil(response.headers, now),
+    };
+    writeCachedPage(key, page);
+    return { page, cache: "revalidated" };
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new FetchError(
+      `Request failed with status code ${response.status} ${response.statusText}`,
+      "HTTP_ERROR",
+      { url: response.url, status: response.status }
+    );
+  }
+
+  if (response.truncated) {
+    throw new FetchError(`Response is larger than ${options.maxBytes} bytes`, "RESPONSE_TOO_LARGE", {
+      url: response.url,
+      maxBytes: options.maxBytes,
+    });
+  }
+
+  const { text, format, title } = extractContent(response, options);
+  const page: CachedPage = {
+    finalUrl: response.url,
+    redirects: response.redirects,
+    status: response.status,
+    contentType: response.headers.get("content-type") ?? undefined,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    storedAt: now,
+    freshUntil: freshUntil(response.headers, now),
+    format,
+    title,
+    text,
+  };
+  if (isStorable(response.status, response.headers)) {
+    writeCachedPage(key, page);
+  }
+  return { page, cache: "miss" };
+}
+
+// Every URL in a prompt, without the punctuation of the sentence around it
+function findUrls(prompt: string): string[] {
+  const urls = (prompt.match(/https?:\/\/[^\s<>"]+/g) ?? []).map((url) => {
+    const trimmed = url.replace(/[.,;:!?'"]+$/, "");
+    return trimmed.endsWith(")") && !trimmed.includes("(") ? trimmed.slice(0, -1) : trimmed;
+  });
+  return [...new Set(urls)];
 }
 
-function isPrivateIp(url: string): boolean {
-  try {
-    const hostname = new URL(url).hostname;
-    return PRIVATE_IP_RANGES.some((range) => range.test(hostname));
-  } catch (_e) {
-    return false;
+// Convert GitHub blob URL to raw URL
+function toFetchUrl(url: string): string {
+  if (url.includes("github.com") && url.includes("/blob/")) {
+    return url.replace("github.com", "raw.githubusercontent.com").replace("/blob/", "/");
   }
+  return url;
 }
 
-async function fetchWithTimeout(
-  url: string,
-  timeout: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, { signal: controller.signal });
-    return response;
-  } catch (error) {
-    if (isNodeError(error) && error.code === "ABORT_ERR") {
-      throw new FetchError(`Request timed out after ${timeout}ms`, "ETIMEDOUT");
+// Runs `task` for every item with at most `limit` running at once, keeping the results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
     }
-    throw new FetchError(getErrorMessage(error));
-  } finally {
-    clearTimeout(timeoutId);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Splits a character budget across texts of the given lengths: each gets an equal share, and what a short
+ * text does not need goes to the longer ones.
+ */
+function fairShares(lengths: number[], budget: number): number[] {
+  const shares = new Array<number>(lengths.length).fill(0);
+  const order = lengths.map((_length, index) => index).sort((a, b) => lengths[a] - lengths[b]);
+  let remaining = budget;
+  order.forEach((index, position) => {
+    const share = Math.min(lengths[index], Math.floor(remaining / (order.length - position)));
+    shares[index] = share;
+    remaining -= share;
+  });
+  return shares;
+}
+
+const sourceSchema = z.object({
+  url: z.string(),
+  finalUrl: z.string().optional(),
+  status: z.number().optional(),
+  contentType: z.string().optional(),
+  format: z.enum(FORMATS).optional(),
+  title: z.string().optional(),
+  cache: z.enum(CACHE_STATUSES).optional(),
+  fetchedAt: z.string().optional(),
+  startChar: z.number().optional(),
+  endChar: z.number().optional(),
+  totalChars: z.number().optional(),
+  truncated: z.boolean().optional(),
+  nextOffset: z.number().optional(),
+  error: z.object({ code: z.string(), message: z.string() }).optional().describe("Why this URL could not be fetched."),
+});
+
+type Source = z.infer<typeof sourceSchema>;
+
+type SourceResult =
+  | { url: string; page: CachedPage; cache: CacheStatus }
+  | { url: string; error: { code: ErrorCode; message: string } };
+
+/**
+ * Fetches several pages, at most `concurrency` at a time, and returns one section per source. Every source is
+ * read from `start`, `budget` characters are split fairly between them, and a URL that fails is reported in its
+ * own section; only when all fail is the call an error.
+ */
+async function fetchSources(
+  urls: string[],
+  options: FetchPageOptions,
+  start: number,
+  budget: number,
+  concurrency: number
+): Promise<CallToolResult> {
+  const results = await mapWithConcurrency(urls, concurrency, async (url): Promise<SourceResult> => {
+    try {
+      return { url, ...(await fetchPage(url, options)) };
+    } catch (error) {
+      return { url, error: { code: errorCodeOf(error), message: error instanceof Error ? error.message : String(error) } };
+    }
+  });
+  const failures = results.filter((result) => "error" in result);
+  if (failures.length === results.length && "error" in results[0]) {
+    return errorResult(results[0].error.code, `None of the ${urls.length} URLs could be fetched`, { sources: results });
   }
+
+  const shares = fairShares(
+    results.map((result) => ("page" in result ? Math.max(0, result.page.text.length - start) : 0)),
+    budget
+  );
+  const sources: Source[] = [];
+  const content: CallToolResult["content"] = [];
+  results.forEach((result, index) => {
+    const heading = `--- SOURCE ${index + 1}/${results.length}: ${result.url} ---`;
+    if ("error" in result) {
+      sources.push({ url: result.url, error: result.error });
+      content.push({ type: "text", text: `${heading}\nError: ${result.error.message}\nCode: ${result.error.code}` });
+      return;
+    }
+
+    const { page, cache } = result;
+    const totalChars = page.text.length;
+    const startChar = Math.min(start, totalChars);
+    const endChar = startChar + shares[index];
+    const truncated = endChar < totalChars;
+    sources.push({
+      url: result.url,
+      finalUrl: page.finalUrl,
+      status: page.status,
+      contentType: page.contentType,
+      format: page.format as Format,
+      title: page.title,
+      cache,
+      fetchedAt: new Date(page.storedAt).toISOString(),
+      startChar: startChar + 1,
+      endChar,
+      totalChars,
+      truncated,
+      nextOffset: truncated ? endChar : undefined,
+    });
+    content.push({
+      type: "text",
+      text: [
+        heading,
+        `Source: ${page.finalUrl}${cache === "hit" ? ` (cached ${new Date(page.storedAt).toISOString()})` : ""}`,
+        ...(page.title ? [`Title: ${page.title}`] : []),
+        ...(truncated
+          ? [
+              `IMPORTANT: Showing characters ${startChar + 1}-${endChar} of ${totalChars}. To read more, fetch this URL alone with offset: ${endChar}.`,
+            ]
+          : []),
+        "",
+        page.text.slice(startChar, endChar),
+      ].join("\n"),
+    });
+  });
+
+  return { content, structuredContent: { sources } };
 }
 
 // Register web_fetch tool
-server.tool(
-  "web_fetch",
-  "Fetches and processes content from a specified URL included in the prompt. Supports up to one URL for fetching. If the content is large, it will be truncated, with details on how to read more using 'offset' and 'limit' parameters. Handles HTTP/HTTPS URLs, including GitHub blob URLs (automatically converted to raw URLs).",
-  {
+export default defineTool({
+  name: "web_fetch",
+  description: "Fetches and processes content from the URLs in 'urls' or in the prompt. HTML pages are returned as Markdown with absolute links, reduced to their main content unless a CSS 'selector' picks the part to read; JSON is pretty-printed. Several URLs (up to the server's limit, 10 unless changed) are fetched concurrently and returned as one section per source, with failures reported per URL; the character budget is split fairly between them. If the content is large, it will be truncated, with details on how to read more using 'offset' and 'limit' parameters. Handles HTTP/HTTPS URLs, including GitHub blob URLs (automatically converted to raw URLs). Pages are cached, so reading further with 'offset' does not download them again. Hosts that resolve to private, loopback or reserved addresses are refused, after every redirect too, unless the server allowlists them.",
+  schema: {
     prompt: z
       .string()
+      .optional()
+      .describe(
+        "A prompt containing the URLs (http:// or https://) to fetch and optional instructions for processing (e.g., 'Summarize https://example.com/article'). Every URL in it is fetched unless 'urls' is given. Relative URLs are not supported."
+      ),
+    urls: z
+      .array(z.string())
+      .optional()
       .describe(
-        "A prompt containing exactly one URL (http:// or https://) to fetch and optional instructions for processing (e.g., 'Summarize https://example.com/article'). Relative URLs or multiple URLs are not supported."
+        "Optional: The URLs to fetch, instead of the ones in 'prompt'. Several URLs are fetched concurrently."
       ),
     offset: z
       .number()
       .optional()
       .describe(
-        "Optional: The 0-based character index to start reading from the fetched content. Requires 'limit' to be set. Use for paginating through large content."
+        "Optional: The 0-based character index to start reading from the fetched content. Requires 'limit' to be set. Use for paginating through large content. With several URLs it applies to each of them; to read further in one source, fetch its URL alone with that source's 'nextOffset'."
       ),
     limit: z
       .number()
       .optional()
       .describe(
-        "Optional: Maximum number of characters to return from the fetched content. Use with 'offset' to paginate through large content. If omitted, returns the entire content (up to a default limit)."
+        "Optional: Maximum number of characters to return from the fetched content. Use with 'offset' to paginate through large content. If omitted, returns the entire content (up to a default limit). With several URLs, this budget is split fairly between them."
+      ),
+    format: z
+      .enum(FORMATS)
+      .optional()
+      .describe(
+        "Optional: 'markdown' keeps headings, code blocks, tables and absolute links; 'text' is plain text without links; 'raw' returns the body as received; 'json' pretty-prints a JSON body. Defaults to markdown for HTML, json for JSON and raw for anything else."
       ),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "Optional: A CSS selector (e.g. 'article', '#content', 'div.docs > section') limiting an HTML page to the matching elements. Supports type, class, ID and attribute selectors and combinators, not pseudo-classes."
+      ),
+    main_content: z
+      .boolean()
+      .optional()
+      .describe(
+        "Optional: Reduce an HTML page to its main content, dropping navigation, sidebars, footers and other boilerplate. Defaults to true unless 'selector' is given."
+      ),
+    refresh: z
+      .boolean()
+      .optional()
+      .describe("Optional: Download the page again even if a fresh copy is cached. Defaults to false."),
   },
-  async ({ prompt, offset, limit }) => {
+  outputSchema: {
+    url: z.string().optional().describe("The URL that was fetched, after GitHub blob URLs are rewritten."),
+    finalUrl: z.string().optional().describe("The URL the content came from, after redirects."),
+    redirects: z.array(z.string()).optional().describe("URLs redirected to, in order."),
+    status: z.number().optional(),
+    contentType: z.string().optional(),
+    format: z.enum(FORMATS).optional().describe("The format the content was converted to."),
+    title: z.string().optional().describe("The title of an HTML page."),
+    cache: z
+      .enum(CACHE_STATUSES)
+      .optional()
+      .describe("'hit' when served from the cache, 'revalidated' when the server confirmed the cached copy, 'miss' when downloaded."),
+    fetchedAt: z.string().optional().describe("When the content was downloaded or last confirmed current."),
+    startChar: z.number().optional().describe("1-based index of the first character returned."),
+    endChar: z.number().optional().describe("1-based index of the last character returned."),
+    totalChars: z.number().optional().describe("Length of the converted text."),
+    truncated: z.boolean().optional(),
+    nextOffset: z.number().optional().describe("The 'offset' for reading the next section, when truncated."),
+    sources: z
+      .array(sourceSchema)
+      .optional()
+      .describe("One entry per URL, in order, when several were fetched; the fields above describe a single URL."),
+  },
+  defaults: {
+    timeout: 10000,
+    maxChars: 100000,
+    maxRedirects: 5,
+    // Downloads are cut off past this, before any conversion
+    maxBytes: 10 * 1024 * 1024,
+    // URLs accepted in one call, and how many are fetched at once
+    maxUrls: 10,
+    concurrency: 4,
+  },
+  handler: async (
+    { prompt, urls, offset, limit, format: requestedFormat, selector, main_content, refresh },
+    _extra,
+    options
+  ) => {
     try {
-      // Extract URL from prompt
-      const urlRegex = /(https?:\/\/[^\s]+)/;
-      const match = prompt.match(urlRegex);
-      if (!match) {
-        throw new Error(
-          "Prompt must contain exactly one valid URL starting with http:// or https://"
+      const requested = [...new Set(urls ?? findUrls(prompt ?? ""))];
+      if (requested.length === 0) {
+        throw new FetchError(
+          "Pass 'urls' or a prompt containing at least one URL starting with http:// or https://",
+          "INVALID_ARGUMENT"
         );
       }
-      let url = match[0];
-
-      // Convert GitHub blob URL to raw URL
-      if (url.includes("github.com") && url.includes("/blob/")) {
-        url = url
-          .replace("github.com", "raw.githubusercontent.com")
-          .replace("/blob/", "/");
-      }
-
-      // Check for private IP
-      if (isPrivateIp(url)) {
-        throw new Error("Fetching from private IP addresses is not allowed");
+      if (requested.length > options.maxUrls) {
+        throw new FetchError(
+          `At most ${options.maxUrls} URLs can be fetched at once, got ${requested.length}`,
+          "INVALID_ARGUMENT",
+          { maxUrls: options.maxUrls }
+        );
       }
 
-      // Fetch content with timeout
-      const fetchTimeoutMs = 10000;
-      const response = await fetchWithTimeout(url, fetchTimeoutMs);
-      if (!response.ok) {
-        throw new Error(
-          `Request failed with status code ${response.status} ${response.statusText}`
-        );
+      const pageOptions: FetchPageOptions = {
+        format: requestedFormat,
+        selector,
+        mainContent: main_content,
+        // Applies to each URL on its own
+        timeout: options.timeout,
+        maxRedirects: options.maxRedirects,
+        maxBytes: options.maxBytes,
+        preferCached: (offset ?? 0) > 0,
+        refresh: refresh ?? false,
+      };
+      if (requested.length > 1) {
+        const fetchUrls = requested.map(toFetchUrl);
+        return await fetchSources(fetchUrls, pageOptions, offset ?? 0, limit ?? options.maxChars, options.concurrency);
       }
-      const html = await response.text();
-      const textContent = convert(html, {
-        wordwrap: false,
-        selectors: [
-          { selector: "a", options: { ignoreHref: true } },
-          { selector: "img", format: "skip" },
-        ],
-      });
+      const url = toFetchUrl(requested[0]);
 
+      const { page, cache } = await fetchPage(url, pageOptions);
+      const { text: textContent, format, title } = page;
       const totalChars = textContent.length;
       let content = textContent;
       let isTruncated = false;
@@ -146,8 +461,8 @@ server.tool(
         content = textContent.slice(0, endChar + 1);
         isTruncated = endChar < totalChars - 1;
       } else {
-        // Check if content is too large (arbitrary limit of 100,000 characters)
-        const maxChars = 100000;
+        // Check if content is too large (100,000 characters unless configured otherwise)
+        const maxChars = options.maxChars;
         if (totalChars > maxChars) {
           endChar = maxChars - 1;
           content = textContent.slice(0, maxChars);
@@ -156,11 +471,9 @@ server.tool(
       }
 
       let resultContent = content;
+      const nextOffset = isTruncated ? endChar + 1 : undefined;
 
       if (isTruncated) {
-        const nextOffset = offset
-          ? offset + (endChar - startChar + 1)
-          : endChar + 1;
         resultContent = `
 IMPORTANT: The content has been truncated.
 Status: Showing characters ${startChar + 1}-${
@@ -180,21 +493,30 @@ ${content}`;
           },
           {
             type: "text",
-            text: `Source: ${url}`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching content: ${
-              error instanceof Error ? error.message : "Unknown error"
+            text: `Source: ${page.finalUrl}${cache === "hit" ? ` (cached ${new Date(page.storedAt).toISOString()})` : ""}${
+              title ? `\nTitle: ${title}` : ""
             }`,
           },
         ],
+        structuredContent: {
+          url,
+          finalUrl: page.finalUrl,
+          redirects: page.redirects,
+          status: page.status,
+          contentType: page.contentType,
+          format,
+          title,
+          cache,
+          fetchedAt: new Date(page.storedAt).toISOString(),
+          startChar: startChar + 1,
+          endChar: endChar + 1,
+          totalChars,
+          truncated: isTruncated,
+          nextOffset,
+        },
       };
+    } catch (error) {
+      return exceptionResult(error, "Failed to fetch content");
     }
   }
-);
+});
@@ -0,0 +1,40 @@
+import z from "zod";
+import { exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory, resolveWorkingDirectory, setWorkingDirectory } from "../utils/working-directory.js";
+import { defineTool } from "../tool.js";
+
+// Register set_working_directory tool
+export default defineTool({
+  name: "set_working_directory",
+  description: "Sets the working directory for this session. Relative paths given to the file and shell tools, and the patterns of 'read_many_files', are resolved against it, and commands run there by default. Omit 'path' to show the current working directory.",
+  schema: {
+    path: z
+      .string()
+      .optional()
+      .describe("Optional: The new working directory, absolute or relative to the current one. Must be inside one of the server's workspace roots."),
+  },
+  outputSchema: {
+    path: z.string().describe("The working directory now in effect."),
+    previous: z.string().describe("The working directory before this call."),
+  },
+  handler: async ({ path }, extra) => {
+    try {
+      const previous = getWorkingDirectory(extra.sessionId);
+      if (path === undefined) {
+        return {
+          content: [{ type: "text", text: `Working directory: ${previous}` }],
+          structuredContent: { path: previous, previous },
+        };
+      }
+
+      const directory = resolveWorkingDirectory(path, previous);
+      setWorkingDirectory(extra.sessionId, directory);
+      return {
+        content: [{ type: "text", text: `Working directory set to ${directory} (was ${previous})` }],
+        structuredContent: { path: directory, previous },
+      };
+    } catch (error) {
+      return exceptionResult(error, "Failed to set working directory");
+    }
+  },
+});
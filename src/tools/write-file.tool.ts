@@ -1,29 +1,67 @@
 import z from "zod";
-import { server } from "../index.js";
-import { writeFileSync, existsSync, mkdirSync } from "fs";
+import { existsSync, mkdirSync } from "fs";
 import { dirname } from "path";
+import { detectFileType, readFileHead } from "../utils/file-content.js";
+import { writeWithHistory } from "../utils/file-history.js";
+import { checkExpectedHash, hashContent, recordFileRead } from "../utils/file-tracker.js";
+import { encodeText, scanTextFile, TEXT_ENCODINGS, TextFormat } from "../utils/text-encoding.js";
+import { errorResult, exceptionResult } from "../utils/tool-result.js";
+import { getWorkingDirectory } from "../utils/working-directory.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool } from "../tool.js";
 
 // Register write_file tool
-server.tool(
-  "write_file",
-  "Writes content to a specified file. Creates directories if they don't exist. Can overwrite existing files.",
-  {
-    file_path: z.string().describe("The absolute path to the file to write to (e.g., '/home/user/project/file.txt'). Relative paths are not supported. You must provide an absolute path."),
+export default defineTool({
+  name: "write_file",
+  description: "Writes content to a specified file. Creates directories if they don't exist. Can overwrite existing files. Writes are atomic, and the previous content is kept so the write can be reverted with 'undo_last_write' or 'restore_file_version'. When overwriting, the file's encoding, byte order mark and line endings are kept unless overridden; new files are written as UTF-8. Content that cannot be represented in the target encoding is refused.",
+  schema: {
+    file_path: z.string().describe("The path to the file to write to (e.g., '/home/user/project/file.txt'). Relative paths are resolved against the session's working directory. Must be inside one of the server's workspace roots."),
     content: z.string().describe("The content to write to the file."),
     overwrite: z.boolean().optional().describe("Whether to overwrite the file if it exists."),
+    encoding: z.enum(TEXT_ENCODINGS).optional().describe("Optional: Encoding to write. Defaults to the existing file's encoding, or utf-8 for new files."),
+    bom: z.boolean().optional().describe("Optional: Whether to start the file with a byte order mark. Defaults to the existing file's choice; new UTF-16 files get one."),
+    line_endings: z
+      .enum(["lf", "crlf"])
+      .optional()
+      .describe("Optional: Convert the content's line breaks to this style. Defaults to the existing file's style; content for new files is written as given."),
+    expected_sha256: z
+      .string()
+      .regex(/^[0-9a-fA-F]{64}$/)
+      .optional()
+      .describe("Optional: SHA-256 of the content you expect to replace (as reported by 'read_file'). The write is refused if the file on disk differs, e.g. because someone else changed it."),
   },
-  async ({ file_path, content, overwrite }) => {
+  outputSchema: {
+    path: z.string().describe("The resolved path of the file."),
+    created: z.boolean().describe("Whether the file did not exist before."),
+    bytesWritten: z.number(),
+    encoding: z.enum(TEXT_ENCODINGS),
+    bom: z.boolean(),
+    lineEndings: z.enum(["lf", "crlf", "mixed"]).optional().describe("Line ending style the content was written with."),
+    sha256: z.string().describe("SHA-256 of the written file, for 'expected_sha256' in a later write."),
+    versionId: z.string().optional().describe("ID of the kept previous version, for 'restore_file_version'."),
+  },
+  handler: async (
+    { file_path: requestedPath, content, overwrite, encoding, bom, line_endings, expected_sha256 },
+    extra
+  ) => {
     try {
+      const file_path = resolveWorkspacePath(requestedPath, getWorkingDirectory(extra.sessionId));
+
       // Check if file exists and overwrite is false
-      if (!overwrite && existsSync(file_path)) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: File already exists at ${file_path}. Set overwrite=true to overwrite it.`,
-            },
-          ],
-        };
+      const existed = existsSync(file_path);
+      if (!overwrite && existed) {
+        return errorResult(
+          "EEXIST",
+          `File already exists at ${file_path}. Set overwrite=true to overwrite it.`,
+          { path: file_path }
+        );
+      }
+
+      if (expected_sha256 !== undefined) {
+        const hashError = checkExpectedHash(file_path, expected_sha256);
+        if (hashError) {
+          throw hashError;
+        }
       }
 
       // Create directory if it doesn't exist
@@ -32,13 +70,32 @@ server.tool(
         mkdirSync(dir, { recursive: true });
       }
 
+      // Keep the format of the file being replaced, unless it is not text
+      const head = existed ? readFileHead(file_path) : undefined;
+      const previous = head && detectFileType(head).kind === "text" ? scanTextFile(file_path).format : undefined;
+      const targetEncoding = encoding ?? previous?.encoding ?? "utf-8";
+      const format: TextFormat = {
+        encoding: targetEncoding,
+        bom:
+          bom ??
+          (previous?.encoding === targetEncoding ? previous.bom : targetEncoding === "utf-16le" || targetEncoding === "utf-16be"),
+        lineEndings: line_endings ?? previous?.lineEndings,
+      };
+      const data = encodeText(content, format);
+
       // Write the file
-      writeFileSync(file_path, content, 'utf-8');
+      const version = writeWithHistory(extra.sessionId, file_path, data, "write_file");
+      recordFileRead(extra.sessionId, file_path);
 
-      const fileExists = existsSync(file_path);
-      const message = fileExists
-        ? `Successfully wrote to file: ${file_path}`
-        : `Successfully created new file: ${file_path}`;
+      const details = [
+        format.encoding !== "utf-8" || format.bom ? `${format.encoding}${format.bom ? " with BOM" : ""}` : undefined,
+        format.lineEndings === "crlf" ? "CRLF line endings" : undefined,
+      ].filter((detail) => detail !== undefined);
+      const message = `${
+        existed ? `Successfully wrote to file: ${file_path}` : `Successfully created new file: ${file_path}`
+      }${details.length > 0 ? ` (${details.join(", ")})` : ""}${
+        version?.existed ? `\nPrevious content kept as version ${version.id}; use 'undo_last_write' to revert.` : ""
+      }`;
 
       return {
         content: [
@@ -47,16 +104,19 @@ server.tool(
             text: message,
           },
         ],
+        structuredContent: {
+          path: file_path,
+          created: !existed,
+          bytesWritten: data.length,
+          encoding: format.encoding,
+          bom: format.bom,
+          lineEndings: format.lineEndings,
+          sha256: hashContent(data),
+          versionId: version?.id,
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error writing to file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          },
-        ],
-      };
+      return exceptionResult(error, "Failed to write file");
     }
   },
-);
\ No newline at end of file
+});
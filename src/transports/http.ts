@@ -0,0 +1,213 @@
+import express from "express";
+import { Server } from "http";
+import { randomUUID } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import {
+  createTokenVerifier,
+  getAllowedHosts,
+  getResourceMetadataUrl,
+  protectedResourceMetadataRouter,
+  validateOrigin,
+} from "../auth.js";
+import { Config } from "../config.js";
+import { LoadedTool } from "../registry.js";
+import { createServer } from "../server.js";
+import { adminRouter } from "../sessions/admin.js";
+import { createEventStore } from "../sessions/event-store.js";
+import { SessionManager } from "../sessions/session-manager.js";
+import { forgetHistory } from "../utils/file-history.js";
+import { forgetSession } from "../utils/file-tracker.js";
+import { logger } from "../utils/logger.js";
+import { closeShellSessions } from "../utils/shell-sessions.js";
+import { forgetWorkingDirectory, resolveWorkingDirectory, setWorkingDirectory } from "../utils/working-directory.js";
+
+// Serves the tools over Streamable HTTP on /mcp, one MCP server per session
+export function startHttpServer(config: Config, tools: LoadedTool[]): Server {
+  const sessions = new SessionManager(config.sessions);
+
+  const app = express();
+  app.use(express.json());
+  app.use(protectedResourceMetadataRouter(config));
+  app.use(adminRouter(config, sessions));
+  app.use("/mcp", validateOrigin(config));
+
+  if (config.auth.enabled) {
+    app.use(
+      "/mcp",
+      requireBearerAuth({
+        verifier: createTokenVerifier(config),
+        resourceMetadataUrl: getResourceMetadataUrl(config),
+      })
+    );
+  }
+
+  // Sessions are tied to the client that opened them: the token's client ID, or the remote address without auth
+  const clientIdOf = (req: express.Request) => req.auth?.clientId ?? req.ip ?? "unknown";
+
+  const isSessionOwner = (req: express.Request, sessionId: string) =>
+    !config.auth.enabled || sessions.get(sessionId)?.clientId === clientIdOf(req);
+
+  const forbidden = (res: express.Response) => {
+    res.status(403).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: "Forbidden: Session belongs to another client",
+      },
+      id: null,
+    });
+  };
+
+  const sessionNotFound = (res: express.Response) => {
+    res.status(404).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32001,
+        message: "Session not found",
+      },
+      id: null,
+    });
+  };
+
+  // Handle POST requests for client-to-server communication
+  app.post("/mcp", async (req, res) => {
+    // Check for existing session ID
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    let transport: StreamableHTTPServerTransport;
+
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      if (!isSessionOwner(req, session.id)) {
+        forbidden(res);
+        return;
+      }
+
+      // Reuse existing transport
+      sessions.track(session.id, res);
+      transport = session.transport;
+    } else if (!sessionId && isInitializeRequest(req.body)) {
+      const clientId = clientIdOf(req);
+      if (!sessions.hasCapacity(clientId)) {
+        res.status(429).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message: `Too Many Requests: Client already has ${config.sessions.maxPerClient} open sessions`,
+          },
+          id: null,
+        });
+        return;
+      }
+
+      // Clients that each work in their own checkout can name it as the session's working directory
+      let workingDirectory: string | undefined;
+      const requestedDirectory = req.headers["x-working-directory"];
+      if (typeof requestedDirectory === "string") {
+        try {
+          workingDirectory = resolveWorkingDirectory(requestedDirectory);
+        } catch (error) {
+          res.status(400).json({
+            jsonrpc: "2.0",
+            error: {
+              code: -32000,
+              message: `Bad Request: Invalid X-Working-Directory: ${error instanceof Error ? error.message : String(error)}`,
+            },
+            id: null,
+          });
+          return;
+        }
+      }
+
+      // The ID is chosen up front so the session's event store can be keyed by it
+      const newSessionId = randomUUID();
+      const eventStore = createEventStore(config.sessions, newSessionId);
+
+      // Connect a fresh MCP server with the tools this client's token grants
+      const server = createServer(tools, config, req.auth);
+      transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        onsessioninitialized: (sessionId) => {
+          const now = new Date();
+          sessions.add({ id: sessionId, clientId, transport, server, eventStore, createdAt: now, lastActivityAt: now, activeRequests: 0 });
+          if (workingDirectory) {
+            setWorkingDirectory(sessionId, workingDirectory);
+          }
+        },
+        eventStore,
+        enableDnsRebindingProtection: true,
+        allowedHosts: getAllowedHosts(config),
+      });
+
+      // Clean up transport when closed
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.remove(transport.sessionId);
+          forgetSession(transport.sessionId);
+          forgetHistory(transport.sessionId);
+          forgetWorkingDirectory(transport.sessionId);
+          closeShellSessions(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+    } else if (sessionId) {
+      // Expired or terminated; a 404 tells the client to start a new session
+      sessionNotFound(res);
+      return;
+    } else {
+      // Invalid request
+      res.status(400).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Bad Request: No valid session ID provided",
+        },
+        id: null,
+      });
+      return;
+    }
+
+    // Handle the request
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // Reusable handler for GET and DELETE requests
+  const handleSessionRequest = async (
+    req: express.Request,
+    res: express.Response
+  ) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      res.status(400).send("Invalid or missing session ID");
+      return;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sessionNotFound(res);
+      return;
+    }
+    if (!isSessionOwner(req, session.id)) {
+      forbidden(res);
+      return;
+    }
+
+    sessions.track(session.id, res);
+    await session.transport.handleRequest(req, res);
+  };
+
+  // Handle GET requests for server-to-client notifications via SSE
+  app.get("/mcp", handleSessionRequest);
+
+  // Handle DELETE requests for session termination
+  app.delete("/mcp", handleSessionRequest);
+
+  const httpServer = app.listen(config.port, config.host, () => {
+    logger.info(
+      `Server is running on http://${config.host}:${config.port} with ${tools.length} tools`
+    );
+  });
+  httpServer.on("close", () => sessions.close());
+  return httpServer;
+}
@@ -0,0 +1,35 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Config } from "../config.js";
+import { LoadedTool } from "../registry.js";
+import { createServer } from "../server.js";
+import { forgetHistory } from "../utils/file-history.js";
+import { forgetSession } from "../utils/file-tracker.js";
+import { logger } from "../utils/logger.js";
+import { closeShellSessions } from "../utils/shell-sessions.js";
+import { forgetWorkingDirectory } from "../utils/working-directory.js";
+
+// Serves the tools to a single client over stdin/stdout, e.g. when launched as a subprocess by a desktop client
+export async function startStdioServer(config: Config, tools: LoadedTool[]): Promise<void> {
+  // stdout carries the protocol, so anything that still calls console.log must not write to it
+  console.log = console.error;
+  console.info = console.error;
+
+  // The client that spawned the process is trusted; bearer auth only applies to HTTP
+  const server = createServer(tools, { ...config, auth: { ...config.auth, enabled: false } });
+  const transport = new StdioServerTransport();
+
+  transport.onclose = () => {
+    forgetSession(undefined);
+    forgetHistory(undefined);
+    forgetWorkingDirectory(undefined);
+    closeShellSessions(undefined);
+  };
+
+  // The parent closing our stdin ends the session; running shell sessions would otherwise keep the process alive
+  process.stdin.on("close", () => {
+    server.close().catch(() => {});
+  });
+
+  await server.connect(transport);
+  logger.info(`Server is running on stdio with ${tools.length} tools`);
+}
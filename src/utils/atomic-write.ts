@@ -0,0 +1,56 @@
+import { closeSync, fsyncSync, openSync, renameSync, statSync, unlinkSync, writeSync } from "fs";
+import { randomUUID } from "crypto";
+import { basename, dirname, join } from "path";
+
+function fsyncDirectory(directory: string): void {
+  try {
+    const fd = openSync(directory, "r");
+    try {
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } catch (_e) {
+    // Not every platform can open or sync a directory (e.g. Windows); the rename itself is still atomic
+  }
+}
+
+/**
+ * Writes to a temporary file next to the target, syncs it to disk and renames it over the target,
+ * so readers and crashes only ever see the old or the new content.
+ */
+export function writeFileAtomic(filePath: string, data: Buffer | string): void {
+  const directory = dirname(filePath);
+  const tempPath = join(directory, `.${basename(filePath)}.${randomUUID()}.tmp`);
+
+  let mode: number | undefined;
+  try {
+    mode = statSync(filePath).mode & 0o7777;
+  } catch (_e) {
+    // New file; the default mode applies
+  }
+
+  const fd = openSync(tempPath, "wx", mode);
+  try {
+    try {
+      const buffer = typeof data === "string" ? Buffer.from(data, "utf-8") : data;
+      let written = 0;
+      while (written < buffer.length) {
+        written += writeSync(fd, buffer, written, buffer.length - written);
+      }
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch (_e) {
+      // Already renamed or never created
+    }
+    throw error;
+  }
+
+  fsyncDirectory(directory);
+}
@@ -0,0 +1,570 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, resolve } from "path";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ElicitResultSchema, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getConfig } from "../config.js";
+import { errorResult } from "./tool-result.js";
+import { isWithinRoot } from "./workspace.js";
+
+export type PolicyAction = "allow" | "deny" | "ask";
+
+export interface PolicyRule {
+  // Executable name (basename, e.g. "rm") or "*" for any program
+  program: string;
+  // Regular expression tested against the space-joined arguments
+  args?: string;
+  // The rule only applies when the command runs in this directory or below it
+  directory?: string;
+  action: PolicyAction;
+  reason?: string;
+}
+
+export interface CommandPolicy {
+  default: PolicyAction;
+  rules: PolicyRule[];
+}
+
+export interface ParsedCommand {
+  program: string;
+  args: string[];
+  // Why the commands it runs cannot be read from the command line, e.g. a shell reading a script from stdin
+  opaque?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reasons: string[];
+  commands: ParsedCommand[];
+}
+
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandParseError";
+  }
+}
+
+const SEVERITY: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+const SHELL_KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "do", "done", "while", "until",
+  "case", "esac", "in", "function", "select", "!", "{", "}", "[[", "]]",
+]);
+
+// Programs that run another program given in their arguments (both are checked), with their options that take a value
+const WRAPPERS: Record<string, string[]> = {
+  sudo: ["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U"],
+  env: ["-u", "-C", "-S"],
+  nice: ["-n"],
+  nohup: [],
+  time: ["-f", "-o"],
+  timeout: ["-s", "-k", "--signal", "--kill-after"],
+  xargs: ["-I", "-n", "-P", "-L", "-d", "-E", "-s", "-a"],
+  exec: ["-a"],
+  command: [],
+  builtin: [],
+  stdbuf: [],
+  watch: ["-n", "-d"],
+};
+
+const SHELLS = new Set(["bash", "sh", "zsh", "dash", "ksh"]);
+
+// find actions that run a command, ended by ";" or "+"
+const FIND_EXEC_ACTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+// Git options that take a value before the subcommand; -c and --config-env can set a pager, alias or hook to run
+const GIT_VALUE_OPTIONS = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace", "--config-env", "--super-prefix"]);
+
+// `expands` is set when the shell rewrites the word before running it: parameters, substitutions, globs or braces
+type WordToken = { type: "word"; value: string; substitutions: string[]; expands: boolean };
+
+type Token = WordToken | { type: "op"; value: string };
+
+function readUntilClosing(command: string, start: number, open: string, close: string): number {
+  let depth = 1;
+  let i = start;
+  while (i < command.length) {
+    const char = command[i];
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new CommandParseError("Unterminated single quote.");
+      }
+      i = end + 1;
+      continue;
+    }
+    if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+  throw new CommandParseError(`Unterminated '${open}'.`);
+}
+
+// Splits a command line into words and control operators, collecting $(...) and `...` substitutions along the way
+function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  let word = "";
+  let inWord = false;
+  let substitutions: string[] = [];
+  let expands = false;
+  // The characters of the word outside quotes, where globs and brace expansion apply
+  let unquoted = "";
+  let pendingHeredocs: string[] = [];
+  let i = 0;
+
+  const flush = () => {
+    if (inWord) {
+      expands ||= /[*?]|\[.*\]|\{.*(,|\.\.).*\}/.test(unquoted);
+      tokens.push({ type: "word", value: word, substitutions, expands });
+    }
+    word = "";
+    inWord = false;
+    substitutions = [];
+    expands = false;
+    unquoted = "";
+  };
+
+  while (i < command.length) {
+    const char = command[i];
+    const next = command[i + 1];
+
+    if (char === "\\") {
+      if (next !== "\n") {
+        word += next ?? "";
+        inWord = true;
+      }
+      i += 2;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new CommandParseError("Unterminated single quote.");
+      }
+      word += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === '"') {
+      i++;
+      inWord = true;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === "\\" && i + 1 < command.length) {
+          word += command[i + 1];
+          i += 2;
+        } else if (command[i] === "$" && command[i + 1] === "(") {
+          const end = readUntilClosing(command, i + 2, "(", ")");
+          substitutions.push(command.slice(i + 2, end));
+          word += command.slice(i, end + 1);
+          expands = true;
+          i = end + 1;
+        } else if (command[i] === "`") {
+          const end = command.indexOf("`", i + 1);
+          if (end === -1) {
+            throw new CommandParseError("Unterminated backtick.");
+          }
+          substitutions.push(command.slice(i + 1, end));
+          word += command.slice(i, end + 1);
+          expands = true;
+          i = end + 1;
+        } else {
+          expands ||= command[i] === "$";
+          word += command[i];
+          i++;
+        }
+      }
+      if (i >= command.length) {
+        throw new CommandParseError("Unterminated double quote.");
+      }
+      i++;
+    } else if (char === "$" && next === "(") {
+      const end = readUntilClosing(command, i + 2, "(", ")");
+      substitutions.push(command.slice(i + 2, end));
+      word += command.slice(i, end + 1);
+      inWord = true;
+      expands = true;
+      i = end + 1;
+    } else if (char === "`") {
+      const end = command.indexOf("`", i + 1);
+      if (end === -1) {
+        throw new CommandParseError("Unterminated backtick.");
+      }
+      substitutions.push(command.slice(i + 1, end));
+      word += command.slice(i, end + 1);
+      inWord = true;
+      expands = true;
+      i = end + 1;
+    } else if ((char === "<" || char === ">") && next === "(") {
+      // Process substitution runs a command just like $(...)
+      flush();
+      const end = readUntilClosing(command, i + 2, "(", ")");
+      tokens.push({
+        type: "word",
+        value: command.slice(i, end + 1),
+        substitutions: [command.slice(i + 2, end)],
+        expands: true,
+      });
+      i = end + 1;
+    } else if (char === "#" && !inWord) {
+      const end = command.indexOf("\n", i);
+      i = end === -1 ? command.length : end;
+    } else if (/\s/.test(char)) {
+      flush();
+      i++;
+      if (char === "\n") {
+        tokens.push({ type: "op", value: ";" });
+        // Here-document bodies are data, not commands
+        for (const delimiter of pendingHeredocs) {
+          while (i < command.length) {
+            const end = command.indexOf("\n", i);
+            const line = command.slice(i, end === -1 ? command.length : end);
+            i = end === -1 ? command.length : end + 1;
+            if (line.replace(/^\t+/, "") === delimiter) {
+              break;
+            }
+          }
+        }
+        pendingHeredocs = [];
+      }
+    } else if ("|&;()".includes(char)) {
+      flush();
+      const two = command.slice(i, i + 2);
+      if (["&&", "||", ";;", "|&"].includes(two)) {
+        tokens.push({ type: "op", value: two });
+        i += 2;
+      } else {
+        tokens.push({ type: "op", value: char });
+        i++;
+      }
+    } else if (char === "<" || char === ">") {
+      // Redirections ("2>", ">>", "&>", ">&2") become an operator whose target word is skipped later
+      if (/^\d+$/.test(word)) {
+        word = "";
+        inWord = false;
+      }
+      flush();
+      let op = char;
+      i++;
+      while (i < command.length && "<>&|".includes(command[i])) {
+        op += command[i];
+        i++;
+      }
+      tokens.push({ type: "op", value: "redirect" });
+      if (op === "<<") {
+        const match = /^-?\s*(['"]?)([^\s'";|&<>()]+)\1/.exec(command.slice(i));
+        if (match) {
+          pendingHeredocs.push(match[2]);
+          tokens.push({ type: "word", value: match[2], substitutions: [], expands: false });
+          i += match[0].length;
+        }
+      } else if (op.endsWith("&")) {
+        // ">&2" style duplications have a file descriptor as target
+        while (i < command.length && /[\d-]/.test(command[i])) {
+          i++;
+        }
+        tokens.pop();
+      }
+    } else {
+      // `$x`, `${x}`, `$'\x72m'` and `$"…"` are all rewritten by the shell
+      expands ||= char === "$";
+      word += char;
+      unquoted += char;
+      inWord = true;
+      i++;
+    }
+  }
+  flush();
+
+  return tokens;
+}
+
+// Turns a command line into the individual programs it would run, including those in pipelines, chains and subshells
+export function parseCommand(command: string): ParsedCommand[] {
+  const commands: ParsedCommand[] = [];
+  const tokens = tokenize(command);
+  let current: WordToken[] = [];
+  let skipNextWord = false;
+  let inForHeader = false;
+
+  const addSimpleCommand = (words: WordToken[]) => {
+    let index = 0;
+    // Leading variable assignments (FOO=bar cmd) are not programs
+    while (index < words.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[index].value)) {
+      index++;
+    }
+    if (index >= words.length) {
+      return;
+    }
+
+    const program = basename(words[index].value);
+    const args = words.slice(index + 1).map((word) => word.value);
+    const command: ParsedCommand = { program, args };
+    commands.push(command);
+
+    if (words[index].expands) {
+      // `x=rm; $x`, `{rm,-rf,dir}` or `/bin/r?` only name their program once the shell has expanded them
+      command.opaque = `'${words[index].value}' is expanded by the shell, so the program it runs is not known`;
+    } else if (SHELLS.has(program)) {
+      const flagIndex = args.findIndex((arg) => /^-[a-z]*c[a-z]*$/.test(arg));
+      if (flagIndex !== -1 && args[flagIndex + 1] !== undefined) {
+        commands.push(...parseCommand(args[flagIndex + 1]));
+      } else {
+        // `bash <<EOF`, `curl … | sh` and `sh script.sh` run commands this parser never sees
+        command.opaque = `'${program}' without -c runs a script from stdin or a file`;
+      }
+    } else if (program === "source" || program === ".") {
+      command.opaque = `'${program}' runs the commands in a file`;
+    } else if (program === "find" && args.some((arg) => FIND_EXEC_ACTIONS.has(arg))) {
+      command.opaque = "'find' runs a command for every file it finds";
+      // The command itself is still checked, so deny rules for it apply
+      for (let i = 0; i < args.length; i++) {
+        if (FIND_EXEC_ACTIONS.has(args[i])) {
+          const end = args.findIndex((arg, j) => j > i && (arg === ";" || arg === "+"));
+          addSimpleCommand(words.slice(index + i + 2, end === -1 ? words.length : index + end + 1));
+          i = end === -1 ? args.length : end;
+        }
+      }
+    } else if (program === "eval") {
+      commands.push(...parseCommand(args.join(" ")));
+    } else if (program === "git") {
+      for (let i = 0; i < args.length && args[i].startsWith("-"); i += GIT_VALUE_OPTIONS.has(args[i]) ? 2 : 1) {
+        if (args[i] === "-c" || args[i].startsWith("--config-env")) {
+          command.opaque = `'git ${args[i]}' can set a pager, alias or hook that runs another program`;
+          break;
+        }
+      }
+    } else if (program in WRAPPERS) {
+      // Skip the wrapper's own options and arguments (e.g. "timeout 5", "env A=1", "sudo -u root")
+      let wrappedIndex = 0;
+      while (
+        wrappedIndex < args.length &&
+        (args[wrappedIndex].startsWith("-") ||
+          /^[A-Za-z_][A-Za-z0-9_]*=/.test(args[wrappedIndex]) ||
+          (program === "timeout" && /^\d/.test(args[wrappedIndex])))
+      ) {
+        if (program === "env" && /^(-[a-zA-Z]*S|--split-string)/.test(args[wrappedIndex])) {
+          command.opaque = `'env ${args[wrappedIndex]}' splits its argument into a command line of its own`;
+          return;
+        }
+        wrappedIndex += WRAPPERS[program].includes(args[wrappedIndex]) ? 2 : 1;
+      }
+      if (wrappedIndex < args.length) {
+        addSimpleCommand(words.slice(index + 1 + wrappedIndex));
+      }
+    }
+  };
+
+  const endCommand = () => {
+    addSimpleCommand(current);
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === "op") {
+      if (token.value === "redirect") {
+        skipNextWord = true;
+        continue;
+      }
+      inForHeader = false;
+      endCommand();
+      continue;
+    }
+
+    for (const substitution of token.substitutions) {
+      commands.push(...parseCommand(substitution));
+    }
+
+    if (skipNextWord) {
+      skipNextWord = false;
+      continue;
+    }
+    if (inForHeader) {
+      continue;
+    }
+    if (current.length === 0 && SHELL_KEYWORDS.has(token.value)) {
+      continue;
+    }
+    if (current.length === 0 && token.value === "for") {
+      inForHeader = true;
+      continue;
+    }
+    current.push(token);
+  }
+  endCommand();
+
+  return commands;
+}
+
+function ruleMatches(rule: PolicyRule, command: ParsedCommand, cwd: string): boolean {
+  if (rule.program !== "*" && rule.program !== command.program) {
+    return false;
+  }
+  if (rule.args !== undefined && !new RegExp(rule.args).test(command.args.join(" "))) {
+    return false;
+  }
+  if (rule.directory !== undefined && !isWithinRoot(cwd, resolve(rule.directory))) {
+    return false;
+  }
+  return true;
+}
+
+function describeRule(rule: PolicyRule, command: ParsedCommand): string {
+  const target = [command.program, ...command.args].join(" ");
+  return rule.reason
+    ? `'${target}': ${rule.reason}`
+    : `'${target}' matches the '${rule.action}' rule for program '${rule.program}'${
+        rule.args ? ` with arguments /${rule.args}/` : ""
+      }${rule.directory ? ` in ${rule.directory}` : ""}`;
+}
+
+// The most restrictive matching rule wins (deny over ask over allow); unmatched programs get the default action.
+// Commands that run something the parser cannot see are asked about at least.
+export function evaluateCommand(
+  command: string,
+  cwd: string,
+  policy: CommandPolicy = getCommandPolicy()
+): PolicyDecision {
+  const commands = parseCommand(command);
+  let action: PolicyAction = "allow";
+  const reasons: string[] = [];
+
+  for (const parsed of commands) {
+    const matching = policy.rules.filter((rule) => ruleMatches(rule, parsed, cwd));
+    let commandAction: PolicyAction;
+    if (matching.length === 0) {
+      commandAction = policy.default;
+      if (SEVERITY[policy.default] > SEVERITY.allow) {
+        reasons.push(`'${parsed.program}' is not covered by any rule (default: ${policy.default})`);
+      }
+    } else {
+      const strictest = matching.reduce((a, b) => (SEVERITY[b.action] > SEVERITY[a.action] ? b : a));
+      commandAction = strictest.action;
+      if (strictest.action !== "allow") {
+        reasons.push(describeRule(strictest, parsed));
+      }
+    }
+
+    if (parsed.opaque && SEVERITY[commandAction] < SEVERITY.ask) {
+      commandAction = "ask";
+      reasons.push(`${parsed.opaque}, which cannot be checked against the policy`);
+    }
+    action = SEVERITY[commandAction] > SEVERITY[action] ? commandAction : action;
+  }
+
+  return { action, reasons, commands };
+}
+
+function validatePolicy(value: unknown, source: string): CommandPolicy {
+  const actions = ["allow", "deny", "ask"];
+  const policy = value as Partial<CommandPolicy>;
+  if (typeof policy !== "object" || policy === null) {
+    throw new Error(`Invalid command policy in ${source}: expected an object`);
+  }
+  const defaultAction = policy.default ?? "allow";
+  if (!actions.includes(defaultAction)) {
+    throw new Error(`Invalid command policy in ${source}: unknown default action '${defaultAction}'`);
+  }
+  const rules = policy.rules ?? [];
+  rules.forEach((rule, i) => {
+    if (typeof rule.program !== "string" || !actions.includes(rule.action)) {
+      throw new Error(`Invalid command policy in ${source}: rule ${i + 1} needs a 'program' and an 'action' of allow, deny or ask`);
+    }
+    if (rule.args !== undefined) {
+      new RegExp(rule.args);
+    }
+  });
+  return { default: defaultAction, rules };
+}
+
+let commandPolicy: CommandPolicy | undefined;
+
+// Loaded from the JSON file named by `commandPolicyFile` in the config (or COMMAND_POLICY_FILE); without one every command is allowed
+export function getCommandPolicy(): CommandPolicy {
+  if (!commandPolicy) {
+    const policyFile = getConfig().commandPolicyFile;
+    if (policyFile && existsSync(policyFile)) {
+      commandPolicy = validatePolicy(JSON.parse(readFileSync(policyFile, "utf-8")), policyFile);
+    } else if (policyFile) {
+      throw new Error(`Command policy file not found: ${policyFile}`);
+    } else {
+      commandPolicy = { default: "allow", rules: [] };
+    }
+  }
+  return commandPolicy;
+}
+
+function policyErrorResult(command: string, code: "POLICY_DENIED" | "POLICY_PARSE_ERROR", reasons: string[]) {
+  return errorResult(code, "Command rejected by policy.", { command, reasons }, [
+    `Command: ${command}`,
+    `Reasons:`,
+    ...reasons.map((reason) => `- ${reason}`),
+  ]);
+}
+
+// Returns a rejection result when the command may not run, asking the user through elicitation for "ask" decisions
+export async function enforceCommandPolicy(
+  command: string,
+  cwd: string,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
+  let decision: PolicyDecision;
+  try {
+    decision = evaluateCommand(command, cwd);
+  } catch (error) {
+    return policyErrorResult(command, "POLICY_PARSE_ERROR", [
+      `The command could not be parsed safely: ${error instanceof Error ? error.message : "Unknown error"}`,
+    ]);
+  }
+
+  if (decision.action === "allow") {
+    return undefined;
+  }
+  if (decision.action === "deny") {
+    return policyErrorResult(command, "POLICY_DENIED", decision.reasons);
+  }
+
+  try {
+    const result = await extra.sendRequest(
+      {
+        method: "elicitation/create",
+        params: {
+          message: `Approve running this command in ${cwd}?\n\n${command}\n\n${decision.reasons.join("\n")}`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              approve: {
+                type: "boolean",
+                title: "Run command",
+                description: "Allow the command to run once.",
+              },
+            },
+            required: ["approve"],
+          },
+        },
+      },
+      ElicitResultSchema
+    );
+
+    if (result.action === "accept" && result.content?.approve === true) {
+      return undefined;
+    }
+    return policyErrorResult(command, "POLICY_DENIED", [
+      ...decision.reasons,
+      `The user ${result.action === "accept" ? "did not approve" : `chose '${result.action}'`} when asked for approval.`,
+    ]);
+  } catch (error) {
+    return policyErrorResult(command, "POLICY_DENIED", [
+      ...decision.reasons,
+      `Approval was required but could not be requested from the client: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    ]);
+  }
+}
@@ -0,0 +1,62 @@
+import { getConfig } from "../config.js";
+import { matchesHostPattern } from "./network-guard.js";
+
+export interface Credentials {
+  headers: Record<string, string>;
+  // The configured values, to redact wherever a server echoes them back
+  secrets: string[];
+}
+
+/**
+ * The headers `network.credentials` configures for a URL's host. Secrets are read from the config or the
+ * environment here, so the model never sees them; a host matched by several entries gets all their headers.
+ * Plain http requests only get entries that allow it, so a secret is not sent in cleartext by accident.
+ */
+export function credentialsFor(url: URL): Credentials {
+  const credentials: Credentials = { headers: {}, secrets: [] };
+  for (const entry of getConfig().network.credentials) {
+    if (!matchesHostPattern(entry.host, url) || (url.protocol !== "https:" && !entry.allowHttp)) {
+      continue;
+    }
+    const value = entry.value ?? (entry.valueEnv ? process.env[entry.valueEnv] : undefined);
+    if (!value) {
+      throw new Error(`No credential configured for ${entry.host}; set 'value' or the variable named by 'valueEnv'`);
+    }
+    const header = entry.scheme ? `${entry.scheme} ${value}` : value;
+    credentials.headers[entry.header.toLowerCase()] = header;
+    credentials.secrets.push(header, value);
+  }
+  return credentials;
+}
+
+// Replaces every occurrence of the secrets in `data`, longest first so a header value goes before the secret in it.
+// When `data` was cut short, a secret may have been cut with it, so a trailing start of a secret is replaced too.
+export function redactSecrets(data: Buffer, secrets: Iterable<string>, truncated = false): Buffer {
+  let redacted = data;
+  const sorted = [...new Set(secrets)].sort((a, b) => b.length - a.length);
+  for (const secret of sorted) {
+    const needle = Buffer.from(secret);
+    const parts: Buffer[] = [];
+    let start = 0;
+    for (let index = redacted.indexOf(needle); index !== -1; index = redacted.indexOf(needle, start)) {
+      parts.push(redacted.subarray(start, index), Buffer.from("[REDACTED]"));
+      start = index + needle.length;
+    }
+    if (parts.length > 0) {
+      redacted = Buffer.concat([...parts, redacted.subarray(start)]);
+    }
+  }
+  if (!truncated) {
+    return redacted;
+  }
+  let cut = 0;
+  for (const secret of sorted) {
+    const needle = Buffer.from(secret);
+    for (let length = Math.min(needle.length - 1, redacted.length); length > cut; length--) {
+      if (redacted.subarray(redacted.length - length).equals(needle.subarray(0, length))) {
+        cut = length;
+      }
+    }
+  }
+  return cut > 0 ? Buffer.concat([redacted.subarray(0, redacted.length - cut), Buffer.from("[REDACTED]")]) : redacted;
+}
@@ -0,0 +1,210 @@
+import { AnyNode, Element, isTag } from "domhandler";
+import { filter } from "domutils";
+import { ToolError } from "./tool-result.js";
+
+interface AttributeTest {
+  name: string;
+  // "=", "~=", "|=", "^=", "$=" or "*="; only presence is tested without one
+  operator?: string;
+  value?: string;
+  ignoreCase: boolean;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+}
+
+type Combinator = " " | ">" | "+" | "~";
+
+// `combinators[i]` joins `compounds[i]` and `compounds[i + 1]`
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: Combinator[];
+}
+
+const NAME = /-?[_a-zA-Z\u00a0-\uffff][\w\u00a0-\uffff-]*/y;
+const ATTRIBUTE = /\[\s*([^\s~|^$*=\]]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*(i)?\s*)?\]/y;
+
+function invalid(selector: string, reason: string): ToolError {
+  return new ToolError(`Invalid CSS selector '${selector}': ${reason}`, "INVALID_ARGUMENT", { selector });
+}
+
+function readName(text: string, position: number): string | undefined {
+  NAME.lastIndex = position;
+  return NAME.exec(text)?.[0];
+}
+
+/**
+ * Parses the subset of CSS selectors needed to pick parts of a page: type, universal, ID, class and attribute
+ * selectors, the descendant, child and sibling combinators, and comma-separated lists. Pseudo-classes are not
+ * supported.
+ */
+export function parseSelector(selector: string): ComplexSelector[] {
+  const list: ComplexSelector[] = [];
+  let current: ComplexSelector = { compounds: [], combinators: [] };
+  let compound: CompoundSelector | undefined;
+  let pending: Combinator | undefined;
+  let position = 0;
+
+  const startCompound = (): CompoundSelector => {
+    if (!compound) {
+      if (current.compounds.length > 0) {
+        current.combinators.push(pending ?? " ");
+      }
+      pending = undefined;
+      compound = { classes: [], attributes: [] };
+      current.compounds.push(compound);
+    }
+    return compound;
+  };
+  const endComplex = () => {
+    if (current.compounds.length === 0 || pending !== undefined) {
+      throw invalid(selector, "expected a selector");
+    }
+    list.push(current);
+  };
+
+  while (position < selector.length) {
+    const char = selector[position];
+    if (/\s/.test(char)) {
+      compound = undefined;
+      position++;
+    } else if (char === ">" || char === "+" || char === "~") {
+      if (current.compounds.length === 0 || pending !== undefined) {
+        throw invalid(selector, `unexpected '${char}'`);
+      }
+      compound = undefined;
+      pending = char;
+      position++;
+    } else if (char === ",") {
+      endComplex();
+      current = { compounds: [], combinators: [] };
+      compound = undefined;
+      position++;
+    } else if (char === "*") {
+      if (compound) {
+        throw invalid(selector, "'*' must start a compound selector");
+      }
+      startCompound();
+      position++;
+    } else if (char === "#" || char === ".") {
+      const name = readName(selector, position + 1);
+      if (!name) {
+        throw invalid(selector, `expected a name after '${char}'`);
+      }
+      const target = startCompound();
+      if (char === "#") {
+        target.id = name;
+      } else {
+        target.classes.push(name);
+      }
+      position += name.length + 1;
+    } else if (char === "[") {
+      ATTRIBUTE.lastIndex = position;
+      const match = ATTRIBUTE.exec(selector);
+      if (!match) {
+        throw invalid(selector, "malformed attribute selector");
+      }
+      startCompound().attributes.push({
+        name: match[1].toLowerCase(),
+        operator: match[2],
+        value: match[3] ?? match[4] ?? match[5],
+        ignoreCase: match[6] !== undefined,
+      });
+      position += match[0].length;
+    } else if (char === ":") {
+      throw invalid(selector, "pseudo-classes are not supported");
+    } else {
+      const name = readName(selector, position);
+      if (!name || compound) {
+        throw invalid(selector, `unexpected '${char}'`);
+      }
+      startCompound().tag = name.toLowerCase();
+      position += name.length;
+    }
+  }
+  endComplex();
+  return list;
+}
+
+function matchesAttribute(element: Element, test: AttributeTest): boolean {
+  const actual = element.attribs[test.name];
+  if (actual === undefined || test.operator === undefined || test.value === undefined) {
+    return actual !== undefined;
+  }
+  const value = test.ignoreCase ? test.value.toLowerCase() : test.value;
+  const subject = test.ignoreCase ? actual.toLowerCase() : actual;
+  switch (test.operator) {
+    case "=":
+      return subject === value;
+    case "~=":
+      return subject.split(/\s+/).includes(value);
+    case "|=":
+      return subject === value || subject.startsWith(`${value}-`);
+    case "^=":
+      return value !== "" && subject.startsWith(value);
+    case "$=":
+      return value !== "" && subject.endsWith(value);
+    default:
+      return value !== "" && subject.includes(value);
+  }
+}
+
+function matchesCompound(element: Element, compound: CompoundSelector): boolean {
+  if (compound.tag && element.name.toLowerCase() !== compound.tag) {
+    return false;
+  }
+  if (compound.id !== undefined && element.attribs.id !== compound.id) {
+    return false;
+  }
+  const classes = (element.attribs.class ?? "").split(/\s+/);
+  return (
+    compound.classes.every((name) => classes.includes(name)) &&
+    compound.attributes.every((test) => matchesAttribute(element, test))
+  );
+}
+
+function parentElement(element: Element): Element | undefined {
+  return element.parent && isTag(element.parent) ? element.parent : undefined;
+}
+
+function previousElement(element: Element): Element | undefined {
+  let node = element.prev;
+  while (node && !isTag(node)) {
+    node = node.prev;
+  }
+  return node ?? undefined;
+}
+
+// Matches right to left: the element against the last compound, then its ancestors or siblings against the rest
+function matchesFrom(element: Element, selector: ComplexSelector, index: number): boolean {
+  if (!matchesCompound(element, selector.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  const step = selector.combinators[index - 1];
+  const next = step === " " || step === ">" ? parentElement : previousElement;
+  for (let candidate = next(element); candidate; candidate = next(candidate)) {
+    if (matchesFrom(candidate, selector, index - 1)) {
+      return true;
+    }
+    if (step === ">" || step === "+") {
+      return false;
+    }
+  }
+  return false;
+}
+
+// Elements matching any selector in the list, in document order
+export function selectAll(nodes: AnyNode[], selector: ComplexSelector[]): Element[] {
+  return filter(
+    (node) => isTag(node) && selector.some((complex) => matchesFrom(node, complex, complex.compounds.length - 1)),
+    nodes,
+    true
+  ) as Element[];
+}
@@ -0,0 +1,97 @@
+import { closeSync, openSync, readSync } from "fs";
+import { extractText } from "unpdf";
+import { isBinaryContent } from "./file-discovery.js";
+import { isUtf16Text } from "./text-encoding.js";
+
+export type FileKind = "text" | "image" | "pdf" | "binary";
+
+export interface FileType {
+  kind: FileKind;
+  mimeType?: string;
+}
+
+// Magic numbers of the formats we return as images or PDF text, plus common binaries so summaries can name them
+const SIGNATURES: Array<{ kind: FileKind; mimeType: string; offset?: number; bytes: number[] | string }> = [
+  { kind: "image", mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { kind: "image", mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { kind: "image", mimeType: "image/gif", bytes: "GIF8" },
+  { kind: "image", mimeType: "image/webp", offset: 8, bytes: "WEBP" },
+  { kind: "pdf", mimeType: "application/pdf", bytes: "%PDF-" },
+  { kind: "binary", mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { kind: "binary", mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { kind: "binary", mimeType: "application/x-elf", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { kind: "binary", mimeType: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { kind: "binary", mimeType: "image/bmp", bytes: "BM" },
+];
+
+// An optional XML declaration, comments and doctype may precede the root element
+const SVG_PATTERN = /^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE\s+svg[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i;
+
+function matchesSignature(buffer: Buffer, offset: number, bytes: number[] | string): boolean {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes);
+  return buffer.length >= offset + expected.length && buffer.subarray(offset, offset + expected.length).equals(expected);
+}
+
+// Enough of a file's start to sniff its type
+export const SNIFF_BYTES = 8192;
+
+export function readFileHead(filePath: string, bytes: number = SNIFF_BYTES): Buffer {
+  const buffer = Buffer.alloc(bytes);
+  const fd = openSync(filePath, "r");
+  try {
+    return buffer.subarray(0, readSync(fd, buffer, 0, bytes, 0));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Sniffs the file's leading bytes; the extension is never consulted
+export function detectFileType(buffer: Buffer): FileType {
+  for (const { kind, mimeType, offset = 0, bytes } of SIGNATURES) {
+    // WebP is a RIFF container, so the RIFF header has to be there as well
+    if (mimeType === "image/webp" && !matchesSignature(buffer, 0, "RIFF")) {
+      continue;
+    }
+    // "BM" alone is too weak a signature for text files, so BMP only counts once the content looks binary
+    if (mimeType === "image/bmp" && !isBinaryContent(buffer)) {
+      continue;
+    }
+    if (matchesSignature(buffer, offset, bytes)) {
+      return { kind, mimeType };
+    }
+  }
+
+  // UTF-16 is full of zero bytes but still text
+  if (isUtf16Text(buffer)) {
+    return { kind: "text" };
+  }
+  if (isBinaryContent(buffer)) {
+    return { kind: "binary" };
+  }
+  if (SVG_PATTERN.test(buffer.subarray(0, 4096).toString("utf-8"))) {
+    return { kind: "image", mimeType: "image/svg+xml" };
+  }
+  return { kind: "text" };
+}
+
+// Text of each page, in order
+export async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  // PDF.js takes ownership of the array it is given, so it gets a copy
+  const { text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+  return text;
+}
+
+// Metadata plus a hex dump of the first bytes, in the style of `xxd`
+export function describeBinary(buffer: Buffer, size: number, mimeType?: string, dumpBytes: number = 256): string {
+  const lines = [
+    `Binary file${mimeType ? ` (${mimeType})` : ""}, ${size} bytes. First ${Math.min(dumpBytes, buffer.length)} bytes:`,
+  ];
+  const head = buffer.subarray(0, dumpBytes);
+  for (let offset = 0; offset < head.length; offset += 16) {
+    const row = head.subarray(offset, offset + 16);
+    const hex = [...row].map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+    const ascii = [...row].map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return lines.join("\n");
+}
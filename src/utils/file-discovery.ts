@@ -0,0 +1,76 @@
+import fg from "fast-glob";
+
+// Default exclusion patterns for common files/directories to skip
+export const DEFAULT_EXCLUDES = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/.svn/**",
+  "**/.hg/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/coverage/**",
+  "**/.nyc_output/**",
+  "**/tmp/**",
+  "**/temp/**",
+  "**/*.log",
+  "**/*.tmp",
+  "**/*.cache",
+  "**/.DS_Store",
+  "**/Thumbs.db",
+  "**/*.exe",
+  "**/*.dll",
+  "**/*.so",
+  "**/*.dylib",
+  "**/*.bin",
+  "**/*.zip",
+  "**/*.tar.gz",
+  "**/*.rar",
+  "**/*.7z",
+];
+
+// Excluded even where ignore files decide the rest: version control metadata and installed dependencies
+export const CORE_EXCLUDES = ["**/node_modules/**", "**/.git/**", "**/.svn/**", "**/.hg/**"];
+
+// The leading segments of a glob pattern that contain no wildcards, e.g. "src/utils" for "src/utils/**/*.ts"
+export function patternBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const firstDynamic = segments.findIndex((segment) => fg.isDynamicPattern(segment));
+  return firstDynamic === -1 ? pattern : segments.slice(0, firstDynamic).join("/");
+}
+
+// Shared fast-glob setup for tools that discover files from user-supplied patterns
+export function findFiles(
+  patterns: string[],
+  excludePatterns: string[],
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  return fg(patterns, {
+    cwd,
+    ignore: excludePatterns,
+    onlyFiles: true,
+    dot: false,
+    absolute: true,
+    suppressErrors: true,
+    globstar: true,
+  });
+}
+
+// Control characters that do not occur in ordinary text files
+function isSuspiciousByte(byte: number): boolean {
+  return (byte < 0x20 && ![0x08, 0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) || byte === 0x7f;
+}
+
+// Treats content as binary when the sampled prefix contains a NUL byte, like git and grep do, or is over 10% control characters
+export function isBinaryContent(buffer: Buffer, sampleSize: number = 8000): boolean {
+  const sample = buffer.subarray(0, sampleSize);
+  if (sample.includes(0)) {
+    return true;
+  }
+  let suspicious = 0;
+  for (const byte of sample) {
+    if (isSuspiciousByte(byte)) {
+      suspicious++;
+    }
+  }
+  return sample.length > 0 && suspicious / sample.length > 0.1;
+}
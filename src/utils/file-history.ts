@@ -0,0 +1,185 @@
+import { mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { randomUUID } from "crypto";
+import { join } from "path";
+import { getConfig } from "../config.js";
+import { writeFileAtomic } from "./atomic-write.js";
+import { hashContent } from "./file-tracker.js";
+import { ToolError } from "./tool-result.js";
+
+export interface FileVersion {
+  id: string;
+  path: string;
+  // The tool whose write replaced this version
+  tool: string;
+  createdAt: Date;
+  // False when the write created the file; restoring the version then deletes it
+  existed: boolean;
+  size: number;
+  sha256?: string;
+  // Hash of what the write left on disk, so an undo can tell whether the file changed since
+  writtenSha256?: string;
+}
+
+interface SessionHistory {
+  // Holds one file per version that existed, named after the version ID
+  directory: string;
+  // Oldest first
+  versions: FileVersion[];
+  nextId: number;
+}
+
+const histories = new Map<string, SessionHistory>();
+
+function getSessionHistory(sessionId: string | undefined): SessionHistory {
+  const key = sessionId ?? "default";
+  let history = histories.get(key);
+  if (!history) {
+    // A random directory keeps concurrent servers (e.g. several stdio processes) apart
+    history = { directory: join(getConfig().history.directory, randomUUID()), versions: [], nextId: 1 };
+    histories.set(key, history);
+  }
+  return history;
+}
+
+function dropVersion(history: SessionHistory, version: FileVersion): void {
+  history.versions = history.versions.filter((candidate) => candidate !== version);
+  rmSync(join(history.directory, version.id), { force: true });
+}
+
+// Keeps the file's current content before it is replaced; undefined when history is disabled or the file is too large
+function saveVersion(sessionId: string | undefined, filePath: string, tool: string): FileVersion | undefined {
+  const { maxVersions, maxFileBytes } = getConfig().history;
+  if (maxVersions === 0) {
+    return undefined;
+  }
+
+  let size = 0;
+  let existed = true;
+  try {
+    size = statSync(filePath).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    existed = false;
+  }
+  if (size > maxFileBytes) {
+    return undefined;
+  }
+
+  const history = getSessionHistory(sessionId);
+  const version: FileVersion = { id: `v${history.nextId++}`, path: filePath, tool, createdAt: new Date(), existed, size };
+  if (existed) {
+    const content = readFileSync(filePath);
+    mkdirSync(history.directory, { recursive: true });
+    writeFileSync(join(history.directory, version.id), content);
+    version.sha256 = hashContent(content);
+  }
+
+  history.versions.push(version);
+  while (history.versions.length > maxVersions) {
+    dropVersion(history, history.versions[0]);
+  }
+  return version;
+}
+
+function restoreContent(history: SessionHistory, version: FileVersion): void {
+  if (version.existed) {
+    writeFileAtomic(version.path, readFileSync(join(history.directory, version.id)));
+  } else {
+    rmSync(version.path, { force: true });
+  }
+}
+
+/**
+ * Writes the file atomically after keeping its previous content in the session's history.
+ * Returns the version that holds the previous content, if one was kept.
+ */
+export function writeWithHistory(
+  sessionId: string | undefined,
+  filePath: string,
+  data: Buffer,
+  tool: string
+): FileVersion | undefined {
+  const version = saveVersion(sessionId, filePath, tool);
+  try {
+    writeFileAtomic(filePath, data);
+  } catch (error) {
+    if (version) {
+      dropVersion(getSessionHistory(sessionId), version);
+    }
+    throw error;
+  }
+  if (version) {
+    version.writtenSha256 = hashContent(data);
+  }
+  return version;
+}
+
+// Newest first, optionally only those of one file
+export function listVersions(sessionId: string | undefined, filePath?: string): FileVersion[] {
+  const versions = histories.get(sessionId ?? "default")?.versions ?? [];
+  return versions.filter((version) => filePath === undefined || version.path === filePath).reverse();
+}
+
+export function getVersion(sessionId: string | undefined, versionId: string): FileVersion {
+  const version = histories.get(sessionId ?? "default")?.versions.find((candidate) => candidate.id === versionId);
+  if (!version) {
+    throw new ToolError(`No file version '${versionId}' in this session.`, "NOT_FOUND", { versionId });
+  }
+  return version;
+}
+
+/**
+ * Puts the version's content back (or deletes the file if the version predates it).
+ * The content being replaced is kept as a new version, so a restore can itself be reverted.
+ */
+export function restoreVersion(sessionId: string | undefined, version: FileVersion, tool: string): FileVersion | undefined {
+  const backup = saveVersion(sessionId, version.path, tool);
+  restoreContent(getSessionHistory(sessionId), version);
+  if (backup) {
+    backup.writtenSha256 = version.sha256;
+  }
+  return backup;
+}
+
+/**
+ * Reverts the session's most recent write and removes it from the history.
+ * Refuses when the file changed after that write, unless forced, since the newer content would be lost.
+ */
+export function undoLastWrite(sessionId: string | undefined, force: boolean = false): FileVersion {
+  const history = histories.get(sessionId ?? "default");
+  const version = history?.versions.at(-1);
+  if (!history || !version) {
+    throw new ToolError("There are no writes to undo in this session.", "NOT_FOUND");
+  }
+
+  if (!force && version.writtenSha256) {
+    let current: string | undefined;
+    try {
+      current = hashContent(readFileSync(version.path));
+    } catch (_e) {
+      // A deleted file counts as changed
+    }
+    if (current !== version.writtenSha256) {
+      throw new ToolError(
+        "File has changed since the write being undone. Pass force=true to undo anyway and lose those changes.",
+        "FILE_CHANGED",
+        { path: version.path, versionId: version.id }
+      );
+    }
+  }
+
+  restoreContent(history, version);
+  dropVersion(history, version);
+  return version;
+}
+
+export function forgetHistory(sessionId: string | undefined): void {
+  const key = sessionId ?? "default";
+  const history = histories.get(key);
+  if (history) {
+    rmSync(history.directory, { recursive: true, force: true });
+    histories.delete(key);
+  }
+}
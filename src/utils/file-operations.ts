@@ -0,0 +1,194 @@
+import {
+  cpSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  Stats,
+  writeFileSync,
+} from "fs";
+import { randomBytes } from "crypto";
+import { dirname, join, relative } from "path";
+import { getConfig } from "../config.js";
+import { ToolError } from "./tool-result.js";
+
+export type EntryType = "file" | "directory" | "symlink" | "other";
+
+export interface TreeEntry {
+  path: string;
+  type: EntryType;
+  size: number;
+}
+
+export interface TrashEntry {
+  id: string;
+  // The client or session that trashed the entry; only it can list and restore the entry
+  owner: string;
+  originalPath: string;
+  type: EntryType;
+  // Bytes of the entry and everything below it
+  size: number;
+  deletedAt: string;
+}
+
+// Unlike existsSync, true for dangling symlinks too
+export function pathExists(path: string): boolean {
+  try {
+    lstatSync(path);
+    return true;
+  } catch (_e) {
+    return false;
+  }
+}
+
+export function entryTypeOf(stats: Stats): EntryType {
+  return stats.isSymbolicLink() ? "symlink" : stats.isDirectory() ? "directory" : stats.isFile() ? "file" : "other";
+}
+
+// The path and everything below it, parents before children; symlinks are listed but not followed
+export function listTree(path: string): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  const visit = (current: string) => {
+    const stats = lstatSync(current);
+    const type = entryTypeOf(stats);
+    entries.push({ path: current, type, size: stats.size });
+    if (type === "directory") {
+      for (const name of readdirSync(current).sort()) {
+        visit(join(current, name));
+      }
+    }
+  };
+  visit(path);
+  return entries;
+}
+
+// Renames, falling back to copy and delete when source and destination are on different filesystems
+export function moveEntry(source: string, destination: string): void {
+  try {
+    renameSync(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    cpSync(source, destination, { recursive: true, verbatimSymlinks: true, errorOnExist: true, force: false });
+    rmSync(source, { recursive: true, force: true });
+  }
+}
+
+// Trash entries are ordered by deletedAt, so entries trashed within the same millisecond get distinct times
+let lastDeletedAt = 0;
+
+function nextDeletedAt(): Date {
+  lastDeletedAt = Math.max(Date.now(), lastDeletedAt + 1);
+  return new Date(lastDeletedAt);
+}
+
+function trashDirectory(): string {
+  return getConfig().trash.directory;
+}
+
+function removeTrashEntry(directory: string, entry: TrashEntry): void {
+  rmSync(join(directory, entry.id), { recursive: true, force: true });
+  rmSync(join(directory, `${entry.id}.json`), { force: true });
+}
+
+// Every owner's entries, newest first
+function readTrash(directory: string): TrashEntry[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+  return readdirSync(directory)
+    .filter((name) => name.endsWith(".json"))
+    .flatMap((name) => {
+      try {
+        return [JSON.parse(readFileSync(join(directory, name), "utf-8")) as TrashEntry];
+      } catch (_e) {
+        return [];
+      }
+    })
+    .filter((entry) => pathExists(join(directory, entry.id)))
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+// Drops the oldest entries, whoever they belong to, until the trash is within its limits
+function pruneTrash(directory: string): void {
+  const { maxEntries, maxBytes } = getConfig().trash;
+  let total = 0;
+  readTrash(directory).forEach((entry, index) => {
+    total += entry.size ?? 0;
+    if (index >= maxEntries || total > maxBytes) {
+      removeTrashEntry(directory, entry);
+    }
+  });
+}
+
+// Each entry is stored as <id> next to <id>.json describing where it came from
+export function moveToTrash(path: string, owner: string): TrashEntry {
+  const directory = trashDirectory();
+  const size = listTree(path).reduce((sum, entry) => sum + entry.size, 0);
+  const { maxBytes } = getConfig().trash;
+  if (size > maxBytes) {
+    throw new ToolError(
+      `${path} is ${size} bytes, more than the trash limit of ${maxBytes} bytes, and cannot be moved to the trash.`,
+      "FILE_TOO_LARGE",
+      { path, size }
+    );
+  }
+  mkdirSync(directory, { recursive: true });
+  const deletedAt = nextDeletedAt().toISOString();
+  const entry: TrashEntry = {
+    id: `${deletedAt.replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`,
+    owner,
+    originalPath: path,
+    type: entryTypeOf(lstatSync(path)),
+    size,
+    deletedAt,
+  };
+  writeFileSync(join(directory, `${entry.id}.json`), JSON.stringify(entry, null, 2));
+  try {
+    moveEntry(path, join(directory, entry.id));
+  } catch (error) {
+    rmSync(join(directory, `${entry.id}.json`), { force: true });
+    throw error;
+  }
+  pruneTrash(directory);
+  return entry;
+}
+
+// The owner's entries, newest first
+export function listTrash(owner: string): TrashEntry[] {
+  return readTrash(trashDirectory()).filter((entry) => entry.owner === owner);
+}
+
+export function getTrashEntry(id: string, owner: string): TrashEntry {
+  const entry = listTrash(owner).find((candidate) => candidate.id === id);
+  if (!entry) {
+    throw new ToolError(`No trash entry '${id}'.`, "NOT_FOUND", { trashId: id });
+  }
+  return entry;
+}
+
+// Moves a trashed entry back to `destination`, which must not exist
+export function restoreFromTrash(entry: TrashEntry, destination: string): void {
+  if (pathExists(destination)) {
+    throw new ToolError(`Cannot restore to ${destination}: it already exists.`, "EEXIST", { path: destination });
+  }
+  const directory = trashDirectory();
+  mkdirSync(dirname(destination), { recursive: true });
+  moveEntry(join(directory, entry.id), destination);
+  rmSync(join(directory, `${entry.id}.json`), { force: true });
+}
+
+// Human-readable paths of at most `max` entries, relative to `base`
+export function summarizeEntries(entries: TreeEntry[], base: string, max: number): string[] {
+  const lines = entries
+    .slice(0, max)
+    .map((entry) => `${relative(base, entry.path) || "."}${entry.type === "directory" ? "/" : ""}`);
+  if (entries.length > max) {
+    lines.push(`...and ${entries.length - max} more`);
+  }
+  return lines;
+}
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { closeSync, openSync, readFileSync, readSync, Stats, statSync } from "fs";
+import { ToolError } from "./tool-result.js";
+
+interface FileSnapshot {
+  mtimeMs: number;
+  size: number;
+  // Not recorded for very large files, which are then compared by mtime and size only
+  sha256?: string;
+}
+
+// Reading a file is streamed, so hashing it in full is limited to files up to this size
+const MAX_HASHED_BYTES = 32 * 1024 * 1024;
+
+const HASH_CHUNK_SIZE = 64 * 1024;
+
+// Number of files whose hash is kept, so paging through a file does not hash all of it every time
+const MAX_CACHED_HASHES = 32;
+
+const hashes = new Map<string, { mtimeMs: number; size: number; sha256: string }>();
+
+// Last version of each file an MCP session has seen through read_file, keyed by session and absolute path
+const snapshots = new Map<string, FileSnapshot>();
+
+function snapshotKey(sessionId: string | undefined, filePath: string): string {
+  return `${sessionId ?? "default"}:${filePath}`;
+}
+
+export function hashContent(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Hashes the file in chunks, reusing the last hash while its mtime and size are unchanged
+function hashFile(filePath: string, stats: Stats): string {
+  const cached = hashes.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.sha256;
+  }
+
+  const hash = createHash("sha256");
+  const buffer = Buffer.alloc(HASH_CHUNK_SIZE);
+  const fd = openSync(filePath, "r");
+  try {
+    for (let position = 0; ; ) {
+      const bytesRead = readSync(fd, buffer, 0, HASH_CHUNK_SIZE, position);
+      if (bytesRead === 0) {
+        break;
+      }
+      hash.update(buffer.subarray(0, bytesRead));
+      position += bytesRead;
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  const sha256 = hash.digest("hex");
+  hashes.delete(filePath);
+  hashes.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, sha256 });
+  if (hashes.size > MAX_CACHED_HASHES) {
+    hashes.delete(hashes.keys().next().value!);
+  }
+  return sha256;
+}
+
+// Returns the file's SHA-256, unless it is too large to hash
+export function recordFileRead(sessionId: string | undefined, filePath: string): string | undefined {
+  const stats = statSync(filePath);
+  const sha256 = stats.size <= MAX_HASHED_BYTES ? hashFile(filePath, stats) : undefined;
+  snapshots.set(snapshotKey(sessionId, filePath), { mtimeMs: stats.mtimeMs, size: stats.size, sha256 });
+  return sha256;
+}
+
+// Returns the error to report when the file on disk is not the version the caller expects to replace
+export function checkExpectedHash(filePath: string, expectedSha256: string): ToolError | undefined {
+  let actual: string;
+  try {
+    actual = hashContent(readFileSync(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return new ToolError("File does not exist, so it cannot match 'expected_sha256'.", "FILE_CHANGED", {
+        path: filePath,
+        expectedSha256,
+      });
+    }
+    throw error;
+  }
+  if (actual !== expectedSha256.toLowerCase()) {
+    return new ToolError(
+      "File content does not match 'expected_sha256'; it was changed by someone else. Read it again before writing.",
+      "FILE_CHANGED",
+      { path: filePath, expectedSha256, actualSha256: actual }
+    );
+  }
+  return undefined;
+}
+
+// Returns the error to report when the file has to be read again before it can be edited, or undefined when it is unchanged
+export function checkFileUnchanged(
+  sessionId: string | undefined,
+  filePath: string
+): ToolError | undefined {
+  const snapshot = snapshots.get(snapshotKey(sessionId, filePath));
+  if (!snapshot) {
+    return new ToolError("File has not been read yet. Use 'read_file' before editing it.", "FILE_NOT_READ", {
+      path: filePath,
+    });
+  }
+
+  const stats = statSync(filePath);
+  if (stats.mtimeMs === snapshot.mtimeMs && stats.size === snapshot.size) {
+    return undefined;
+  }
+
+  // Timestamps can change without the content changing (e.g. touch), so fall back to comparing hashes
+  if (snapshot.sha256 && stats.size === snapshot.size && hashContent(readFileSync(filePath)) === snapshot.sha256) {
+    return undefined;
+  }
+
+  return new ToolError(
+    "File has been modified on disk since it was last read. Use 'read_file' again before editing it.",
+    "FILE_CHANGED",
+    { path: filePath }
+  );
+}
+
+export function forgetSession(sessionId: string | undefined): void {
+  const prefix = snapshotKey(sessionId, "");
+  for (const key of snapshots.keys()) {
+    if (key.startsWith(prefix)) {
+      snapshots.delete(key);
+    }
+  }
+}
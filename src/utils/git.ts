@@ -0,0 +1,166 @@
+import { spawn } from "child_process";
+import { dirname, delimiter } from "path";
+import { ToolError } from "./tool-result.js";
+import { getWorkspaceRoots, isWithinWorkspace } from "./workspace.js";
+
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+export interface GitOptions {
+  timeout?: number;
+  // Output beyond this is dropped and the call fails, so a huge diff cannot exhaust memory
+  maxOutputBytes?: number;
+  env?: Record<string, string>;
+  // Non-zero exit codes that are not failures, e.g. 1 for `git diff --exit-code`
+  allowedExitCodes?: number[];
+}
+
+/**
+ * Settings that keep git from running programs named in a repository's config or hooks, and from touching the
+ * network. The tools bypass the command policy, so a cloned repository must not be able to run code through them.
+ * Filter drivers have no switch of their own; `runGit` clears every one that is configured.
+ */
+const SAFE_CONFIG = [
+  "core.fsmonitor=false",
+  "core.hooksPath=/dev/null",
+  "core.pager=cat",
+  "diff.external=",
+  "commit.gpgSign=false",
+  "tag.gpgSign=false",
+  "protocol.allow=never",
+  "color.ui=false",
+];
+
+function gitEnv(extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    // Repositories above the workspace roots are not discovered
+    GIT_CEILING_DIRECTORIES: getWorkspaceRoots().map((root) => dirname(root)).join(delimiter),
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_OPTIONAL_LOCKS: "0",
+    GIT_CONFIG_NOSYSTEM: "1",
+    LC_ALL: "C",
+    ...extra,
+  };
+}
+
+function spawnGit(args: string[], cwd: string, options: GitOptions, overrides: string[] = []): Promise<GitResult> {
+  const { timeout = 30000, maxOutputBytes = 20 * 1024 * 1024, allowedExitCodes = [] } = options;
+  const fullArgs = [...SAFE_CONFIG.flatMap((setting) => ["-c", setting]), ...overrides, ...args];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", fullArgs, { cwd, env: gitEnv(options.env), stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let failure: ToolError | undefined;
+
+    const timeoutId = setTimeout(() => {
+      failure = new ToolError(`git ${args[0]} timed out after ${timeout}ms`, "TIMEOUT");
+      child.kill("SIGKILL");
+    }, timeout);
+
+    child.stdout.on("data", (data: Buffer) => {
+      outputBytes += data.length;
+      if (outputBytes > maxOutputBytes) {
+        failure ??= new ToolError(
+          `git ${args[0]} produced more than ${maxOutputBytes} bytes of output; narrow it down with paths or refs.`,
+          "GIT_ERROR"
+        );
+        child.kill("SIGKILL");
+        return;
+      }
+      stdout.push(data);
+    });
+    child.stderr.on("data", (data: Buffer) => stderr.push(data));
+
+    child.on("error", (error) => {
+      clearTimeout(timeoutId);
+      reject(
+        (error as NodeJS.ErrnoException).code === "ENOENT"
+          ? new ToolError("The git executable was not found on the server.", "GIT_ERROR")
+          : error
+      );
+    });
+    child.on("close", (exitCode) => {
+      clearTimeout(timeoutId);
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      const result = {
+        stdout: Buffer.concat(stdout).toString("utf-8"),
+        stderr: Buffer.concat(stderr).toString("utf-8"),
+        exitCode,
+      };
+      if (exitCode !== 0 && !allowedExitCodes.includes(exitCode ?? -1)) {
+        reject(
+          new ToolError(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${exitCode}`}`, "GIT_ERROR", {
+            exitCode,
+            stderr: result.stderr,
+          })
+        );
+        return;
+      }
+      resolve(result);
+    });
+  });
+}
+
+/**
+ * Settings emptying every filter driver in the config that applies in `cwd`. A `filter.<name>.clean`, `smudge`
+ * or `process` command runs during add, status, diff and blame for paths `.gitattributes` assigns to it, and the
+ * repository's own config is writable by the file tools.
+ */
+async function filterOverrides(cwd: string, options: GitOptions): Promise<string[]> {
+  const { stdout } = await spawnGit(["config", "--null", "--name-only", "--get-regexp", "^filter\\."], cwd, {
+    timeout: options.timeout,
+    env: options.env,
+    // No matching setting
+    allowedExitCodes: [1],
+  });
+  const drivers = new Set(
+    stdout
+      .split("\0")
+      .filter(Boolean)
+      .map((name) => name.slice("filter.".length, name.lastIndexOf(".")))
+  );
+  return [...drivers].flatMap((driver) =>
+    ["clean=", "smudge=", "process=", "required=false"].flatMap((setting) => ["-c", `filter.${driver}.${setting}`])
+  );
+}
+
+// Runs the local git binary without a shell; fails with GIT_ERROR on an unexpected exit code
+export async function runGit(args: string[], cwd: string, options: GitOptions = {}): Promise<GitResult> {
+  return spawnGit(args, cwd, options, await filterOverrides(cwd, options));
+}
+
+// The top-level directory of the repository containing `directory`, which must be inside the workspace
+export async function findRepository(directory: string): Promise<string> {
+  let root: string;
+  try {
+    root = (await runGit(["rev-parse", "--show-toplevel"], directory)).stdout.trim();
+  } catch (error) {
+    if (error instanceof ToolError && error.code === "GIT_ERROR" && /not a git repository/i.test(error.message)) {
+      throw new ToolError(`Not inside a git repository: ${directory}`, "NOT_A_REPOSITORY", { path: directory });
+    }
+    throw error;
+  }
+  if (!isWithinWorkspace(root)) {
+    throw new ToolError(`Repository root is outside the allowed workspace roots: ${root}`, "OUTSIDE_WORKSPACE", {
+      path: root,
+      roots: getWorkspaceRoots(),
+    });
+  }
+  return root;
+}
+
+// Refs and revision ranges come from tool arguments; one starting with "-" would be parsed as an option
+export function assertRevision(revision: string, name: string): void {
+  if (!revision.trim() || revision.startsWith("-") || /[\s\0]/.test(revision)) {
+    throw new ToolError(`Invalid ${name}: '${revision}'`, "INVALID_ARGUMENT", { [name]: revision });
+  }
+}
@@ -0,0 +1,97 @@
+import { getConfig } from "../config.js";
+import { ToolError } from "./tool-result.js";
+
+interface HostState {
+  active: number;
+  // Start times of requests in the last minute
+  starts: number[];
+  // Set when the host answered 429 or 503 with Retry-After
+  pausedUntil: number;
+  waiting: Set<() => void>;
+}
+
+const hosts = new Map<string, HostState>();
+
+// Longest Retry-After honored, so a misbehaving server cannot stall requests indefinitely
+const MAX_PAUSE_MS = 5 * 60 * 1000;
+
+function stateOf(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, starts: [], pausedUntil: 0, waiting: new Set() };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+// Resolves after `delay` or when a slot is released, whichever comes first
+function waitForTurn(state: HostState, delay: number | undefined, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      state.waiting.delete(wake);
+      signal?.removeEventListener("abort", abort);
+    };
+    const wake = () => {
+      finish();
+      resolve();
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    const timer = delay !== undefined ? setTimeout(wake, delay) : undefined;
+    state.waiting.add(wake);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+/**
+ * Waits until a request to `host` is within `network.maxConcurrentPerHost` and `network.requestsPerMinutePerHost`,
+ * and any Retry-After pause has passed. Returns the function that releases the slot once the response is read.
+ * Fails with RATE_LIMITED instead of waiting out a Retry-After pause longer than `maxPauseMs`.
+ */
+export async function acquireHostSlot(host: string, signal?: AbortSignal, maxPauseMs = Infinity): Promise<() => void> {
+  const state = stateOf(host);
+  while (true) {
+    signal?.throwIfAborted();
+    const { maxConcurrentPerHost, requestsPerMinutePerHost } = getConfig().network;
+    const now = Date.now();
+    if (state.pausedUntil - now > maxPauseMs) {
+      throw new ToolError(
+        `${host} asked for no requests until ${new Date(state.pausedUntil).toISOString()} (Retry-After).`,
+        "RATE_LIMITED",
+        { host, retryAt: new Date(state.pausedUntil).toISOString() }
+      );
+    }
+    state.starts = state.starts.filter((start) => now - start < 60000);
+    const delay = Math.max(
+      state.pausedUntil - now,
+      requestsPerMinutePerHost > 0 && state.starts.length >= requestsPerMinutePerHost ? state.starts[0] + 60000 - now : 0
+    );
+
+    if (delay <= 0 && state.active < maxConcurrentPerHost) {
+      state.active++;
+      state.starts.push(now);
+      let released = false;
+      return () => {
+        if (!released) {
+          released = true;
+          state.active--;
+          [...state.waiting].forEach((wake) => wake());
+        }
+      };
+    }
+    await waitForTurn(state, delay > 0 ? delay : undefined, signal);
+  }
+}
+
+// Holds back further requests to `host`, e.g. for a Retry-After header given in seconds or as an HTTP date
+export function pauseHost(host: string, retryAfter: string): void {
+  const seconds = Number(retryAfter);
+  const until = Number.isFinite(seconds) ? Date.now() + seconds * 1000 : Date.parse(retryAfter);
+  if (Number.isFinite(until)) {
+    const state = stateOf(host);
+    state.pausedUntil = Math.max(state.pausedUntil, Math.min(until, Date.now() + MAX_PAUSE_MS));
+  }
+}
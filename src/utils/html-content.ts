@@ -0,0 +1,329 @@
+import { convert } from "html-to-text";
+import render from "dom-serializer";
+import { AnyNode, Document, Element, isTag, isText } from "domhandler";
+import { findOne, getElementsByTagName, removeElement, textContent } from "domutils";
+import { parseDocument } from "htmlparser2";
+import { parseSelector, selectAll } from "./css-selector.js";
+
+// Never part of the readable content
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "template", "iframe", "object", "embed", "canvas", "svg", "math"]);
+
+// Page furniture dropped by the main content extractor
+const BOILERPLATE_TAGS = new Set(["nav", "aside", "footer", "form", "button", "input", "select", "textarea", "dialog"]);
+const BOILERPLATE_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "menu", "menubar", "dialog"]);
+const BOILERPLATE_NAMES =
+  /(?:^|[\s_-])(?:nav|navbar|menu|sidebar|side-bar|footer|masthead|breadcrumbs?|comments?|share|sharing|social|ads?|advert\w*|sponsor\w*|promo\w*|banner|cookie\w*|consent|popup|modal|newsletter|subscribe|related|recommended|skip-link|toc)(?:$|[\s_-])/i;
+const CONTENT_NAMES = /article|content|main|post|entry|story|body|text|docs?|markdown/i;
+
+export function parseHtml(html: string): Document {
+  return parseDocument(html);
+}
+
+export function documentTitle(document: Document): string | undefined {
+  const title = findOne((element) => element.name === "title", document.children, true);
+  const text = title && textContent(title).replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+// The parts of a page matching a CSS selector; matches inside other matches are already part of those
+export function selectContent(document: Document, selector: string): Element[] {
+  const matches = selectAll(document.children, parseSelector(selector));
+  const matched = new Set<AnyNode>(matches);
+  return matches.filter((element) => {
+    for (let parent = element.parent; parent; parent = parent.parent) {
+      if (matched.has(parent)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+function isBoilerplate(element: Element): boolean {
+  if (BOILERPLATE_TAGS.has(element.name) || BOILERPLATE_ROLES.has(element.attribs.role ?? "")) {
+    return true;
+  }
+  if (element.attribs.hidden !== undefined || element.attribs["aria-hidden"] === "true") {
+    return true;
+  }
+  // A page-level header; headers inside an article carry its title
+  if (element.name === "header") {
+    for (let parent = element.parent; parent && isTag(parent); parent = parent.parent) {
+      if (parent.name === "article" || parent.name === "main") {
+        return false;
+      }
+    }
+    return true;
+  }
+  const names = `${element.attribs.class ?? ""} ${element.attribs.id ?? ""}`;
+  return BOILERPLATE_NAMES.test(names) && !CONTENT_NAMES.test(names) && element.name !== "body" && element.name !== "html";
+}
+
+function linkDensity(element: Element): number {
+  const length = textContent(element).length;
+  if (length === 0) {
+    return 0;
+  }
+  const linked = getElementsByTagName("a", element, true).reduce((sum, link) => sum + textContent(link).length, 0);
+  return linked / length;
+}
+
+/**
+ * Finds the element holding a page's main content, in the spirit of Mozilla's Readability: navigation, sidebars
+ * and other boilerplate are removed, then an explicit `<main>` or single `<article>` is used when there is one.
+ * Otherwise paragraphs score their parent and grandparent by length and commas, and the best scoring container,
+ * discounted by how much of its text is links, wins. Removes the boilerplate from `document` in place.
+ */
+export function extractMainContent(document: Document): Element | Document {
+  const unwanted: Element[] = [];
+  const collect = (nodes: AnyNode[]) => {
+    for (const node of nodes) {
+      if (isTag(node)) {
+        if (SKIPPED_TAGS.has(node.name) || isBoilerplate(node)) {
+          unwanted.push(node);
+        } else {
+          collect(node.children);
+        }
+      }
+    }
+  };
+  collect(document.children);
+  unwanted.forEach(removeElement);
+
+  const main =
+    findOne((element) => element.name === "main" || element.attribs.role === "main", document.children, true) ??
+    (() => {
+      const articles = getElementsByTagName("article", document, true);
+      return articles.length === 1 ? articles[0] : undefined;
+    })();
+  if (main && textContent(main).trim().length > 0) {
+    return main;
+  }
+
+  const scores = new Map<Element, number>();
+  for (const paragraph of getElementsByTagName((name) => name === "p" || name === "pre" || name === "td", document, true)) {
+    const text = textContent(paragraph).trim();
+    if (text.length < 25) {
+      continue;
+    }
+    const score = 1 + text.split(",").length + Math.min(3, Math.floor(text.length / 100));
+    const parent = paragraph.parent && isTag(paragraph.parent) ? paragraph.parent : undefined;
+    const grandparent = parent?.parent && isTag(parent.parent) ? parent.parent : undefined;
+    if (parent) {
+      scores.set(parent, (scores.get(parent) ?? 0) + score);
+    }
+    if (grandparent) {
+      scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+    }
+  }
+
+  let best: Element | undefined;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best ?? findOne((element) => element.name === "body", document.children, true) ?? document;
+}
+
+interface MarkdownContext {
+  // Links and images are resolved against it
+  baseUrl: string;
+}
+
+// Resolves links and image sources against the page URL; script and data URLs are dropped
+function absoluteUrl(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url || /^\s*(?:javascript|data|vbscript):/i.test(url)) {
+    return undefined;
+  }
+  try {
+    return new URL(url.trim(), baseUrl).href;
+  } catch (_e) {
+    return undefined;
+  }
+}
+
+function block(text: string): string {
+  const trimmed = text.replace(/^\n+|\s+$/g, "");
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function inline(nodes: AnyNode[], context: MarkdownContext): string {
+  return renderNodes(nodes, context).replace(/\s*\n\s*/g, " ").trim();
+}
+
+function wrapInline(marker: string, text: string): string {
+  const trimmed = text.trim();
+  return trimmed ? `${text.startsWith(" ") ? " " : ""}${marker}${trimmed}${marker}${text.endsWith(" ") ? " " : ""}` : text;
+}
+
+function renderList(element: Element, context: MarkdownContext): string {
+  const ordered = element.name === "ol";
+  let number = Number(element.attribs.start ?? 1);
+  const items = element.children.filter((child): child is Element => isTag(child) && child.name === "li");
+  return block(
+    items
+      .map((item) => {
+        const marker = ordered ? `${number++}. ` : "- ";
+        const content = renderNodes(item.children, context).trim().replace(/\n{3,}/g, "\n\n");
+        // Continuation lines and nested lists are indented under the marker
+        return `${marker}${content.replace(/\n/g, `\n${" ".repeat(marker.length)}`)}`;
+      })
+      .join("\n")
+  );
+}
+
+function renderTable(element: Element, context: MarkdownContext): string {
+  const rows = getElementsByTagName("tr", element, true).filter((row) => {
+    // Rows of nested tables belong to those tables
+    for (let parent = row.parent; parent && isTag(parent); parent = parent.parent) {
+      if (parent.name === "table") {
+        return parent === element;
+      }
+    }
+    return false;
+  });
+  const cells = rows.map((row) =>
+    row.children
+      .filter((cell): cell is Element => isTag(cell) && (cell.name === "td" || cell.name === "th"))
+      .map((cell) => inline(cell.children, context).replace(/\|/g, "\\|"))
+  );
+  const width = Math.max(0, ...cells.map((row) => row.length));
+  if (width === 0) {
+    return "";
+  }
+  const line = (row: string[]) => `| ${[...row, ...new Array(width - row.length).fill("")].join(" | ")} |`;
+  const [header, ...body] = cells;
+  return block([line(header), line(new Array(width).fill("---")), ...body.map(line)].join("\n"));
+}
+
+function renderElement(element: Element, context: MarkdownContext): string {
+  const name = element.name.toLowerCase();
+  if (SKIPPED_TAGS.has(name)) {
+    return "";
+  }
+  switch (name) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+      return block(`${"#".repeat(Number(name[1]))} ${inline(element.children, context)}`);
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "strong":
+    case "b":
+      return wrapInline("**", renderNodes(element.children, context));
+    case "em":
+    case "i":
+      return wrapInline("_", renderNodes(element.children, context));
+    case "del":
+    case "s":
+      return wrapInline("~~", renderNodes(element.children, context));
+    case "code":
+      return wrapInline("`", textContent(element).replace(/\s+/g, " "));
+    case "pre": {
+      const code = findOne((child) => child.name === "code", element.children, false);
+      const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(
+        `${code?.attribs.class ?? ""} ${element.attribs.class ?? ""}`
+      )?.[1];
+      const text = textContent(element).replace(/^\n|\n+$/g, "");
+      const fence = text.includes("```") ? "~~~" : "```";
+      return block(`${fence}${language ?? ""}\n${text}\n${fence}`);
+    }
+    case "a": {
+      const text = inline(element.children, context);
+      const href = absoluteUrl(element.attribs.href, context.baseUrl);
+      return text && href ? `[${text}](${href})` : text;
+    }
+    case "img": {
+      const src = absoluteUrl(element.attribs.src, context.baseUrl);
+      return src ? `![${(element.attribs.alt ?? "").replace(/\s+/g, " ").trim()}](${src})` : "";
+    }
+    case "ul":
+    case "ol":
+      return renderList(element, context);
+    case "li":
+      return block(`- ${inline(element.children, context)}`);
+    case "blockquote":
+      return block(
+        renderNodes(element.children, context)
+          .trim()
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")
+      );
+    case "table":
+      return renderTable(element, context);
+    case "dt":
+      return block(`**${inline(element.children, context)}**`);
+    case "p":
+    case "div":
+    case "section":
+    case "article":
+    case "main":
+    case "header":
+    case "footer":
+    case "figure":
+    case "figcaption":
+    case "address":
+    case "details":
+    case "summary":
+    case "dl":
+    case "dd":
+    case "tr":
+      return block(renderNodes(element.children, context));
+    default:
+      return renderNodes(element.children, context);
+  }
+}
+
+function renderNodes(nodes: AnyNode[], context: MarkdownContext): string {
+  return nodes
+    .map((node) => {
+      if (isText(node)) {
+        return node.data.replace(/\s+/g, " ");
+      }
+      return isTag(node) ? renderElement(node, context) : "";
+    })
+    .join("");
+}
+
+/**
+ * Converts HTML nodes to Markdown, keeping headings, emphasis, lists, code blocks, tables, and links and images
+ * with their URLs made absolute against `baseUrl`.
+ */
+export function htmlToMarkdown(nodes: AnyNode[], baseUrl: string): string {
+  let fence: string | undefined;
+  return renderNodes(nodes, { baseUrl })
+    .split("\n")
+    .map((line) => {
+      const marker = /^\s*(```|~~~)/.exec(line)?.[1];
+      if (marker && (fence === undefined || fence === marker)) {
+        fence = fence === undefined ? marker : undefined;
+      }
+      // Inline content following a block starts with the space that separated them in the HTML
+      return fence === undefined ? line.trimEnd().replace(/^ (?=\S)/, "") : line;
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Plain text without link targets or images; tables keep their columns
+export function htmlToText(nodes: AnyNode[]): string {
+  return convert(render(nodes), {
+    wordwrap: false,
+    selectors: [
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "img", format: "skip" },
+      { selector: "table", format: "dataTable" },
+    ],
+  });
+}
@@ -0,0 +1,232 @@
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { LookupFunction } from "net";
+import { createBrotliDecompress, createGunzip, createInflate } from "zlib";
+import { Readable } from "stream";
+import { acquireHostSlot, pauseHost } from "./host-limiter.js";
+import { resolveAllowedHost, ResolvedHost } from "./network-guard.js";
+import { errorCodeOf, ToolError } from "./tool-result.js";
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+  // Covers the whole request, redirects included, from when the first request to the host may start
+  timeout?: number;
+  maxRedirects?: number;
+  // When false, a redirect is returned as the response
+  followRedirects?: boolean;
+  // Reading stops once the decoded body reaches this size, and the response is marked truncated
+  maxBytes?: number;
+  // Runs before the request and every redirect, e.g. to check robots.txt; throwing stops the request
+  beforeRequest?: (url: URL) => Promise<void>;
+  // Headers for one request or redirect only, such as credentials for that host
+  headersFor?: (url: URL) => Record<string, string>;
+}
+
+export interface HttpResponse {
+  // The URL of the final response, after redirects
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: Buffer;
+  // Whether the body stopped at `maxBytes`
+  truncated: boolean;
+  // URLs redirected to, in order
+  redirects: string[];
+}
+
+const USER_AGENT = "yeeyeeass-tools/1.0";
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Credentials meant for one origin are not forwarded to another
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+// Connects to the address that was checked, whatever the name resolves to by now
+function pinnedLookup(host: ResolvedHost): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as (error: null, addresses: { address: string; family: number }[]) => void)(null, [
+        { address: host.address, family: host.family },
+      ]);
+    } else {
+      callback(null, host.address, host.family);
+    }
+  };
+}
+
+function decompressed(response: IncomingMessage): Readable {
+  switch (response.headers["content-encoding"]?.trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return response.pipe(createGunzip());
+    case "deflate":
+      return response.pipe(createInflate());
+    case "br":
+      return response.pipe(createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+function toHeaders(response: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(response.headers)) {
+    for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+      headers.append(name, item);
+    }
+  }
+  return headers;
+}
+
+function send(
+  url: URL,
+  host: ResolvedHost,
+  options: { method: string; headers: Record<string, string>; body?: string | Buffer; maxBytes: number },
+  signal: AbortSignal
+): Promise<Omit<HttpResponse, "redirects">> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url,
+      {
+        method: options.method,
+        headers: { "user-agent": USER_AGENT, "accept-encoding": "gzip, deflate, br", ...options.headers },
+        lookup: pinnedLookup(host),
+        signal,
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const body = decompressed(response);
+        const finish = (truncated: boolean) =>
+          resolve({
+            url: url.href,
+            status: response.statusCode ?? 0,
+            statusText: response.statusMessage ?? "",
+            headers: toHeaders(response),
+            body: Buffer.concat(chunks),
+            truncated,
+          });
+        body.on("data", (chunk: Buffer) => {
+          if (size + chunk.length > options.maxBytes) {
+            chunks.push(chunk.subarray(0, options.maxBytes - size));
+            // Nothing past the cap is read, however much the server would send
+            finish(true);
+            body.destroy();
+            request.destroy();
+            return;
+          }
+          chunks.push(chunk);
+          size += chunk.length;
+        });
+        body.on("error", reject);
+        body.on("end", () => finish(false));
+      }
+    );
+    request.on("error", reject);
+    request.end(options.body);
+  });
+}
+
+export function mediaTypeOf(contentType: string | null): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+export function isJsonType(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+// Decodes the body with the charset from Content-Type, falling back to UTF-8 for unknown ones
+export function decodeBody(response: HttpResponse): string {
+  const charset = /charset=["']?([\w.:-]+)/i.exec(response.headers.get("content-type") ?? "")?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(response.body);
+  } catch (_e) {
+    return response.body.toString("utf-8");
+  }
+}
+
+/**
+ * Makes an HTTP request without letting it reach internal addresses: the host of the URL and of every redirect
+ * is resolved and checked by `resolveAllowedHost`, and the connection goes to the checked address.
+ */
+export async function httpRequest(target: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+  const { timeout = 10000, maxRedirects = 5, followRedirects = true, maxBytes = Infinity } = options;
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | undefined;
+
+  let url = new URL(target);
+  let method = (options.method ?? "GET").toUpperCase();
+  let headers = { ...options.headers };
+  let body = options.body;
+  const redirects: string[] = [];
+
+  try {
+    while (true) {
+      const host = await resolveAllowedHost(url);
+      await options.beforeRequest?.(url);
+      let response: Omit<HttpResponse, "redirects">;
+      let release: (() => void) | undefined;
+      try {
+        // The timeout starts once the first request has its slot, so requests queued behind others to the same
+        // host are not timed out before they are sent; waiting for a redirect's slot counts towards it
+        release = await acquireHostSlot(url.host, controller.signal, timeout);
+        timeoutId ??= setTimeout(() => controller.abort(), timeout);
+        response = await send(
+          url,
+          host,
+          { method, headers: { ...headers, ...options.headersFor?.(url) }, body, maxBytes },
+          controller.signal
+        );
+      } catch (error) {
+        if (errorCodeOf(error) === "RATE_LIMITED") {
+          throw error;
+        }
+        if (controller.signal.aborted) {
+          throw new ToolError(`Request timed out after ${timeout}ms`, "TIMEOUT", { url: url.href });
+        }
+        throw new ToolError(error instanceof Error ? error.message : String(error), "NETWORK_ERROR", { url: url.href });
+      } finally {
+        release?.();
+      }
+
+      const retryAfter = response.headers.get("retry-after");
+      if ((response.status === 429 || response.status === 503) && retryAfter) {
+        pauseHost(url.host, retryAfter);
+      }
+
+      const location = response.headers.get("location");
+      if (!followRedirects || !REDIRECT_STATUSES.includes(response.status) || !location) {
+        return { ...response, redirects };
+      }
+      if (redirects.length >= maxRedirects) {
+        throw new ToolError(`Stopped after ${maxRedirects} redirects at ${url.href}`, "HTTP_ERROR", {
+          url: url.href,
+          status: response.status,
+          redirects,
+        });
+      }
+
+      const next = new URL(location, url);
+      if (next.origin !== url.origin) {
+        headers = Object.fromEntries(
+          Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+        );
+      }
+      // Like browsers, 303 and a POST answered with 301 or 302 continue as a GET without a body
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+        method = method === "HEAD" ? "HEAD" : "GET";
+        body = undefined;
+        headers = Object.fromEntries(
+          Object.entries(headers).filter(([name]) => !/^content-/i.test(name))
+        );
+      }
+      url = next;
+      redirects.push(url.href);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,206 @@
+import { readFileSync } from "fs";
+import { dirname, join, relative, resolve, sep } from "path";
+import ignore, { Ignore } from "ignore";
+import { CORE_EXCLUDES, DEFAULT_EXCLUDES, findFiles, patternBase } from "./file-discovery.js";
+import { isWithinRoot, workspaceRootOf } from "./workspace.js";
+
+// Ignore files specific to this server, for files agents should not see but git should
+export const PROJECT_IGNORE_FILE = ".yeeyeeassignore";
+
+// Per-directory ignore files, in increasing precedence (as in ripgrep, .ignore overrides .gitignore)
+export const IGNORE_FILES = [join(".git", "info", "exclude"), ".gitignore", ".ignore", PROJECT_IGNORE_FILE];
+
+export interface IgnoreMatch {
+  // The ignore file the rule comes from, or "default excludes"
+  source: string;
+  pattern: string;
+  // 1-based line of the rule in its ignore file
+  line?: number;
+}
+
+interface RuleSet {
+  source: string;
+  directory: string;
+  rules: Ignore;
+}
+
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+export interface IgnoredPath {
+  // The outermost excluded path: the file itself or the directory it is in
+  path: string;
+  match: IgnoreMatch;
+}
+
+/**
+ * Decides which paths below `root` are excluded by the ignore files (see IGNORE_FILES) of `root` and the
+ * directories in between, and by the default excludes, reporting the rule responsible.
+ * Where ignore files exist they decide; apart from CORE_EXCLUDES, the default excludes only apply to paths
+ * no ignore file covers, so a `build` directory that holds source is not skipped in a repository.
+ * Ignore files are read once per instance, so create one per tool call.
+ */
+export class IgnoreRules {
+  private ruleSets = new Map<string, RuleSet[]>();
+  private directoryMatches = new Map<string, IgnoreMatch | undefined>();
+  private defaults = ignore().add(DEFAULT_EXCLUDES);
+  private coreDefaults = ignore().add(CORE_EXCLUDES);
+
+  constructor(
+    private root: string,
+    private options: { useDefaultExcludes?: boolean; useIgnoreFiles?: boolean } = {}
+  ) {}
+
+  private ruleSetsOf(directory: string): RuleSet[] {
+    let sets = this.ruleSets.get(directory);
+    if (!sets) {
+      sets = [];
+      for (const name of IGNORE_FILES) {
+        const source = join(directory, name);
+        let text: string;
+        try {
+          text = readFileSync(source, "utf-8");
+        } catch (_e) {
+          continue;
+        }
+        const rules = ignore();
+        text.split(/\r?\n/).forEach((pattern, i) => {
+          if (pattern.trim() !== "" && !pattern.startsWith("#")) {
+            rules.add({ pattern, mark: String(i + 1) });
+          }
+        });
+        sets.push({ source, directory, rules });
+      }
+      this.ruleSets.set(directory, sets);
+    }
+    return sets;
+  }
+
+  // Returns the rule that excludes the path, or undefined when it is included
+  check(path: string, isDirectory: boolean): IgnoreMatch | undefined {
+    if (path === this.root || !isWithinRoot(path, this.root)) {
+      return undefined;
+    }
+    const rel = toPosix(relative(this.root, path));
+    const suffix = isDirectory ? "/" : "";
+
+    // Directories from the root down to the path's parent; deeper ignore files take precedence
+    const directories: string[] = [];
+    for (let directory = dirname(path); isWithinRoot(directory, this.root); directory = dirname(directory)) {
+      directories.unshift(directory);
+      if (directory === this.root) {
+        break;
+      }
+    }
+    const sets = this.options.useIgnoreFiles === false ? [] : directories.flatMap((directory) => this.ruleSetsOf(directory));
+
+    if (this.options.useDefaultExcludes !== false) {
+      const result = (sets.length > 0 ? this.coreDefaults : this.defaults).checkIgnore(rel + suffix);
+      if (result.ignored && result.rule) {
+        return { source: "default excludes", pattern: result.rule.pattern };
+      }
+    }
+
+    let match: IgnoreMatch | undefined;
+    for (const set of sets) {
+      const result = set.rules.checkIgnore(toPosix(relative(set.directory, path)) + suffix);
+      if (result.ignored && result.rule) {
+        match = { source: set.source, pattern: result.rule.pattern, line: Number(result.rule.mark) || undefined };
+      } else if (result.unignored) {
+        match = undefined;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Like check, but also finds paths inside an excluded directory. As in git, nothing below an excluded
+   * directory can be included again, so the outermost excluded path is reported.
+   */
+  findExclusion(path: string, isDirectory: boolean): IgnoredPath | undefined {
+    const ancestors: string[] = [];
+    for (let directory = dirname(path); directory !== this.root && isWithinRoot(directory, this.root); directory = dirname(directory)) {
+      ancestors.unshift(directory);
+    }
+    for (const directory of ancestors) {
+      if (!this.directoryMatches.has(directory)) {
+        this.directoryMatches.set(directory, this.check(directory, true));
+      }
+      const match = this.directoryMatches.get(directory);
+      if (match) {
+        return { path: directory, match };
+      }
+    }
+    const match = this.check(path, isDirectory);
+    return match && { path, match };
+  }
+}
+
+export function describeIgnoreMatch(match: IgnoreMatch): string {
+  return match.line !== undefined
+    ? `${match.source}:${match.line}: ${match.pattern}`
+    : `${match.source}: ${match.pattern}`;
+}
+
+export interface DiscoveryOptions {
+  // Glob patterns excluded in addition to the ignore rules
+  exclude?: string[];
+  useDefaultExcludes?: boolean;
+  useIgnoreFiles?: boolean;
+  cwd?: string;
+}
+
+/**
+ * Globs like findFiles, then drops the files that ignore rules exclude, reporting the rule for each.
+ * A pattern whose fixed part points into an excluded path opts back in to it: `out/*.js` and
+ * `src/api.generated.ts` still match when `out` and `*.generated.ts` are ignored, while `*.js` does not.
+ * Reported paths are the files; the rule may exclude a directory they are in.
+ */
+export async function discoverFiles(
+  patterns: string[],
+  options: DiscoveryOptions = {}
+): Promise<{ files: string[]; ignored: IgnoredPath[] }> {
+  const cwd = options.cwd ?? process.cwd();
+  const exclude = options.exclude ?? [];
+  const enabled = options.useDefaultExcludes !== false || options.useIgnoreFiles !== false;
+
+  // One rule set per workspace root; files outside the roots are left to the caller
+  const rulesByRoot = new Map<string, IgnoreRules>();
+  const findExclusion = (path: string, isDirectory: boolean): IgnoredPath | undefined => {
+    const root = enabled ? workspaceRootOf(path) : undefined;
+    if (!root) {
+      return undefined;
+    }
+    let rules = rulesByRoot.get(root);
+    if (!rules) {
+      rules = new IgnoreRules(root, options);
+      rulesByRoot.set(root, rules);
+    }
+    return rules.findExclusion(path, isDirectory);
+  };
+
+  const files = new Set<string>();
+  const ignored = new Map<string, IgnoredPath>();
+  for (const pattern of patterns) {
+    const base = patternBase(pattern);
+    const basePath = resolve(cwd, base);
+    const optedIn = base !== "" && findExclusion(basePath, base !== pattern) !== undefined;
+    // Core excludes are pruned while globbing, unless the pattern opts in to an excluded path
+    const pruned = options.useDefaultExcludes !== false && !optedIn ? CORE_EXCLUDES : [];
+
+    for (const file of await findFiles([pattern], [...pruned, ...exclude], cwd)) {
+      const exclusion = findExclusion(file, false);
+      if (exclusion && !isWithinRoot(basePath, exclusion.path)) {
+        ignored.set(file, { path: file, match: exclusion.match });
+      } else {
+        files.add(file);
+      }
+    }
+  }
+
+  return {
+    files: [...files],
+    ignored: [...ignored.values()].filter((entry) => !files.has(entry.path)),
+  };
+}
@@ -0,0 +1,266 @@
+import { open, stat } from "fs/promises";
+
+const CHUNK_SIZE = 64 * 1024;
+
+// A byte offset is remembered every this many lines, so later pages can seek instead of scanning
+const CHECKPOINT_INTERVAL = 1000;
+
+// Number of files whose line index is kept
+const MAX_CACHED_INDEXES = 32;
+
+interface LineIndex {
+  mtimeMs: number;
+  size: number;
+  totalLines: number;
+  // checkpoints[i] is the byte offset where line i * CHECKPOINT_INTERVAL starts
+  checkpoints: number[];
+}
+
+// Least recently used files last; an entry is only valid while the file's mtime and size are unchanged
+const lineIndexes = new Map<string, LineIndex>();
+
+export interface LineWindow {
+  lines: string[];
+  // 0-based number of the first line in `lines`; unknown for a tail whose lines were never counted
+  startLine?: number;
+  // Unknown when the tail of a file was read before its lines were ever counted
+  totalLines?: number;
+  // Lines cut off at the length cap
+  truncatedLines: number;
+}
+
+function getLineIndex(filePath: string, mtimeMs: number, size: number): LineIndex | undefined {
+  const index = lineIndexes.get(filePath);
+  if (!index || index.mtimeMs !== mtimeMs || index.size !== size) {
+    return undefined;
+  }
+  lineIndexes.delete(filePath);
+  lineIndexes.set(filePath, index);
+  return index;
+}
+
+function setLineIndex(filePath: string, index: LineIndex): void {
+  lineIndexes.delete(filePath);
+  lineIndexes.set(filePath, index);
+  if (lineIndexes.size > MAX_CACHED_INDEXES) {
+    lineIndexes.delete(lineIndexes.keys().next().value!);
+  }
+}
+
+// Collects one line's bytes, keeping only as many as the length cap can need
+class LineBuilder {
+  private parts: Buffer[] = [];
+  private bytes = 0;
+  private overflow = false;
+
+  constructor(
+    private maxLineLength: number,
+    private encoding: BufferEncoding
+  ) {}
+
+  append(part: Buffer): void {
+    // A UTF-8 character is at most 4 bytes, so this many bytes always cover maxLineLength characters
+    const room = this.maxLineLength * 4 - this.bytes;
+    if (part.length > room) {
+      this.overflow = true;
+    }
+    if (room > 0) {
+      const kept = part.subarray(0, room);
+      this.parts.push(kept);
+      this.bytes += kept.length;
+    }
+  }
+
+  finish(): { text: string; truncated: boolean } {
+    const decoded = Buffer.concat(this.parts).toString(this.encoding);
+    this.parts = [];
+    this.bytes = 0;
+    const truncated = this.overflow || decoded.length > this.maxLineLength;
+    this.overflow = false;
+    return { text: truncated ? decoded.slice(0, this.maxLineLength) : decoded, truncated };
+  }
+}
+
+/**
+ * Reads up to maxLines lines starting at the 0-based startLine without loading the file.
+ * The first read scans the whole file to count its lines and index it; later reads seek to the nearest checkpoint.
+ * Only for encodings whose line break is the single byte 0x0a, i.e. UTF-8 and Latin-1.
+ */
+export async function readLineWindow(
+  filePath: string,
+  startLine: number,
+  maxLines: number,
+  maxLineLength: number,
+  encoding: BufferEncoding = "utf-8"
+): Promise<LineWindow> {
+  const stats = await stat(filePath);
+  const index = getLineIndex(filePath, stats.mtimeMs, stats.size);
+  const checkpoint = index
+    ? Math.min(Math.floor(startLine / CHECKPOINT_INTERVAL), index.checkpoints.length - 1)
+    : 0;
+
+  let lineNumber = index ? checkpoint * CHECKPOINT_INTERVAL : 0;
+  let position = index ? index.checkpoints[checkpoint] : 0;
+  const checkpoints = [0];
+  const lines: string[] = [];
+  let truncatedLines = 0;
+  const builder = new LineBuilder(maxLineLength, encoding);
+  const endLine = startLine + maxLines;
+  const inWindow = () => lineNumber >= startLine && lineNumber < endLine;
+
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(CHUNK_SIZE);
+    while (true) {
+      const { bytesRead } = await handle.read(buffer, 0, CHUNK_SIZE, position);
+      if (bytesRead === 0) {
+        break;
+      }
+
+      const chunk = buffer.subarray(0, bytesRead);
+      let lineStart = 0;
+      let newline = chunk.indexOf(0x0a);
+      while (newline !== -1) {
+        if (inWindow()) {
+          builder.append(chunk.subarray(lineStart, newline));
+          const line = builder.finish();
+          lines.push(line.text);
+          truncatedLines += line.truncated ? 1 : 0;
+        }
+        lineNumber++;
+        lineStart = newline + 1;
+        if (!index && lineNumber % CHECKPOINT_INTERVAL === 0) {
+          checkpoints.push(position + lineStart);
+        }
+        newline = chunk.indexOf(0x0a, lineStart);
+      }
+      if (inWindow()) {
+        builder.append(chunk.subarray(lineStart));
+      }
+      position += bytesRead;
+
+      // With an index the line count is known, so reading can stop once the window is full
+      if (index && lineNumber >= endLine) {
+        break;
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  // The text after the last newline is a line too, even when empty, matching split("\n")
+  if (inWindow()) {
+    const line = builder.finish();
+    lines.push(line.text);
+    truncatedLines += line.truncated ? 1 : 0;
+  }
+
+  const totalLines = index ? index.totalLines : lineNumber + 1;
+  if (!index) {
+    setLineIndex(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, totalLines, checkpoints });
+  }
+
+  return { lines, startLine, totalLines, truncatedLines };
+}
+
+// Reads the last `count` lines by scanning backwards from the end of the file
+export async function readLastLines(
+  filePath: string,
+  count: number,
+  maxLineLength: number,
+  encoding: BufferEncoding = "utf-8"
+): Promise<LineWindow> {
+  const stats = await stat(filePath);
+  // Bounds the scan when the last lines are very long; the first of them is then cut off at the front
+  const maxBytes = count * (maxLineLength * 4 + 1);
+  const handle = await open(filePath, "r");
+  const chunks: Buffer[] = [];
+  let position = stats.size;
+  let newlines = 0;
+  let trailingNewline = false;
+  try {
+    // The empty line after a final newline does not count as one of the last lines
+    if (stats.size > 0) {
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, stats.size - 1);
+      trailingNewline = last[0] === 0x0a;
+      position -= trailingNewline ? 1 : 0;
+    }
+    const end = position;
+
+    // count lines are separated by count - 1 newlines; one more marks where the first of them starts
+    while (position > 0 && newlines < count && end - position < maxBytes) {
+      const length = Math.min(CHUNK_SIZE, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      for (const byte of chunk) {
+        newlines += byte === 0x0a ? 1 : 0;
+      }
+      chunks.unshift(chunk);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const tail = Buffer.concat(chunks);
+  const builder = new LineBuilder(maxLineLength, encoding);
+  const parsed: Array<{ text: string; truncated: boolean }> = [];
+  let lineStart = 0;
+  let newline = tail.indexOf(0x0a);
+  while (newline !== -1) {
+    builder.append(tail.subarray(lineStart, newline));
+    parsed.push(builder.finish());
+    lineStart = newline + 1;
+    newline = tail.indexOf(0x0a, lineStart);
+  }
+  builder.append(tail.subarray(lineStart));
+  parsed.push(builder.finish());
+
+  // The first part read may be the end of an earlier line; it is only kept when the scan hit its byte limit
+  const complete = position === 0 || parsed.length > count;
+  const window = parsed.slice(-count);
+  if (!complete) {
+    window[0].truncated = true;
+  }
+
+  const index = getLineIndex(filePath, stats.mtimeMs, stats.size);
+  const extraLine = trailingNewline ? 1 : 0;
+  const totalLines = index?.totalLines ?? (position === 0 ? parsed.length + extraLine : undefined);
+  return {
+    lines: window.map((line) => line.text),
+    startLine: totalLines !== undefined ? totalLines - extraLine - window.length : undefined,
+    totalLines,
+    truncatedLines: window.filter((line) => line.truncated).length,
+  };
+}
+
+function capLines(lines: string[], startLine: number, totalLines: number, maxLineLength: number): LineWindow {
+  const truncatedLines = lines.filter((line) => line.length > maxLineLength).length;
+  return { lines: lines.map((line) => line.slice(0, maxLineLength)), startLine, totalLines, truncatedLines };
+}
+
+// readLineWindow for text that was decoded in full, such as UTF-16 files
+export function textLineWindow(text: string, startLine: number, maxLines: number, maxLineLength: number): LineWindow {
+  const lines = text.split("\n");
+  return capLines(lines.slice(startLine, startLine + maxLines), startLine, lines.length, maxLineLength);
+}
+
+// readLastLines for text that was decoded in full
+export function textLastLines(text: string, count: number, maxLineLength: number): LineWindow {
+  const lines = text.split("\n");
+  const end = text.endsWith("\n") ? lines.length - 1 : lines.length;
+  const start = Math.max(0, end - count);
+  return capLines(lines.slice(start, end), start, lines.length, maxLineLength);
+}
+
+export async function readByteRange(filePath: string, start: number, length: number): Promise<Buffer> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,21 @@
+// Diagnostics go to stderr so they never mix with protocol messages on stdout in stdio mode
+function write(level: string, message: string, args: unknown[]): void {
+  console.error(`[${level}] ${message}`, ...args);
+}
+
+export const logger = {
+  debug(message: string, ...args: unknown[]): void {
+    if (process.env.DEBUG) {
+      write("debug", message, args);
+    }
+  },
+  info(message: string, ...args: unknown[]): void {
+    write("info", message, args);
+  },
+  warn(message: string, ...args: unknown[]): void {
+    write("warn", message, args);
+  },
+  error(message: string, ...args: unknown[]): void {
+    write("error", message, args);
+  },
+};
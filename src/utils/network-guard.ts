@@ -0,0 +1,179 @@
+import { BlockList, isIP } from "net";
+import { lookup } from "dns/promises";
+import { getConfig } from "../config.js";
+import { ToolError } from "./tool-result.js";
+
+// Loopback, private, link-local (cloud metadata), shared, multicast, documentation and other special-purpose ranges
+const BLOCKED_IPV4 = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.0.2.0/24",
+  "192.88.99.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "198.51.100.0/24",
+  "203.0.113.0/24",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+];
+
+const BLOCKED_IPV6 = [
+  "::/128",
+  "::1/128",
+  // IPv4-compatible addresses (deprecated)
+  "::/96",
+  "100::/64",
+  // IETF protocol assignments, Teredo included
+  "2001::/23",
+  "2001:db8::/32",
+  "fc00::/7",
+  "fe80::/10",
+  "fec0::/10",
+  "ff00::/8",
+];
+
+const blockList = new BlockList();
+for (const range of BLOCKED_IPV4) {
+  const [network, prefix] = range.split("/");
+  blockList.addSubnet(network, Number(prefix), "ipv4");
+}
+for (const range of BLOCKED_IPV6) {
+  const [network, prefix] = range.split("/");
+  blockList.addSubnet(network, Number(prefix), "ipv6");
+}
+
+export interface ResolvedHost {
+  hostname: string;
+  address: string;
+  family: 4 | 6;
+}
+
+// Expands an IPv6 address to its eight 16-bit groups
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  // A trailing dotted IPv4 part counts as the last two groups
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const octets = dotted[1].split(".").map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  return tail === undefined
+    ? headGroups
+    : [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+}
+
+/**
+ * The IPv4 address carried inside an IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96) or 6to4 (2002::/16)
+ * IPv6 address; these reach the IPv4 host, so they are checked as that host.
+ */
+function embeddedIpv4(address: string): string | undefined {
+  const groups = ipv6Groups(address);
+  const toIpv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return toIpv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return toIpv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) {
+    return toIpv4(groups[1], groups[2]);
+  }
+  return undefined;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return blockList.check(address, "ipv4");
+  }
+  if (family === 6) {
+    const ipv4 = embeddedIpv4(address);
+    return ipv4 !== undefined ? blockList.check(ipv4, "ipv4") : blockList.check(address.split("%")[0], "ipv6");
+  }
+  return true;
+}
+
+/**
+ * Whether a host pattern from the config matches: a host name ("docs.internal"), a wildcard for its subdomains
+ * ("*.corp.example.com"), or either with a port ("localhost:8080", "[::1]:8080") to match only that port.
+ */
+export function matchesHostPattern(pattern: string, url: URL): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  const match = /^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/.exec(pattern.trim().toLowerCase());
+  if (!match || (match[3] !== undefined && match[3] !== port)) {
+    return false;
+  }
+  const name = match[1] ?? match[2];
+  return name.startsWith("*.") ? host.endsWith(name.slice(1)) : host === name;
+}
+
+// Whether `network.allowlist` lets this host, or the address it resolved to, through
+function isAllowlisted(url: URL, address: string): boolean {
+  return getConfig().network.allowlist.some((entry) => {
+    const pattern = entry.toLowerCase();
+    if (pattern.includes("/")) {
+      const [network, prefix] = pattern.split("/");
+      const family = isIP(network);
+      if (family === 0 || isIP(address) !== family) {
+        return false;
+      }
+      const list = new BlockList();
+      list.addSubnet(network, Number(prefix), family === 4 ? "ipv4" : "ipv6");
+      return list.check(address, family === 4 ? "ipv4" : "ipv6");
+    }
+    if (isIP(pattern)) {
+      return pattern === address;
+    }
+    return matchesHostPattern(pattern, url);
+  });
+}
+
+/**
+ * Resolves the host of a URL and checks every address it resolves to, so that names pointing at internal
+ * services are caught as well as literal IPs. Requests must then connect to the returned address rather than
+ * resolving again, or the name could be re-pointed in between (DNS rebinding).
+ */
+export async function resolveAllowedHost(url: URL): Promise<ResolvedHost> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ToolError(`Only http and https URLs can be fetched: ${url.href}`, "BLOCKED_URL", { url: url.href });
+  }
+  // The URL parser already normalizes forms like http://2130706433/ and http://0x7f.1/ to dotted IPv4
+  const hostname = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+
+  let addresses: { address: string; family: number }[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      throw new ToolError(`Could not resolve host ${hostname}: ${(error as NodeJS.ErrnoException).code ?? error}`, "NETWORK_ERROR", {
+        url: url.href,
+      });
+    }
+  }
+
+  // A name resolving to both public and internal addresses is refused outright
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address) && !isAllowlisted(url, address));
+  if (blocked || addresses.length === 0) {
+    throw new ToolError(
+      `Fetching from private, loopback or reserved addresses is not allowed: ${hostname}${
+        blocked && blocked.address !== hostname ? ` resolves to ${blocked.address}` : ""
+      }`,
+      "BLOCKED_URL",
+      { url: url.href, address: blocked?.address },
+      ["Internal hosts can be allowed with `network.allowlist` in the server config."]
+    );
+  }
+  return { hostname, address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
@@ -0,0 +1,84 @@
+import { extname } from "path";
+
+export interface OutlineEntry {
+  // 1-based
+  line: number;
+  text: string;
+}
+
+const MARKDOWN_EXTENSIONS = [".md", ".mdx", ".markdown"];
+const DATA_EXTENSIONS = [".json", ".jsonc", ".yaml", ".yml", ".toml", ".ini", ".cfg"];
+
+// Declarations in common languages: JS/TS, Python, Go, Rust, Java/C#/Kotlin, C/C++, Ruby, PHP, shell
+const DECLARATION =
+  /^\s*(?:(?:export|default|declare|abstract|async|public|private|protected|internal|static|final|sealed|override|virtual|pub(?:\([^)]*\))?|unsafe|extern|inline)\s+)*(?:function\*?|class|interface|type|enum|namespace|module|def|fn|func|struct|trait|impl|mod|record|object|macro_rules!|template|typedef)\b/;
+// Only module-level variables; locals would drown out the structure
+const TOP_LEVEL_VARIABLE = /^(?:export\s+)?(?:const|let|var)\s/;
+// Method-like members such as `  async save(item: Item): Promise<void> {` or `  public int Count() {`
+const MEMBER = /^\s{1,8}(?:[\w<>[\],?]+\s+)*[A-Za-z_$][\w$]*\s*(?:<[^>]*>)?\s*\([^;]*\)\s*(?::\s*[^=;{]+)?\s*\{\s*$/;
+const SHELL_FUNCTION = /^\s*(?:function\s+)?[A-Za-z_][\w-]*\s*\(\)\s*\{/;
+const CONTROL_FLOW = /^\s*(?:if|else|for|while|switch|catch|return|do|try|with|elif|except|case|match)\b/;
+
+function outlineMarkdown(lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^#{1,6}\s/.test(line)) {
+      entries.push({ line: i + 1, text: line.trim() });
+    }
+  });
+  return entries;
+}
+
+// Keys of the top two nesting levels
+function outlineData(lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  lines.forEach((line, i) => {
+    if (/^(?: {0,4}|\t{0,2})(?:"[^"]+"|'[^']+'|[\w.-]+)\s*[:=]/.test(line) || /^\s{0,2}\[[^\]]+\]\s*$/.test(line)) {
+      entries.push({ line: i + 1, text: line.trimEnd() });
+    }
+  });
+  return entries;
+}
+
+function outlineCode(lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  lines.forEach((line, i) => {
+    if (CONTROL_FLOW.test(line)) {
+      return;
+    }
+    if (DECLARATION.test(line) || TOP_LEVEL_VARIABLE.test(line) || SHELL_FUNCTION.test(line) || MEMBER.test(line)) {
+      // Keep the signature, not the body that may follow on the same line
+      entries.push({ line: i + 1, text: line.trimEnd().replace(/\s*\{\s*$/, "").replace(/\s*=>\s*\{?\s*$/, " =>") });
+    }
+  });
+  return entries;
+}
+
+/**
+ * Summarizes a text file by the lines that give its structure: headings for Markdown, top-level keys for data
+ * files and declarations and signatures for code. Falls back to the first lines when nothing is recognized.
+ */
+export function outlineText(text: string, filePath: string, maxEntries: number = 200): OutlineEntry[] {
+  const lines = text.split(/\r?\n/);
+  const extension = extname(filePath).toLowerCase();
+  const entries = MARKDOWN_EXTENSIONS.includes(extension)
+    ? outlineMarkdown(lines)
+    : DATA_EXTENSIONS.includes(extension)
+      ? outlineData(lines)
+      : outlineCode(lines);
+  const result =
+    entries.length > 0 ? entries : lines.slice(0, 20).map((line, i) => ({ line: i + 1, text: line.trimEnd() }));
+  return result.slice(0, maxEntries).map((entry) => ({
+    line: entry.line,
+    text: entry.text.length > 200 ? `${entry.text.slice(0, 200)}...` : entry.text,
+  }));
+}
+
+// One entry per line, e.g. " 42: export function load()"
+export function formatOutline(entries: OutlineEntry[], prefix: string = ""): string {
+  const width = String(entries.at(-1)?.line ?? 0).length;
+  return entries.map((entry) => `${prefix}${String(entry.line).padStart(width)}: ${entry.text}`).join("\n");
+}
@@ -0,0 +1,163 @@
+import { httpRequest } from "./http-client.js";
+import { errorCodeOf, ToolError } from "./tool-result.js";
+
+// The product token sites can address in robots.txt
+export const ROBOTS_USER_AGENT = "yeeyeeass-tools";
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsEntry {
+  rules: RobotsRule[];
+  // Why every path is disallowed, when robots.txt could not be read
+  unreachable?: string;
+  expires: number;
+}
+
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const UNREACHABLE_TTL_MS = 5 * 60 * 1000;
+// Content past this is ignored, as RFC 9309 allows
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+// Holds the request while it is in flight too, so concurrent fetches from an origin share one robots.txt request
+const robotsCache = new Map<string, { entry: Promise<RobotsEntry>; expires: number }>();
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parses robots.txt into the rules of the groups addressing `userAgent`, or of the `*` groups when none does
+ * (RFC 9309). Consecutive user-agent lines share the rules that follow them.
+ */
+export function parseRobots(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRule[] {
+  const specific: RobotsRule[] = [];
+  const wildcard: RobotsRule[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+  let matchesSpecific = false;
+  let matchesWildcard = false;
+
+  for (const rawLine of text.split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+      matchesSpecific = agents.includes(userAgent.toLowerCase());
+      matchesWildcard = agents.includes("*");
+    } else if (field === "allow" || field === "disallow") {
+      inRules = true;
+      // An empty Disallow allows everything, which is the same as having no rule
+      if (!value) {
+        continue;
+      }
+      const rule = { allow: field === "allow", pattern: value, regex: toRegex(value) };
+      if (matchesSpecific) {
+        specific.push(rule);
+      } else if (matchesWildcard) {
+        wildcard.push(rule);
+      }
+    }
+  }
+  return specific.length > 0 ? specific : wildcard;
+}
+
+// The longest matching rule decides; Allow wins a tie
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (rule.regex.test(path)) {
+      if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+  }
+  return best?.allow ?? true;
+}
+
+async function loadRobots(origin: string, timeout: number): Promise<RobotsEntry> {
+  const now = Date.now();
+  try {
+    const response = await httpRequest(`${origin}/robots.txt`, { timeout, maxBytes: MAX_ROBOTS_BYTES });
+    if (response.status >= 200 && response.status < 300) {
+      const text = response.body.toString("utf-8");
+      return { rules: parseRobots(text), expires: now + ROBOTS_TTL_MS };
+    }
+    // A missing robots.txt allows everything; a server error means the site may not want to be crawled
+    if (response.status < 500) {
+      return { rules: [], expires: now + ROBOTS_TTL_MS };
+    }
+    return { rules: [], unreachable: `status ${response.status}`, expires: now + UNREACHABLE_TTL_MS };
+  } catch (error) {
+    if (errorCodeOf(error) === "BLOCKED_URL") {
+      throw error;
+    }
+    return {
+      rules: [],
+      unreachable: error instanceof Error ? error.message : String(error),
+      expires: now + UNREACHABLE_TTL_MS,
+    };
+  }
+}
+
+function cachedRobots(origin: string, timeout: number): Promise<RobotsEntry> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expires > Date.now()) {
+    return cached.entry;
+  }
+  const pending = { entry: loadRobots(origin, timeout), expires: Infinity };
+  robotsCache.set(origin, pending);
+  pending.entry.then(
+    (entry) => {
+      pending.expires = entry.expires;
+    },
+    () => {
+      if (robotsCache.get(origin) === pending) {
+        robotsCache.delete(origin);
+      }
+    }
+  );
+  return pending.entry;
+}
+
+// Fails with ROBOTS_DISALLOWED when the site's robots.txt does not let this server fetch `url`
+export async function assertAllowedByRobots(url: URL, timeout: number): Promise<void> {
+  const path = `${url.pathname}${url.search}`;
+  if (path === "/robots.txt") {
+    return;
+  }
+
+  const entry = await cachedRobots(url.origin, timeout);
+
+  if (entry.unreachable) {
+    throw new ToolError(
+      `${url.origin}/robots.txt could not be read (${entry.unreachable}), so the site is treated as disallowing all fetches.`,
+      "ROBOTS_DISALLOWED",
+      { url: url.href },
+      ["The server can be set to ignore robots.txt with `network.respectRobotsTxt: false`."]
+    );
+  }
+  if (!isPathAllowed(entry.rules, path)) {
+    throw new ToolError(`${url.origin}/robots.txt disallows fetching ${path}.`, "ROBOTS_DISALLOWED", { url: url.href }, [
+      "The server can be set to ignore robots.txt with `network.respectRobotsTxt: false`.",
+    ]);
+  }
+}
@@ -0,0 +1,203 @@
+import { execFileSync, spawn, ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import { readlinkSync } from "fs";
+import { platform } from "os";
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface OutputChunk {
+  stream: OutputStream;
+  text: string;
+}
+
+// Output kept per shell session between reads; older output is dropped once exceeded
+const MAX_BUFFERED_CHARS = 1_000_000;
+
+export class ShellSession extends EventEmitter {
+  readonly startedAt = new Date();
+  exitCode: number | null = null;
+  signal: NodeJS.Signals | null = null;
+  exited = false;
+  droppedChars = 0;
+  // Input written without a trailing newline, held back until the line is complete
+  pendingInput = "";
+
+  private child: ChildProcess;
+  private pending: OutputChunk[] = [];
+  private pendingChars = 0;
+
+  constructor(
+    public readonly id: string,
+    public readonly cwd: string,
+    public readonly description?: string
+  ) {
+    super();
+
+    const isWindows = platform() === "win32";
+    // A long-lived shell reading commands from stdin keeps cwd and env between writes
+    this.child = spawn(isWindows ? "cmd.exe" : "bash", isWindows ? ["/Q"] : [], {
+      cwd,
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: false,
+      detached: !isWindows,
+    });
+
+    this.child.stdout?.on("data", (data) => this.push("stdout", data.toString()));
+    this.child.stderr?.on("data", (data) => this.push("stderr", data.toString()));
+    this.child.on("error", (error) => this.push("stderr", `${error.message}\n`));
+    this.child.on("close", (exitCode, signal) => {
+      this.exited = true;
+      this.exitCode = exitCode;
+      this.signal = signal;
+      this.emit("exit");
+    });
+  }
+
+  get pid(): number | undefined {
+    return this.child.pid;
+  }
+
+  // The shell's directory after any `cd`; the one it started in where the platform does not expose it
+  get currentDirectory(): string {
+    const pid = this.child.pid;
+    if (pid === undefined || this.exited) {
+      return this.cwd;
+    }
+    try {
+      if (platform() === "linux") {
+        return readlinkSync(`/proc/${pid}/cwd`);
+      }
+      if (platform() === "darwin") {
+        const output = execFileSync("lsof", ["-a", "-p", String(pid), "-d", "cwd", "-Fn"], {
+          encoding: "utf-8",
+          timeout: 2000,
+        });
+        const name = output.split("\n").find((line) => line.startsWith("n"));
+        if (name) {
+          return name.slice(1);
+        }
+      }
+    } catch (_e) {
+      // The shell exited in the meantime
+    }
+    return this.cwd;
+  }
+
+  write(input: string): void {
+    if (this.exited || !this.child.stdin?.writable) {
+      throw new Error(`Shell session ${this.id} has exited.`);
+    }
+    this.child.stdin.write(input);
+  }
+
+  // Returns everything written since the previous read
+  read(): OutputChunk[] {
+    const chunks = this.pending;
+    this.pending = [];
+    this.pendingChars = 0;
+    return chunks;
+  }
+
+  kill(signal: NodeJS.Signals = "SIGTERM"): void {
+    if (this.exited) {
+      return;
+    }
+    try {
+      // Signal the whole process group so children such as dev servers go down too
+      if (this.child.pid && platform() !== "win32") {
+        process.kill(-this.child.pid, signal);
+      } else {
+        this.child.kill(signal);
+      }
+    } catch (_e) {
+      this.child.kill(signal);
+    }
+  }
+
+  private push(stream: OutputStream, text: string): void {
+    const last = this.pending[this.pending.length - 1];
+    if (last && last.stream === stream) {
+      last.text += text;
+    } else {
+      this.pending.push({ stream, text });
+    }
+    this.pendingChars += text.length;
+
+    while (this.pendingChars > MAX_BUFFERED_CHARS && this.pending.length > 0) {
+      const overflow = this.pendingChars - MAX_BUFFERED_CHARS;
+      const first = this.pending[0];
+      if (first.text.length <= overflow) {
+        this.pending.shift();
+        this.pendingChars -= first.text.length;
+        this.droppedChars += first.text.length;
+      } else {
+        first.text = first.text.slice(overflow);
+        this.pendingChars -= overflow;
+        this.droppedChars += overflow;
+      }
+    }
+
+    this.emit("output", { stream, text });
+  }
+}
+
+// Shell sessions grouped by MCP session so IDs stay stable for the lifetime of a client connection
+const sessionsByClient = new Map<string, { nextId: number; shells: Map<string, ShellSession> }>();
+
+function clientKey(mcpSessionId: string | undefined): string {
+  return mcpSessionId ?? "default";
+}
+
+export function startShellSession(
+  mcpSessionId: string | undefined,
+  cwd: string,
+  description?: string
+): ShellSession {
+  const key = clientKey(mcpSessionId);
+  let client = sessionsByClient.get(key);
+  if (!client) {
+    client = { nextId: 1, shells: new Map() };
+    sessionsByClient.set(key, client);
+  }
+
+  const id = `shell-${client.nextId++}`;
+  const shell = new ShellSession(id, cwd, description);
+  client.shells.set(id, shell);
+  return shell;
+}
+
+export function getShellSession(
+  mcpSessionId: string | undefined,
+  id: string
+): ShellSession | undefined {
+  return sessionsByClient.get(clientKey(mcpSessionId))?.shells.get(id);
+}
+
+export function listShellSessions(mcpSessionId: string | undefined): ShellSession[] {
+  return [...(sessionsByClient.get(clientKey(mcpSessionId))?.shells.values() ?? [])];
+}
+
+export function removeShellSession(mcpSessionId: string | undefined, id: string): void {
+  sessionsByClient.get(clientKey(mcpSessionId))?.shells.delete(id);
+}
+
+export function closeShellSessions(mcpSessionId: string | undefined): void {
+  const key = clientKey(mcpSessionId);
+  const client = sessionsByClient.get(key);
+  if (!client) {
+    return;
+  }
+  for (const shell of client.shells.values()) {
+    shell.kill("SIGKILL");
+  }
+  sessionsByClient.delete(key);
+}
+
+// Detached process groups would otherwise outlive the server
+process.on("exit", () => {
+  for (const client of sessionsByClient.values()) {
+    for (const shell of client.shells.values()) {
+      shell.kill("SIGKILL");
+    }
+  }
+});
@@ -0,0 +1,253 @@
+import { closeSync, openSync, readFileSync, readSync, statSync } from "fs";
+import { ToolError } from "./tool-result.js";
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+export type LineEndings = "lf" | "crlf" | "mixed";
+
+export const TEXT_ENCODINGS: [TextEncoding, ...TextEncoding[]] = ["utf-8", "utf-16le", "utf-16be", "latin1"];
+
+export interface TextFormat {
+  encoding: TextEncoding;
+  bom: boolean;
+  // Undefined when the text has no line breaks
+  lineEndings?: LineEndings;
+}
+
+const BOMS: Array<{ encoding: TextEncoding; bytes: number[] }> = [
+  { encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: "utf-16le", bytes: [0xff, 0xfe] },
+  { encoding: "utf-16be", bytes: [0xfe, 0xff] },
+];
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+function bomOf(buffer: Buffer): TextEncoding | undefined {
+  return BOMS.find(({ bytes }) => buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte))
+    ?.encoding;
+}
+
+// UTF-16 without a BOM: mostly ASCII text has a zero in every other byte
+function utf16WithoutBom(buffer: Buffer): TextEncoding | undefined {
+  const pairs = Math.floor(Math.min(buffer.length, 4096) / 2);
+  if (pairs < 2) {
+    return undefined;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    evenZeros += buffer[i] === 0 ? 1 : 0;
+    oddZeros += buffer[i + 1] === 0 ? 1 : 0;
+  }
+  if (oddZeros >= pairs * 0.4 && evenZeros === 0) {
+    return "utf-16le";
+  }
+  if (evenZeros >= pairs * 0.4 && oddZeros === 0) {
+    return "utf-16be";
+  }
+  return undefined;
+}
+
+// Whether the buffer starts like UTF-16 text, which would otherwise look binary because of its zero bytes
+export function isUtf16Text(buffer: Buffer): boolean {
+  const encoding = bomOf(buffer) ?? utf16WithoutBom(buffer);
+  return encoding === "utf-16le" || encoding === "utf-16be";
+}
+
+function isValidUtf8(buffer: Buffer, complete: boolean): boolean {
+  try {
+    // In streaming mode a character cut off at the end of a partial buffer is not an error
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer, { stream: !complete });
+    return true;
+  } catch (_e) {
+    return false;
+  }
+}
+
+/**
+ * Detects the encoding from a BOM, the zero bytes of UTF-16 or whether the bytes are valid UTF-8, falling back to Latin-1.
+ * `complete` is false when only the start of the file was read.
+ */
+export function detectTextFormat(buffer: Buffer, complete: boolean = true): TextFormat {
+  const bomEncoding = bomOf(buffer);
+  const encoding =
+    bomEncoding ?? utf16WithoutBom(buffer) ?? (isValidUtf8(buffer, complete) ? "utf-8" : "latin1");
+  return { encoding, bom: bomEncoding !== undefined, lineEndings: detectLineEndings(decodeBytes(buffer, encoding)) };
+}
+
+export interface ScannedText {
+  format: TextFormat;
+  // False when a file with a BOM or in UTF-16 has bytes its encoding cannot decode
+  valid: boolean;
+}
+
+// Even, so UTF-16 code units never straddle two chunks
+const SCAN_CHUNK_SIZE = 64 * 1024;
+
+// Number of files whose scan is kept, so paging through a file does not read all of it every time
+const MAX_CACHED_SCANS = 32;
+
+const scans = new Map<string, { mtimeMs: number; size: number; scan: ScannedText }>();
+
+function lineEndingsOf(newlines: number, crlf: number): LineEndings | undefined {
+  return newlines === 0 ? undefined : crlf === 0 ? "lf" : crlf === newlines ? "crlf" : "mixed";
+}
+
+/**
+ * detectTextFormat for all of a file rather than its start, read in chunks so it need not fit in memory. A file
+ * without a BOM is only UTF-8 when every byte is, and the line endings are counted over the whole file, so a
+ * rewrite does not convert line breaks that only appear further down.
+ */
+export function scanTextFile(filePath: string): ScannedText {
+  const stats = statSync(filePath);
+  const cached = scans.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.scan;
+  }
+
+  const buffer = Buffer.alloc(SCAN_CHUNK_SIZE);
+  const fd = openSync(filePath, "r");
+  let encoding: TextEncoding | undefined;
+  let bom = false;
+  let decoder: TextDecoder | undefined;
+  let valid = true;
+  let newlines = 0;
+  let crlf = 0;
+  let previousUnit = -1;
+  try {
+    for (let position = 0; ; ) {
+      const bytesRead = readSync(fd, buffer, 0, SCAN_CHUNK_SIZE, position);
+      const chunk = buffer.subarray(0, bytesRead);
+      if (encoding === undefined) {
+        const bomEncoding = bomOf(chunk);
+        bom = bomEncoding !== undefined;
+        encoding = bomEncoding ?? utf16WithoutBom(chunk) ?? "utf-8";
+        decoder = new TextDecoder(encoding, { fatal: true, ignoreBOM: true });
+      }
+      try {
+        // An empty final read flushes a character cut off at the end of the file
+        decoder?.decode(chunk, { stream: bytesRead > 0 });
+      } catch (_e) {
+        decoder = undefined;
+        valid = false;
+      }
+      if (bytesRead === 0) {
+        break;
+      }
+
+      const unitSize = encoding === "utf-16le" || encoding === "utf-16be" ? 2 : 1;
+      for (let i = 0; i + unitSize <= chunk.length; i += unitSize) {
+        const unit = unitSize === 1 ? chunk[i] : encoding === "utf-16le" ? chunk.readUInt16LE(i) : chunk.readUInt16BE(i);
+        if (unit === 0x0a) {
+          newlines++;
+          crlf += previousUnit === 0x0d ? 1 : 0;
+        }
+        previousUnit = unit;
+      }
+      position += bytesRead;
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  // Without a BOM, bytes that are not UTF-8 mean Latin-1, which decodes anything
+  if (!valid && !bom && encoding === "utf-8") {
+    encoding = "latin1";
+    valid = true;
+  }
+  const scan = { format: { encoding: encoding ?? "utf-8", bom, lineEndings: lineEndingsOf(newlines, crlf) }, valid };
+  scans.delete(filePath);
+  scans.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, scan });
+  if (scans.size > MAX_CACHED_SCANS) {
+    scans.delete(scans.keys().next().value!);
+  }
+  return scan;
+}
+
+export function detectLineEndings(text: string): LineEndings | undefined {
+  const newlines = text.split("\n").length - 1;
+  if (newlines === 0) {
+    return undefined;
+  }
+  return lineEndingsOf(newlines, text.split("\r\n").length - 1);
+}
+
+// Decodes without checks, for previews and byte ranges that may start or end inside a character
+export function decodeBytes(buffer: Buffer, encoding: TextEncoding): string {
+  switch (encoding) {
+    case "utf-16be":
+      return Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2))).swap16().toString("utf16le");
+    case "utf-16le":
+      return buffer.toString("utf16le");
+    case "latin1":
+      return buffer.toString("latin1");
+    default:
+      return buffer.toString("utf-8");
+  }
+}
+
+/**
+ * Decodes text without its BOM; bytes that are not valid in the encoding are refused rather than replaced.
+ * `complete` is false for the start of a file, whose last character may be cut off.
+ */
+export function decodeText(buffer: Buffer, format: TextFormat, filePath?: string, complete: boolean = true): string {
+  const content = format.bom ? buffer.subarray(BOMS.find((bom) => bom.encoding === format.encoding)!.bytes.length) : buffer;
+  if (format.encoding === "latin1") {
+    return content.toString("latin1");
+  }
+  try {
+    return new TextDecoder(format.encoding, { fatal: true, ignoreBOM: true }).decode(content, { stream: !complete });
+  } catch (_e) {
+    throw new ToolError(
+      `File is not valid ${format.encoding} and cannot be decoded without losing data.`,
+      "ENCODING_ERROR",
+      { path: filePath, encoding: format.encoding }
+    );
+  }
+}
+
+export function readTextFile(filePath: string): { text: string; format: TextFormat } {
+  const buffer = readFileSync(filePath);
+  const format = detectTextFormat(buffer);
+  return { text: decodeText(buffer, format, filePath), format };
+}
+
+// Encodes text in the given format, converting its line breaks when the format has uniform line endings
+export function encodeText(text: string, format: TextFormat): Buffer {
+  let content = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  if (format.lineEndings === "lf" || format.lineEndings === "crlf") {
+    content = content.replace(/\r?\n/g, format.lineEndings === "crlf" ? "\r\n" : "\n");
+  }
+
+  if (LONE_SURROGATE.test(content)) {
+    throw new ToolError("Content contains an unpaired UTF-16 surrogate and cannot be encoded.", "ENCODING_ERROR", {
+      encoding: format.encoding,
+    });
+  }
+
+  let encoded: Buffer;
+  switch (format.encoding) {
+    case "latin1": {
+      const unsupported = content.match(/[^\u0000-\u00FF]/u);
+      if (unsupported) {
+        throw new ToolError(
+          `Content contains '${unsupported[0]}', which cannot be encoded as latin1. Pass encoding: "utf-8" to convert the file.`,
+          "ENCODING_ERROR",
+          { encoding: format.encoding }
+        );
+      }
+      encoded = Buffer.from(content, "latin1");
+      break;
+    }
+    case "utf-16le":
+      encoded = Buffer.from(content, "utf16le");
+      break;
+    case "utf-16be":
+      encoded = Buffer.from(content, "utf16le").swap16();
+      break;
+    default:
+      encoded = Buffer.from(content, "utf-8");
+  }
+
+  const bom = BOMS.find((candidate) => candidate.encoding === format.encoding);
+  return format.bom && bom ? Buffer.concat([Buffer.from(bom.bytes), encoded]) : encoded;
+}
@@ -0,0 +1,31 @@
+/**
+ * Estimates how many tokens text takes up in a model's context, without a model-specific vocabulary.
+ * Modeled on BPE tokenizers: common words are one token, long words and numbers split into a few,
+ * punctuation pairs up and non-Latin characters are mostly one each, and a single space merges into the next word.
+ * Meant for budgeting output, not for exact counts.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [run] of text.matchAll(/[A-Za-z]+|[0-9]+|[ \t]+|\r?\n|[\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]+|[^\x00-\x7f]/g)) {
+    const first = run.charCodeAt(0);
+    if (first === 0x20 || first === 0x09) {
+      // A lone space joins the following word; indentation takes about one token per 4 columns
+      tokens += run.length === 1 ? 0 : Math.ceil(run.length / 4);
+    } else if (first === 0x0a || first === 0x0d) {
+      tokens += 1;
+    } else if (/[A-Za-z]/.test(run[0])) {
+      tokens += Math.ceil(run.length / 6);
+    } else if (/[0-9]/.test(run[0])) {
+      tokens += Math.ceil(run.length / 3);
+    } else if (first < 0x80) {
+      // Runs of punctuation such as `});` or `=>` often merge
+      tokens += Math.ceil(run.length / 2);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+// Images are scaled to about 1.15 megapixels before a model sees them, at roughly 750 pixels per token
+export const IMAGE_TOKEN_ESTIMATE = 1600;
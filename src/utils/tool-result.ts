@@ -0,0 +1,107 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Stable codes for failed tool calls, returned as `structuredContent.error.code` next to `isError: true`.
+ * Filesystem errors keep their errno names so agents can branch on them without parsing messages.
+ */
+export type ErrorCode =
+  // Filesystem
+  | "ENOENT"
+  | "EACCES"
+  | "EEXIST"
+  | "EISDIR"
+  | "ENOTDIR"
+  | "ENOTEMPTY"
+  | "FILE_TOO_LARGE"
+  | "FILE_NOT_READ"
+  | "FILE_CHANGED"
+  | "ENCODING_ERROR"
+  // Workspace roots
+  | "OUTSIDE_WORKSPACE"
+  | "INVALID_PATH"
+  // Command policy
+  | "POLICY_DENIED"
+  | "POLICY_PARSE_ERROR"
+  // Requests
+  | "INVALID_ARGUMENT"
+  | "NO_MATCH"
+  | "AMBIGUOUS_MATCH"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "TIMEOUT"
+  // Git
+  | "NOT_A_REPOSITORY"
+  | "NOTHING_TO_COMMIT"
+  | "GIT_ERROR"
+  // Network
+  | "BLOCKED_URL"
+  | "HTTP_ERROR"
+  | "INVALID_CONTENT"
+  | "RESPONSE_TOO_LARGE"
+  | "ROBOTS_DISALLOWED"
+  | "RATE_LIMITED"
+  | "NETWORK_ERROR"
+  | "UNKNOWN";
+
+const ERRNO_CODES: Record<string, ErrorCode> = {
+  ENOENT: "ENOENT",
+  EACCES: "EACCES",
+  EPERM: "EACCES",
+  EEXIST: "EEXIST",
+  EISDIR: "EISDIR",
+  ENOTDIR: "ENOTDIR",
+  ENOTEMPTY: "ENOTEMPTY",
+  ETIMEDOUT: "TIMEOUT",
+};
+
+// An error whose code and details are reported to the client as they are
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCode,
+    public readonly details: Record<string, unknown> = {},
+    // Extra lines for the text content, e.g. the allowed workspace roots
+    public readonly notes: string[] = []
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+export function errorCodeOf(error: unknown): ErrorCode {
+  if (error instanceof ToolError) {
+    return error.code;
+  }
+  if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+    return "TIMEOUT";
+  }
+  const errno = (error as NodeJS.ErrnoException | undefined)?.code;
+  return (typeof errno === "string" && ERRNO_CODES[errno]) || "UNKNOWN";
+}
+
+export function errorResult(
+  code: ErrorCode,
+  message: string,
+  details: Record<string, unknown> = {},
+  notes: string[] = []
+): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: [`Error: ${message}`, `Code: ${code}`, ...notes].join("\n"),
+      },
+    ],
+    structuredContent: { error: { code, message, ...details } },
+    isError: true,
+  };
+}
+
+// Turns anything a tool threw into an error result; `context` prefixes messages of unexpected errors
+export function exceptionResult(error: unknown, context?: string): CallToolResult {
+  if (error instanceof ToolError) {
+    return errorResult(error.code, error.message, error.details, error.notes);
+  }
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return errorResult(errorCodeOf(error), context ? `${context}: ${message}` : message);
+}
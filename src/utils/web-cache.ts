@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { mkdirSync, readdirSync, readFileSync, rmSync, statSync, utimesSync } from "fs";
+import { join } from "path";
+import { getConfig } from "../config.js";
+import { writeFileAtomic } from "./atomic-write.js";
+
+// A fetched page after conversion, with what is needed to decide when and how to fetch it again
+export interface CachedPage {
+  finalUrl: string;
+  redirects: string[];
+  status: number;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  // Served without asking the server until then
+  freshUntil: number;
+  format: string;
+  title?: string;
+  text: string;
+}
+
+// Longest lifetime guessed from Last-Modified when the server gives none
+const MAX_HEURISTIC_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// Entries are keyed by the URL and whatever else changes the converted text
+export function cacheKey(parts: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+function entryPath(key: string): string {
+  return join(getConfig().network.cache.directory, `${key}.json`);
+}
+
+export function readCachedPage(key: string): CachedPage | undefined {
+  if (!getConfig().network.cache.enabled) {
+    return undefined;
+  }
+  const path = entryPath(key);
+  try {
+    const page = JSON.parse(readFileSync(path, "utf-8")) as CachedPage;
+    // The modification time doubles as the last use, for eviction
+    const now = new Date();
+    utimesSync(path, now, now);
+    return page;
+  } catch (_e) {
+    return undefined;
+  }
+}
+
+// Drops the least recently used entries until the cache fits in `maxBytes`
+function evict(directory: string, maxBytes: number): void {
+  const entries = readdirSync(directory)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => {
+      const path = join(directory, name);
+      const stat = statSync(path);
+      return { path, size: stat.size, usedAt: stat.mtimeMs };
+    })
+    .sort((a, b) => a.usedAt - b.usedAt);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= maxBytes) {
+      break;
+    }
+    rmSync(entry.path, { force: true });
+    total -= entry.size;
+  }
+}
+
+export function writeCachedPage(key: string, page: CachedPage): void {
+  const { enabled, directory, maxBytes } = getConfig().network.cache;
+  if (!enabled) {
+    return;
+  }
+  mkdirSync(directory, { recursive: true });
+  writeFileAtomic(entryPath(key), JSON.stringify(page));
+  evict(directory, maxBytes);
+}
+
+function cacheControl(headers: Headers): Map<string, string> {
+  const directives = new Map<string, string>();
+  for (const directive of (headers.get("cache-control") ?? "").split(",")) {
+    const [name, value = ""] = directive.split("=");
+    if (name.trim()) {
+      directives.set(name.trim().toLowerCase(), value.trim().replace(/^"|"$/g, ""));
+    }
+  }
+  return directives;
+}
+
+// Whether a response may be kept at all; this server is a private cache, so `private` responses are fine
+export function isStorable(status: number, headers: Headers): boolean {
+  return status === 200 && !cacheControl(headers).has("no-store") && headers.get("vary")?.trim() !== "*";
+}
+
+/**
+ * When a response stops being fresh, following RFC 9111: `no-cache` means immediately, then `max-age`, then
+ * `Expires`, and otherwise a tenth of the time since Last-Modified. The response's `Age` is subtracted.
+ */
+export function freshUntil(headers: Headers, now: number = Date.now()): number {
+  const directives = cacheControl(headers);
+  if (directives.has("no-cache")) {
+    return now;
+  }
+  const date = Date.parse(headers.get("date") ?? "") || now;
+  const maxAge = Number(directives.get("max-age"));
+  const expires = Date.parse(headers.get("expires") ?? "");
+  const lastModified = Date.parse(headers.get("last-modified") ?? "");
+
+  let lifetime = 0;
+  if (directives.has("max-age") && Number.isFinite(maxAge)) {
+    lifetime = maxAge * 1000;
+  } else if (headers.has("expires")) {
+    // An invalid Expires, such as "0", means already expired
+    lifetime = Number.isFinite(expires) ? expires - date : 0;
+  } else if (Number.isFinite(lastModified)) {
+    lifetime = Math.min((date - lastModified) / 10, MAX_HEURISTIC_LIFETIME_MS);
+  }
+  const age = (Number(headers.get("age")) || 0) * 1000;
+  return now + Math.max(0, lifetime - age);
+}
+
+// Headers asking the server to answer 304 Not Modified when the cached copy is still current
+export function conditionalHeaders(page: CachedPage): Record<string, string> {
+  return {
+    ...(page.etag && { "if-none-match": page.etag }),
+    ...(page.lastModified && { "if-modified-since": page.lastModified }),
+  };
+}
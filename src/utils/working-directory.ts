@@ -0,0 +1,29 @@
+import { statSync } from "fs";
+import { ToolError } from "./tool-result.js";
+import { defaultWorkingDirectory, resolveWorkspacePath } from "./workspace.js";
+
+// Working directory per MCP session, for clients that each work in their own checkout
+const workingDirectories = new Map<string, string>();
+
+// Relative paths in tool arguments are resolved against this; sessions that never set one use the server's default
+export function getWorkingDirectory(sessionId: string | undefined): string {
+  return workingDirectories.get(sessionId ?? "default") ?? defaultWorkingDirectory();
+}
+
+// Resolves a directory the way tools resolve paths and checks that it exists
+export function resolveWorkingDirectory(path: string, base: string = defaultWorkingDirectory()): string {
+  const directory = resolveWorkspacePath(path, base);
+  if (!statSync(directory).isDirectory()) {
+    throw new ToolError(`Not a directory: ${directory}`, "ENOTDIR", { path: directory });
+  }
+  return directory;
+}
+
+// `directory` must come from resolveWorkingDirectory
+export function setWorkingDirectory(sessionId: string | undefined, directory: string): void {
+  workingDirectories.set(sessionId ?? "default", directory);
+}
+
+export function forgetWorkingDirectory(sessionId: string | undefined): void {
+  workingDirectories.delete(sessionId ?? "default");
+}
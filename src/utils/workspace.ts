@@ -0,0 +1,133 @@
+import { existsSync, realpathSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { pathToFileURL } from "url";
+import fg from "fast-glob";
+import { getConfig } from "../config.js";
+import { ToolError } from "./tool-result.js";
+
+export class WorkspaceError extends ToolError {
+  constructor(
+    message: string,
+    code: "OUTSIDE_WORKSPACE" | "INVALID_PATH",
+    public path: string,
+    public roots: string[]
+  ) {
+    super(message, code, { path, roots }, [`Allowed roots: ${roots.join(", ")}`]);
+    this.name = "WorkspaceError";
+  }
+}
+
+let workspaceRoots: string[] | undefined;
+
+// Allowed roots come from the `workspaceRoots` config (or WORKSPACE_ROOTS) and default to the server's cwd
+export function getWorkspaceRoots(): string[] {
+  if (!workspaceRoots) {
+    const configured = getConfig().workspaceRoots;
+
+    workspaceRoots = (configured.length > 0 ? configured : [process.cwd()]).map(
+      (root) => realpathSync(resolve(root))
+    );
+  }
+  return workspaceRoots;
+}
+
+export function getWorkspaceRootUris(): Array<{ uri: string; name: string }> {
+  return getWorkspaceRoots().map((root) => ({
+    uri: pathToFileURL(root).href,
+    name: basename(root) || root,
+  }));
+}
+
+export function isWithinRoot(path: string, root: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+export function isWithinWorkspace(path: string): boolean {
+  return getWorkspaceRoots().some((root) => isWithinRoot(path, root));
+}
+
+// The innermost root containing the path, e.g. where ignore files start to apply
+export function workspaceRootOf(path: string): string | undefined {
+  return getWorkspaceRoots()
+    .filter((root) => isWithinRoot(path, root))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+// Resolves symlinks for the longest existing prefix so paths that do not exist yet (e.g. write targets) can be checked too
+function realpathAllowingMissing(path: string): string {
+  let existing = path;
+  const missing: string[] = [];
+
+  while (!existsSync(existing)) {
+    const parent = dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    missing.unshift(basename(existing));
+    existing = parent;
+  }
+
+  return join(realpathSync(existing), ...missing);
+}
+
+// Relative paths are resolved against `base`, usually the session's working directory
+export function resolveWorkspacePath(path: string, base: string = process.cwd()): string {
+  const roots = getWorkspaceRoots();
+
+  if (!path.trim()) {
+    throw new WorkspaceError("Path cannot be empty.", "INVALID_PATH", path, roots);
+  }
+
+  const absolutePath = resolve(base, path);
+  const realPath = realpathAllowingMissing(absolutePath);
+  if (!isWithinWorkspace(realPath)) {
+    throw new WorkspaceError(
+      `Path is outside the allowed workspace roots: ${path}${
+        realPath !== absolutePath ? ` (resolves to ${realPath})` : ""
+      }`,
+      "OUTSIDE_WORKSPACE",
+      path,
+      roots
+    );
+  }
+
+  return realPath;
+}
+
+/**
+ * Like resolveWorkspacePath, but a symlink at the path itself is kept rather than followed, so tools can act on the link.
+ * A workspace root's parent is outside the workspace, so the root itself is checked instead.
+ */
+export function resolveWorkspaceEntry(path: string, base: string = process.cwd()): string {
+  const absolutePath = resolve(base, path);
+  try {
+    return join(resolveWorkspacePath(dirname(absolutePath)), basename(absolutePath));
+  } catch (_e) {
+    return resolveWorkspacePath(absolutePath);
+  }
+}
+
+// A glob pattern is allowed when its static base overlaps a root; matches still have to be checked with isWithinWorkspace
+export function assertGlobPatternInWorkspace(pattern: string, cwd: string = process.cwd()): void {
+  const roots = getWorkspaceRoots();
+  const [task] = fg.generateTasks([pattern]);
+  const base = realpathAllowingMissing(resolve(cwd, task ? task.base : pattern));
+
+  const overlaps = roots.some(
+    (root) => isWithinRoot(base, root) || isWithinRoot(root, base)
+  );
+  if (!overlaps) {
+    throw new WorkspaceError(
+      `Glob pattern is outside the allowed workspace roots: ${pattern}`,
+      "OUTSIDE_WORKSPACE",
+      pattern,
+      roots
+    );
+  }
+}
+
+export function defaultWorkingDirectory(): string {
+  const cwd = realpathSync(process.cwd());
+  return isWithinWorkspace(cwd) ? cwd : getWorkspaceRoots()[0];
+}
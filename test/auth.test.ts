@@ -0,0 +1,222 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { createHmac } from "crypto";
+import { writeFileSync } from "fs";
+import { Server } from "http";
+import { AddressInfo, createServer } from "net";
+import { join } from "path";
+import { exportJWK, exportSPKI, generateKeyPair, SignJWT } from "jose";
+import { createTokenVerifier, isToolAllowed } from "../src/auth.js";
+import { getConfig, loadConfig } from "../src/config.js";
+import { startHttpServer } from "../src/transports/http.js";
+import { logger } from "../src/utils/logger.js";
+import { TestWorkspace, useTestConfig } from "./helpers.js";
+
+const RESOURCE = "https://tools.example.com/mcp";
+
+let workspace: TestWorkspace;
+let rsaKeys: Awaited<ReturnType<typeof generateKeyPair>>;
+let ecKeys: Awaited<ReturnType<typeof generateKeyPair>>;
+let pem: string;
+
+function configWith(auth: Record<string, unknown>) {
+  const file = join(workspace.root, "auth-config.json");
+  writeFileSync(file, JSON.stringify({ workspaceRoots: [workspace.root], auth: { enabled: true, ...auth } }));
+  return loadConfig(file, {});
+}
+
+function sign(privateKey: CryptoKey, alg: string, claims: Record<string, unknown> = {}, audience = RESOURCE) {
+  return new SignJWT({ client_id: "ci", scope: "read", ...claims })
+    .setProtectedHeader({ alg, kid: alg })
+    .setAudience(audience)
+    .setExpirationTime("5m")
+    .sign(privateKey);
+}
+
+beforeAll(async () => {
+  workspace = useTestConfig();
+  rsaKeys = await generateKeyPair("RS256", { extractable: true });
+  ecKeys = await generateKeyPair("ES256", { extractable: true });
+  pem = await exportSPKI(rsaKeys.publicKey);
+  writeFileSync(join(workspace.root, "signing-key.pem"), pem);
+  const jwk = { ...(await exportJWK(ecKeys.publicKey)), alg: "ES256", kid: "ES256" };
+  writeFileSync(join(workspace.root, "jwks.json"), JSON.stringify({ keys: [jwk] }));
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("config validation", () => {
+  test("requires an audience or resourceUrl with jwt", () => {
+    expect(() => configWith({ jwt: { jwksFile: "jwks.json" } })).toThrow("auth.jwt.audience");
+    expect(() => configWith({ resourceUrl: RESOURCE, jwt: { jwksFile: "jwks.json" } })).not.toThrow();
+    expect(() => configWith({ jwt: { audience: "tools", jwksFile: "jwks.json" } })).not.toThrow();
+  });
+
+  test("requires algorithms with PEM keys", () => {
+    expect(() => configWith({ resourceUrl: RESOURCE, jwt: { publicKeyFiles: ["signing-key.pem"] } })).toThrow(
+      "auth.jwt.algorithms"
+    );
+  });
+});
+
+describe("createTokenVerifier", () => {
+  test("accepts static tokens, from the config or the environment", async () => {
+    process.env.TEST_MCP_TOKEN = "from-env";
+    const verifier = createTokenVerifier(
+      configWith({
+        tokens: [
+          { token: "static-secret", clientId: "ci", scopes: ["read"] },
+          { tokenEnv: "TEST_MCP_TOKEN", clientId: "bot", scopes: [] },
+        ],
+      })
+    );
+    expect((await verifier.verifyAccessToken("static-secret")).clientId).toBe("ci");
+    expect((await verifier.verifyAccessToken("from-env")).clientId).toBe("bot");
+    await expect(verifier.verifyAccessToken("wrong")).rejects.toThrow("Invalid access token");
+  });
+
+  test("verifies JWTs against the JWKS and PEM keys", async () => {
+    const verifier = createTokenVerifier(
+      configWith({
+        resourceUrl: RESOURCE,
+        jwt: { jwksFile: "jwks.json", publicKeyFiles: ["signing-key.pem"], algorithms: ["RS256", "ES256"] },
+      })
+    );
+    const fromJwks = await verifier.verifyAccessToken(await sign(ecKeys.privateKey, "ES256"));
+    expect(fromJwks.clientId).toBe("ci");
+    expect(fromJwks.scopes).toEqual(["read"]);
+    expect((await verifier.verifyAccessToken(await sign(rsaKeys.privateKey, "RS256"))).clientId).toBe("ci");
+  });
+
+  test("refuses tokens for another audience", async () => {
+    const verifier = createTokenVerifier(
+      configWith({ resourceUrl: RESOURCE, jwt: { publicKeyFiles: ["signing-key.pem"], algorithms: ["RS256"] } })
+    );
+    const token = await sign(rsaKeys.privateKey, "RS256", {}, "https://other.example.com");
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow("Invalid access token");
+  });
+
+  test("refuses algorithms the config does not list, such as HMAC with the public key as secret", async () => {
+    const verifier = createTokenVerifier(
+      configWith({ resourceUrl: RESOURCE, jwt: { publicKeyFiles: ["signing-key.pem"], algorithms: ["RS256"] } })
+    );
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const unsigned = `${encode({ alg: "HS256" })}.${encode({ client_id: "evil", aud: RESOURCE })}`;
+    const forged = `${unsigned}.${createHmac("sha256", pem).update(unsigned).digest("base64url")}`;
+    await expect(verifier.verifyAccessToken(forged)).rejects.toThrow("algorithm HS256 is not allowed");
+  });
+});
+
+describe("isToolAllowed", () => {
+  test("grants the tools mapped to the token's scopes", () => {
+    const config = configWith({ scopes: { read: ["read_file", "git_*"], all: ["*"] } });
+    const token = (scopes: string[]) => ({ token: "t", clientId: "ci", scopes });
+    expect(isToolAllowed("read_file", token(["read"]), config)).toBe(true);
+    expect(isToolAllowed("git_log", token(["read"]), config)).toBe(true);
+    expect(isToolAllowed("write_file", token(["read"]), config)).toBe(false);
+    expect(isToolAllowed("write_file", token(["all"]), config)).toBe(true);
+    expect(isToolAllowed("read_file", undefined, config)).toBe(false);
+  });
+});
+
+describe("HTTP transport", () => {
+  let server: Server;
+  let transportWorkspace: TestWorkspace;
+  let base: string;
+
+  // The allowed Host headers name the configured port, so a free one is picked up front
+  const freePort = () =>
+    new Promise<number>((resolve) => {
+      const probe = createServer().listen(0, "127.0.0.1", () => {
+        const { port } = probe.address() as AddressInfo;
+        probe.close(() => resolve(port));
+      });
+    });
+
+  const INITIALIZE = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "auth-test", version: "1.0.0" } },
+  };
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${base}/mcp`, {
+      method: "POST",
+      headers: { "content-type": "application/json", accept: "application/json, text/event-stream", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const info = spyOn(logger, "info").mockImplementation(() => {});
+
+  beforeAll(async () => {
+    const port = await freePort();
+    base = `http://127.0.0.1:${port}`;
+    transportWorkspace = useTestConfig({
+      host: "127.0.0.1",
+      port,
+      auth: {
+        enabled: true,
+        resourceUrl: `${base}/mcp`,
+        tokens: [
+          { clientId: "alice", token: "alice-token", scopes: ["mcp:tools"] },
+          { clientId: "bob", token: "bob-token", scopes: ["mcp:tools"] },
+        ],
+      },
+    });
+    server = startHttpServer(getConfig(), []);
+    await new Promise((resolve) => server.once("listening", resolve));
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    transportWorkspace.cleanup();
+    info.mockRestore();
+  });
+
+  test("serves the protected resource metadata at both locations", async () => {
+    for (const path of ["/.well-known/oauth-protected-resource", "/.well-known/oauth-protected-resource/mcp"]) {
+      const response = await fetch(`${base}${path}`);
+      expect(await response.json()).toMatchObject({ resource: `${base}/mcp`, bearer_methods_supported: ["header"] });
+    }
+  });
+
+  test("answers 401 without a bearer token, pointing to the metadata", async () => {
+    const response = await post(INITIALIZE);
+    expect(response.status).toBe(401);
+    const metadataUrl = `${base}/.well-known/oauth-protected-resource`;
+    expect(response.headers.get("www-authenticate")).toContain(`resource_metadata="${metadataUrl}"`);
+    expect((await post(INITIALIZE, bearer("wrong-token"))).status).toBe(401);
+  });
+
+  test("rejects foreign origins and host names", async () => {
+    const foreign = await post(INITIALIZE, { ...bearer("alice-token"), origin: "https://evil.example" });
+    expect(foreign.status).toBe(403);
+    expect(await foreign.text()).toContain("Origin https://evil.example is not allowed");
+
+    const rebound = await post(INITIALIZE, { ...bearer("alice-token"), host: "evil.example" });
+    expect(rebound.status).toBe(403);
+    expect(await rebound.text()).toContain("Invalid Host header");
+  });
+
+  test("keeps sessions to the client that opened them", async () => {
+    const opened = await post(INITIALIZE, { ...bearer("alice-token"), origin: base });
+    expect(opened.status).toBe(200);
+    await opened.text();
+    const sessionId = opened.headers.get("mcp-session-id")!;
+    expect(sessionId).toBeTruthy();
+
+    const ping = { jsonrpc: "2.0", id: 2, method: "ping" };
+    const owner = await post(ping, { ...bearer("alice-token"), "mcp-session-id": sessionId });
+    expect(owner.status).toBe(200);
+    await owner.text();
+
+    const stranger = await post(ping, { ...bearer("bob-token"), "mcp-session-id": sessionId });
+    expect(stranger.status).toBe(403);
+    expect(await stranger.text()).toContain("Session belongs to another client");
+    const streamed = await fetch(`${base}/mcp`, { headers: { ...bearer("bob-token"), "mcp-session-id": sessionId } });
+    expect(streamed.status).toBe(403);
+  });
+});
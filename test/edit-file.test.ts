@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import editFile from "../src/tools/edit-file.tool.js";
+import readFile from "../src/tools/read-file.tool.js";
+import { callTool, structured, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const SOURCE = "function greet(name) {\n  return 'Hello, ' + name;\n}\n\ngreet('a');\ngreet('b');\n";
+
+let workspace: TestWorkspace;
+let file: string;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  file = join(workspace.root, "greet.js");
+});
+
+beforeEach(async () => {
+  writeFileSync(file, SOURCE);
+  await callTool(readFile, { absolute_path: file });
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("edit_file", () => {
+  test("replaces a unique match and returns a unified diff", async () => {
+    const result = await callTool(editFile, { file_path: file, old_string: "'Hello, '", new_string: "'Hi, '" });
+    expect(structured(result).replacements).toBe(1);
+    expect(structured(result).diff).toContain("-  return 'Hello, ' + name;\n+  return 'Hi, ' + name;");
+    expect(readFileSync(file, "utf-8")).toContain("return 'Hi, ' + name;");
+  });
+
+  test("refuses ambiguous matches unless replace_all is set", async () => {
+    const ambiguous = await callTool(editFile, { file_path: file, old_string: "greet('", new_string: "hello('" });
+    expect(structured(ambiguous).error.code).toBe("AMBIGUOUS_MATCH");
+    expect(readFileSync(file, "utf-8")).toBe(SOURCE);
+
+    const all = await callTool(editFile, { file_path: file, old_string: "greet('", new_string: "hello('", replace_all: true });
+    expect(structured(all).replacements).toBe(2);
+  });
+
+  test("reports text that does not occur", async () => {
+    const result = await callTool(editFile, { file_path: file, old_string: "goodbye", new_string: "bye" });
+    expect(structured(result).error.code).toBe("NO_MATCH");
+  });
+
+  test("applies a batch of edits in order, or none of them", async () => {
+    const failed = await callTool(editFile, {
+      file_path: file,
+      edits: [
+        { old_string: "greet('a')", new_string: "greet('c')" },
+        { old_string: "missing", new_string: "x" },
+      ],
+    });
+    expect(failed.isError).toBe(true);
+    expect(readFileSync(file, "utf-8")).toBe(SOURCE);
+
+    const applied = await callTool(editFile, {
+      file_path: file,
+      edits: [
+        { old_string: "greet('a')", new_string: "greet('c')" },
+        { old_string: "greet('c')", new_string: "greet('d')" },
+      ],
+    });
+    expect(structured(applied).replacements).toBe(2);
+    expect(readFileSync(file, "utf-8")).toContain("greet('d');\ngreet('b');");
+  });
+
+  test("refuses to edit a file changed since it was read", async () => {
+    writeFileSync(file, SOURCE.replace("greet('b')", "greet('z')"));
+    const result = await callTool(editFile, { file_path: file, old_string: "'Hello, '", new_string: "'Hi, '" });
+    expect(structured(result).error.code).toBe("FILE_CHANGED");
+  });
+
+  test("keeps CRLF line endings while matching with LF", async () => {
+    writeFileSync(file, SOURCE.replace(/\n/g, "\r\n"));
+    await callTool(readFile, { absolute_path: file });
+    const result = await callTool(editFile, {
+      file_path: file,
+      old_string: "{\n  return 'Hello, '",
+      new_string: "{\n  return 'Hi, '",
+    });
+    expect(structured(result).replacements).toBe(1);
+    expect(readFileSync(file, "utf-8")).toBe(SOURCE.replace("'Hello, '", "'Hi, '").replace(/\n/g, "\r\n"));
+  });
+});
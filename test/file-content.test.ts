@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import readFile from "../src/tools/read-file.tool.js";
+import readManyFiles from "../src/tools/read-many-files.tool.js";
+import { detectFileType } from "../src/utils/file-content.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==",
+  "base64"
+);
+const SVG = '<?xml version="1.0"?>\n<!-- icon -->\n<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"></svg>\n';
+const ELF = Buffer.concat([Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0]), Buffer.alloc(56)]);
+
+// A minimal PDF with one line of text per page
+function pdf(pages: string[]): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+  let out = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+let workspace: TestWorkspace;
+const file = (name: string) => join(workspace.root, name);
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  // Extensions that do not match the content, so only sniffing gets the type right
+  writeFileSync(file("pixel.txt"), PNG);
+  writeFileSync(file("icon.svg"), SVG);
+  writeFileSync(file("program.png"), ELF);
+  writeFileSync(file("report.pdf"), pdf(["First page", "Second page", "Third page"]));
+  writeFileSync(file("broken.pdf"), "%PDF-1.4\nnot really a pdf\n");
+  writeFileSync(file("notes.txt"), "plain text\n");
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("detectFileType", () => {
+  test("sniffs the content", () => {
+    expect(detectFileType(PNG)).toEqual({ kind: "image", mimeType: "image/png" });
+    expect(detectFileType(Buffer.from(SVG))).toEqual({ kind: "image", mimeType: "image/svg+xml" });
+    expect(detectFileType(ELF)).toEqual({ kind: "binary", mimeType: "application/x-elf" });
+    expect(detectFileType(Buffer.from("BMW cars\n"))).toEqual({ kind: "text" });
+    expect(detectFileType(Buffer.from("\uFEFFtext", "utf16le"))).toEqual({ kind: "text" });
+  });
+});
+
+describe("read_file", () => {
+  test("returns images as image content", async () => {
+    const result = await callTool(readFile, { absolute_path: file("pixel.txt") });
+    expect(result.content[0]).toEqual({ type: "image", data: PNG.toString("base64"), mimeType: "image/png" });
+    expect(structured(result).kind).toBe("image");
+
+    const svg = await callTool(readFile, { absolute_path: file("icon.svg") });
+    expect(svg.content[0]).toMatchObject({ type: "image", mimeType: "image/svg+xml" });
+  });
+
+  test("refuses images over the size limit", async () => {
+    const result = await callTool(readFile, { absolute_path: file("pixel.txt") }, { options: { maxImageBytes: 10 } });
+    expect(structured(result).error.code).toBe("FILE_TOO_LARGE");
+  });
+
+  test("summarizes other binaries as a hex dump", async () => {
+    const result = await callTool(readFile, { absolute_path: file("program.png") });
+    expect(structured(result)).toMatchObject({ kind: "binary", mimeType: "application/x-elf", size: ELF.length });
+    expect(textOf(result)).toContain("00000000  7f 45 4c 46");
+  });
+
+  test("extracts PDF text page by page", async () => {
+    const result = await callTool(readFile, { absolute_path: file("report.pdf"), offset: 1, limit: 1 });
+    expect(textOf(result)).toContain("--- Page 2 of 3 ---\nSecond page");
+    expect(textOf(result)).not.toContain("First page");
+    expect(structured(result)).toMatchObject({ kind: "pdf", pageCount: 3, startPage: 2, endPage: 2, nextOffset: 2 });
+  });
+
+  test("returns PDFs it cannot parse as embedded resources", async () => {
+    const result = await callTool(readFile, { absolute_path: file("broken.pdf") });
+    expect(result.content[0]).toMatchObject({ type: "resource", resource: { mimeType: "application/pdf" } });
+  });
+});
+
+describe("read_many_files", () => {
+  test("skips binary files that are not explicitly requested", async () => {
+    const result = await callTool(readManyFiles, { patterns: ["*"], base_dir: workspace.root });
+    const files = (structured(result).files as Array<{ path: string }>).map((entry) => entry.path);
+    expect(files).toEqual(["notes.txt"]);
+    expect((structured(result).skipped as Array<{ path: string }>).map((entry) => entry.path).sort()).toEqual([
+      "broken.pdf",
+      "icon.svg",
+      "pixel.txt",
+      "program.png",
+      "report.pdf",
+    ]);
+  });
+
+  test("includes requested images and PDFs by type", async () => {
+    const result = await callTool(readManyFiles, { patterns: ["*.pdf", "icon.svg"], base_dir: workspace.root });
+    expect(result.content.some((part) => part.type === "image" && part.mimeType === "image/svg+xml")).toBe(true);
+    expect(textOf(result)).toContain("Third page");
+    const kinds = Object.fromEntries(
+      (structured(result).files as Array<{ path: string; kind: string }>).map(({ path, kind }) => [path, kind])
+    );
+    expect(kinds["report.pdf"]).toBe("pdf");
+    expect(kinds["icon.svg"]).toBe("image");
+  });
+});
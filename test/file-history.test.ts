@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { chmodSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ToolDefinition } from "../src/tool.js";
+import fileHistoryTools from "../src/tools/file-history.tool.js";
+import writeFile from "../src/tools/write-file.tool.js";
+import { writeFileAtomic } from "../src/utils/atomic-write.js";
+import { forgetHistory } from "../src/utils/file-history.js";
+import { hashContent, recordFileRead } from "../src/utils/file-tracker.js";
+import { callTool, structured, TestWorkspace, testExtra, useTestConfig } from "./helpers.js";
+
+// The tools share one array type, so they are called with untyped arguments
+const [undoTool, listTool, restoreTool]: ToolDefinition[] = fileHistoryTools;
+
+let workspace: TestWorkspace;
+const file = (name: string) => join(workspace.root, name);
+
+beforeAll(() => {
+  workspace = useTestConfig();
+});
+
+afterAll(() => workspace.cleanup());
+
+// Each test works in its own session, so its history starts empty
+function session(name: string) {
+  const extra = testExtra(`file-history-${name}`);
+  const write = (path: string, content: string, args: { expected_sha256?: string } = {}) =>
+    callTool(writeFile, { file_path: path, content, overwrite: true, ...args }, { extra });
+  afterAll(() => forgetHistory(extra.sessionId));
+  return { extra, write };
+}
+
+describe("writeFileAtomic", () => {
+  test("replaces the file without leaving temporary files and keeps its mode", () => {
+    const directory = file("atomic");
+    mkdirSync(directory);
+    const target = join(directory, "script.sh");
+    writeFileSync(target, "old");
+    chmodSync(target, 0o755);
+
+    writeFileAtomic(target, "new");
+    expect(readFileSync(target, "utf-8")).toBe("new");
+    expect(readdirSync(directory)).toEqual(["script.sh"]);
+    expect(statSync(target).mode & 0o777).toBe(0o755);
+  });
+});
+
+describe("undo_last_write", () => {
+  const { extra, write } = session("undo");
+
+  test("steps back through the session's writes", async () => {
+    const target = file("undo.txt");
+    await write(target, "first");
+    await write(target, "second");
+
+    const undone = await callTool(undoTool, {}, { extra });
+    expect(structured(undone).action).toBe("restored");
+    expect(readFileSync(target, "utf-8")).toBe("first");
+
+    expect(structured(await callTool(undoTool, {}, { extra })).action).toBe("deleted");
+    expect(existsSync(target)).toBe(false);
+
+    expect(structured(await callTool(undoTool, {}, { extra })).error.code).toBe("NOT_FOUND");
+  });
+
+  test("refuses to lose changes made after the write unless forced", async () => {
+    const target = file("changed.txt");
+    writeFileSync(target, "original");
+    await write(target, "written");
+    writeFileSync(target, "changed by someone else");
+
+    expect(structured(await callTool(undoTool, {}, { extra })).error.code).toBe("FILE_CHANGED");
+    expect(readFileSync(target, "utf-8")).toBe("changed by someone else");
+
+    await callTool(undoTool, { force: true }, { extra });
+    expect(readFileSync(target, "utf-8")).toBe("original");
+  });
+
+  test("keeps histories of sessions apart", async () => {
+    const other = testExtra("file-history-other");
+    expect(structured(await callTool(undoTool, {}, { extra: other })).error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("list_file_versions and restore_file_version", () => {
+  const { extra, write } = session("restore");
+
+  test("lists versions newest first and restores one, keeping the replaced content", async () => {
+    const target = file("versions.txt");
+    writeFileSync(target, "v0");
+    await write(target, "v1");
+    await write(target, "v2");
+    await write(file("unrelated.txt"), "x");
+
+    const versions = structured(await callTool(listTool, { path: target }, { extra })).versions;
+    expect(versions.map((version: { size: number }) => version.size)).toEqual([2, 2]);
+    const oldest = versions.at(-1);
+    expect(oldest.sha256).toBe(hashContent("v0"));
+
+    const restored = await callTool(restoreTool, { version_id: oldest.versionId }, { extra });
+    expect(readFileSync(target, "utf-8")).toBe("v0");
+
+    // The restore is a write like any other, so undo reverts it
+    expect(structured(restored).backupVersionId).toBeDefined();
+    await callTool(undoTool, {}, { extra });
+    expect(readFileSync(target, "utf-8")).toBe("v2");
+  });
+
+  test("reports unknown versions", async () => {
+    expect(structured(await callTool(restoreTool, { version_id: "v999" }, { extra })).error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("write_file with expected_sha256", () => {
+  const { write } = session("expected");
+
+  test("writes only over the expected content", async () => {
+    const target = file("guarded.txt");
+    writeFileSync(target, "mine");
+
+    const refused = await write(target, "clobbered", { expected_sha256: hashContent("someone else's") });
+    expect(structured(refused).error.code).toBe("FILE_CHANGED");
+    expect(readFileSync(target, "utf-8")).toBe("mine");
+
+    const written = await write(target, "updated", { expected_sha256: hashContent("mine") });
+    expect(written.isError).toBeUndefined();
+    expect(structured(written).sha256).toBe(hashContent("updated"));
+  });
+});
+
+describe("recordFileRead", () => {
+  test("hashes files in chunks and hashes them again once they change", () => {
+    const target = file("hashed.txt");
+    const content = "0123456789abcdef".repeat(10000);
+    writeFileSync(target, content);
+    expect(recordFileRead(undefined, target)).toBe(hashContent(content));
+    expect(recordFileRead(undefined, target)).toBe(hashContent(content));
+
+    writeFileSync(target, "changed");
+    expect(recordFileRead(undefined, target)).toBe(hashContent("changed"));
+  });
+});
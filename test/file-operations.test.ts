@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ToolDefinition } from "../src/tool.js";
+import fileOperationTools from "../src/tools/file-operations.tool.js";
+import { callTool, structured, TestWorkspace, testExtra, useTestConfig } from "./helpers.js";
+
+// The tools share one array type, so they are called with untyped arguments
+const [moveTool, copyTool, deleteTool, mkdirTool, listTrashTool, restoreTool]: ToolDefinition[] = fileOperationTools;
+const extra = testExtra("file-operations-test");
+
+let workspace: TestWorkspace;
+let project: string;
+const file = (...parts: string[]) => join(project, ...parts);
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  project = join(workspace.root, "project");
+});
+
+beforeEach(() => {
+  rmSync(project, { recursive: true, force: true });
+  mkdirSync(join(project, "src", "nested"), { recursive: true });
+  writeFileSync(file("src", "a.txt"), "a");
+  writeFileSync(file("src", "nested", "b.txt"), "bb");
+  writeFileSync(file("other.txt"), "other");
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("move_path", () => {
+  test("lists what would move in a dry run without changing anything", async () => {
+    const result = await callTool(moveTool, { source: file("src"), destination: file("dest"), dry_run: true }, { extra });
+    expect(structured(result)).toMatchObject({ dryRun: true, totalEntries: 4 });
+    expect(existsSync(file("src"))).toBe(true);
+  });
+
+  test("refuses to replace the destination unless told to, then trashes it", async () => {
+    const refused = await callTool(moveTool, { source: file("src", "a.txt"), destination: file("other.txt") }, { extra });
+    expect(structured(refused).error.code).toBe("EEXIST");
+
+    const moved = await callTool(
+      moveTool,
+      { source: file("src", "a.txt"), destination: file("other.txt"), overwrite: true },
+      { extra }
+    );
+    expect(readFileSync(file("other.txt"), "utf-8")).toBe("a");
+    expect(existsSync(file("src", "a.txt"))).toBe(false);
+    expect(structured(moved).replacedTrashId).toBeDefined();
+  });
+
+  test("refuses to move a directory into itself", async () => {
+    const result = await callTool(moveTool, { source: file("src"), destination: file("src", "nested", "src") }, { extra });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
+
+describe("copy_path", () => {
+  test("needs recursive for directories", async () => {
+    const result = await callTool(copyTool, { source: file("src"), destination: file("copy") }, { extra });
+    expect(structured(result).error.code).toBe("EISDIR");
+  });
+
+  test("copies trees and reports conflicts when merging", async () => {
+    await callTool(copyTool, { source: file("src"), destination: file("copy"), recursive: true }, { extra });
+    expect(readFileSync(file("copy", "nested", "b.txt"), "utf-8")).toBe("bb");
+
+    writeFileSync(file("src", "a.txt"), "changed");
+    const dryRun = await callTool(
+      copyTool,
+      { source: file("src"), destination: file("copy"), recursive: true, dry_run: true },
+      { extra }
+    );
+    expect(structured(dryRun).conflicts).toEqual([file("copy", "a.txt"), file("copy", "nested", "b.txt")]);
+    const refused = await callTool(copyTool, { source: file("src"), destination: file("copy"), recursive: true }, { extra });
+    expect(structured(refused).error.code).toBe("EEXIST");
+    expect(readFileSync(file("copy", "a.txt"), "utf-8")).toBe("a");
+  });
+});
+
+describe("delete_path and the trash", () => {
+  test("moves deleted entries to the trash, from which they can be restored", async () => {
+    const notEmpty = await callTool(deleteTool, { path: file("src") }, { extra });
+    expect(structured(notEmpty).error.code).toBe("ENOTEMPTY");
+
+    const deleted = await callTool(deleteTool, { path: file("src"), recursive: true }, { extra });
+    expect(existsSync(file("src"))).toBe(false);
+    const { trashId } = structured(deleted);
+
+    const listed = structured(await callTool(listTrashTool, {}, { extra })).entries;
+    expect(listed[0]).toMatchObject({ trashId, originalPath: file("src"), type: "directory" });
+
+    await callTool(restoreTool, { trash_id: trashId }, { extra });
+    expect(readFileSync(file("src", "nested", "b.txt"), "utf-8")).toBe("bb");
+  });
+
+  test("keeps each session's trash to itself", async () => {
+    const deleted = await callTool(deleteTool, { path: file("other.txt") }, { extra });
+    const stranger = testExtra("file-operations-stranger");
+    expect(structured(await callTool(listTrashTool, {}, { extra: stranger })).entries).toEqual([]);
+    const result = await callTool(restoreTool, { trash_id: structured(deleted).trashId }, { extra: stranger });
+    expect(structured(result).error.code).toBe("NOT_FOUND");
+  });
+
+  test("removes permanently when asked", async () => {
+    const result = await callTool(deleteTool, { path: file("other.txt"), permanent: true }, { extra });
+    expect(structured(result).trashId).toBeUndefined();
+    expect(existsSync(file("other.txt"))).toBe(false);
+  });
+
+  test("refuses to delete a workspace root", async () => {
+    const result = await callTool(deleteTool, { path: join(workspace.root, ".."), recursive: true }, { extra });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
+
+describe("create_directory", () => {
+  test("creates missing parents, or only reports them in a dry run", async () => {
+    const dryRun = await callTool(mkdirTool, { path: file("x", "y"), dry_run: true }, { extra });
+    expect(structured(dryRun).created).toEqual([file("x"), file("x", "y")]);
+    expect(existsSync(file("x"))).toBe(false);
+
+    const refused = await callTool(mkdirTool, { path: file("x", "y"), parents: false }, { extra });
+    expect(structured(refused).error.code).toBe("ENOENT");
+
+    await callTool(mkdirTool, { path: file("x", "y") }, { extra });
+    expect(existsSync(file("x", "y"))).toBe(true);
+  });
+
+  test("reports files in the way", async () => {
+    const result = await callTool(mkdirTool, { path: file("other.txt") }, { extra });
+    expect(structured(result).error.code).toBe("EEXIST");
+  });
+});
+
+describe("trash limits", () => {
+  let capped: TestWorkspace;
+
+  beforeAll(() => {
+    capped = useTestConfig({
+      trash: { directory: join(workspace.root, ".state", "capped-trash"), maxEntries: 2, maxBytes: 10 },
+    });
+  });
+
+  afterAll(() => capped.cleanup());
+
+  test("drops the oldest entries and refuses entries larger than the trash", async () => {
+    const session = testExtra("file-operations-capped");
+    for (const name of ["one", "two", "three"]) {
+      writeFileSync(file(name), name);
+      await callTool(deleteTool, { path: file(name) }, { extra: session });
+    }
+    const entries = structured(await callTool(listTrashTool, {}, { extra: session })).entries;
+    expect(entries.map((entry: { originalPath: string }) => entry.originalPath)).toEqual([file("three"), file("two")]);
+
+    writeFileSync(file("large.txt"), "x".repeat(11));
+    const result = await callTool(deleteTool, { path: file("large.txt") }, { extra: session });
+    expect(structured(result).error.code).toBe("FILE_TOO_LARGE");
+    expect(existsSync(file("large.txt"))).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ToolDefinition } from "../src/tool.js";
+import gitTools from "../src/tools/git.tool.js";
+import { assertRevision } from "../src/utils/git.js";
+import { callTool, structured, textOf, TestWorkspace, testExtra, useTestConfig } from "./helpers.js";
+
+// The tools share one array type, so they are called with untyped arguments
+const [statusTool, diffTool, logTool, blameTool, commitTool]: ToolDefinition[] = gitTools;
+const extra = testExtra("git-test");
+
+let workspace: TestWorkspace;
+let repo: string;
+
+const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, encoding: "utf-8" });
+const write = (path: string, content: string) => writeFileSync(join(repo, path), content);
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  repo = join(workspace.root, "repo");
+  mkdirSync(join(repo, "src"), { recursive: true });
+  git("init", "--quiet", "--initial-branch=main");
+  git("config", "user.name", "Test User");
+  git("config", "user.email", "test@example.com");
+
+  write("README.md", "# Project\n");
+  git("add", "README.md");
+  git("commit", "--quiet", "--message=Add readme");
+  write(join("src", "main.ts"), "one\ntwo\nthree\n");
+  git("add", "src");
+  git("commit", "--quiet", "--message=Add main", "--message=With a body.");
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("git_status", () => {
+  test("lists staged, unstaged and untracked files", async () => {
+    write("README.md", "# Project\n\nMore.\n");
+    git("add", "README.md");
+    write(join("src", "main.ts"), "one\ntwo\nthree\nfour\n");
+    write("notes.txt", "notes\n");
+
+    const result = await callTool(statusTool, { repository: join(repo, "src") }, { extra });
+    expect(structured(result)).toMatchObject({
+      repository: repo,
+      branch: "main",
+      staged: [{ path: "README.md", status: "modified" }],
+      unstaged: [{ path: "src/main.ts", status: "modified" }],
+      untracked: ["notes.txt"],
+      clean: false,
+    });
+    expect(textOf(result)).toContain("Untracked (1):\n  notes.txt");
+  });
+
+  test("reports directories outside any repository", async () => {
+    mkdirSync(join(workspace.root, "plain"), { recursive: true });
+    const result = await callTool(statusTool, { repository: join(workspace.root, "plain") }, { extra });
+    expect(structured(result).error.code).toBe("NOT_A_REPOSITORY");
+  });
+});
+
+describe("git_diff", () => {
+  test("shows unstaged or staged changes per file", async () => {
+    const unstaged = await callTool(diffTool, { repository: repo }, { extra });
+    expect(structured(unstaged)).toMatchObject({
+      files: [{ path: "src/main.ts", additions: 1, deletions: 0, binary: false }],
+      additions: 1,
+      deletions: 0,
+      truncated: false,
+    });
+    expect(structured(unstaged).diff).toContain("+four");
+
+    const staged = await callTool(diffTool, { repository: repo, staged: true, stat_only: true }, { extra });
+    expect(structured(staged).files.map((file: { path: string }) => file.path)).toEqual(["README.md"]);
+    expect(structured(staged).diff).toBeUndefined();
+  });
+
+  test("compares two commits", async () => {
+    const result = await callTool(diffTool, { repository: repo, from: "HEAD~1", to: "HEAD" }, { extra });
+    expect(structured(result)).toMatchObject({ files: [{ path: "src/main.ts", additions: 3 }], additions: 3 });
+  });
+
+  test("refuses revisions that look like options", async () => {
+    const result = await callTool(diffTool, { repository: repo, from: "--output=/tmp/x" }, { extra });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+    expect(() => assertRevision("main..feature", "ref")).not.toThrow();
+    expect(() => assertRevision("a b", "ref")).toThrow("Invalid ref");
+  });
+});
+
+describe("git_log", () => {
+  test("lists commits newest first, filtered by path and paged", async () => {
+    const result = await callTool(logTool, { repository: repo, max_count: 1 }, { extra });
+    expect(structured(result).hasMore).toBe(true);
+    expect(structured(result).commits[0]).toMatchObject({
+      author: "Test User",
+      email: "test@example.com",
+      subject: "Add main",
+      body: "With a body.",
+    });
+
+    const readme = await callTool(
+      logTool,
+      { repository: repo, paths: [join(repo, "README.md")], include_files: true },
+      { extra }
+    );
+    expect(structured(readme).hasMore).toBe(false);
+    expect(structured(readme).commits.map((commit: { subject: string }) => commit.subject)).toEqual(["Add readme"]);
+    expect(structured(readme).commits[0].files).toEqual([{ path: "README.md", status: "added" }]);
+  });
+});
+
+describe("git_blame", () => {
+  test("blames a range of lines", async () => {
+    const file = join(repo, "src", "main.ts");
+    const result = await callTool(blameTool, { file, start_line: 2, end_line: 3 }, { extra });
+    const lines = structured(result).lines as Array<{ line: number; content: string; summary: string }>;
+    expect(lines.map(({ line, content, summary }) => [line, content, summary])).toEqual([
+      [2, "two", "Add main"],
+      [3, "three", "Add main"],
+    ]);
+
+    const reversed = await callTool(blameTool, { file, start_line: 3, end_line: 2 }, { extra });
+    expect(structured(reversed).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
+
+describe("git_commit", () => {
+  test("commits the staged changes, or the given paths", async () => {
+    const staged = await callTool(commitTool, { repository: repo, message: "Expand readme" }, { extra });
+    expect(structured(staged)).toMatchObject({
+      branch: "main",
+      subject: "Expand readme",
+      files: [{ path: "README.md", status: "modified" }],
+      amended: false,
+    });
+
+    const paths = await callTool(
+      commitTool,
+      { repository: repo, message: "Add notes", paths: [join(repo, "notes.txt")] },
+      { extra }
+    );
+    expect(structured(paths).files).toEqual([{ path: "notes.txt", status: "added" }]);
+    expect(git("status", "--porcelain")).toBe(" M src/main.ts\n");
+  });
+
+  test("refuses to commit nothing", async () => {
+    const result = await callTool(commitTool, { repository: repo, message: "Empty" }, { extra });
+    expect(structured(result).error.code).toBe("NOTHING_TO_COMMIT");
+  });
+
+  test("checks the author format", async () => {
+    const result = await callTool(commitTool, { repository: repo, message: "Bad", author: "nobody" }, { extra });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
+
+describe("repository config", () => {
+  test("cannot run filter drivers", async () => {
+    const marker = join(workspace.root, "filter-ran");
+    git("config", "filter.evil.clean", `touch ${marker}; cat`);
+    git("config", "filter.evil.required", "true");
+    write(".gitattributes", "*.dat filter=evil\n");
+    write("data.dat", "data\n");
+
+    await callTool(statusTool, { repository: repo }, { extra });
+    const result = await callTool(
+      commitTool,
+      { repository: repo, message: "Add data", paths: [join(repo, "data.dat")] },
+      { extra }
+    );
+    expect(structured(result).files).toEqual([{ path: "data.dat", status: "added" }]);
+    expect(existsSync(marker)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import z from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { loadConfig, setConfig } from "../src/config.js";
+import { ToolDefinition, ToolExtra } from "../src/tool.js";
+
+export interface TestWorkspace {
+  // A fresh directory inside the workspace root, also holding the history, trash and cache directories under .state
+  root: string;
+  cleanup(): void;
+}
+
+// Workspace roots are read once per process, so every test file works in a directory under this one root
+let workspaceRoot: string | undefined;
+
+function sharedWorkspaceRoot(): string {
+  if (!workspaceRoot) {
+    const root = realpathSync(mkdtempSync(join(tmpdir(), "yeeyeeass-test-")));
+    process.once("exit", () => rmSync(root, { recursive: true, force: true }));
+    workspaceRoot = root;
+  }
+  return workspaceRoot;
+}
+
+// Loads a config for a fresh temporary directory in the workspace; `config` is merged into the file as written
+export function useTestConfig(config: Record<string, unknown> = {}): TestWorkspace {
+  const workspace = sharedWorkspaceRoot();
+  const root = mkdtempSync(join(workspace, "test-"));
+  const state = join(root, ".state");
+  const file = join(root, ".state-config.json");
+  const network = (config.network ?? {}) as Record<string, unknown>;
+  writeFileSync(
+    file,
+    JSON.stringify({
+      workspaceRoots: [workspace],
+      history: { directory: join(state, "history") },
+      trash: { directory: join(state, "trash") },
+      ...config,
+      network: {
+        // Tests run against fixture servers on the loopback address, without a per-host rate limit
+        allowlist: ["127.0.0.1"],
+        requestsPerMinutePerHost: 0,
+        ...network,
+        cache: { directory: join(state, "web-cache"), ...(network.cache as object) },
+      },
+    })
+  );
+  setConfig(loadConfig(file, {}));
+  return { root, cleanup: () => rmSync(root, { recursive: true, force: true }) };
+}
+
+export function testExtra(sessionId = "test", extra: Partial<ToolExtra> = {}): ToolExtra {
+  return {
+    sessionId,
+    signal: new AbortController().signal,
+    requestId: 1,
+    sendNotification: async () => {},
+    sendRequest: async () => {
+      throw new Error("Requests to the client are not supported in tests");
+    },
+    ...extra,
+  } as ToolExtra;
+}
+
+// Calls a tool the way the server does: arguments parsed by its schema, options from its defaults plus `options`
+export async function callTool<Args extends z.ZodRawShape, Options extends Record<string, unknown>>(
+  tool: ToolDefinition<Args, Options>,
+  args: z.input<z.ZodObject<Args>>,
+  { extra = testExtra(), options = {} }: { extra?: ToolExtra; options?: Partial<Options> } = {}
+): Promise<CallToolResult> {
+  const parsed = z.object(tool.schema).parse(args);
+  return tool.handler(parsed, extra, { ...tool.defaults, ...options } as Options);
+}
+
+export function textOf(result: CallToolResult): string {
+  return result.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+export function structured<T = Record<string, any>>(result: CallToolResult): T {
+  return result.structuredContent as T;
+}
+
+// A server on 127.0.0.1 with a random port, serving the given routes by path
+export function startFixtureServer(routes: Record<string, (request: Request) => Response | Promise<Response>>) {
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch: (request) => {
+      const route = routes[new URL(request.url).pathname];
+      return route ? route(request) : new Response("Not found", { status: 404 });
+    },
+  });
+  return { url: (path: string) => `http://127.0.0.1:${server.port}${path}`, stop: () => server.stop(true) };
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import httpRequestTool from "../src/tools/http-request.tool.js";
+import { redactSecrets } from "../src/utils/credentials.js";
+import { callTool, startFixtureServer, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const TOKEN = "s3cret-token";
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+let other: ReturnType<typeof startFixtureServer>;
+
+// Answers with what the request carried, as JSON
+async function echo(request: Request): Promise<Response> {
+  return Response.json(
+    {
+      method: request.method,
+      contentType: request.headers.get("content-type"),
+      authorization: request.headers.get("authorization"),
+      body: await request.text(),
+    },
+    { headers: { "x-seen-authorization": request.headers.get("authorization") ?? "" } }
+  );
+}
+
+beforeAll(() => {
+  other = startFixtureServer({ "/echo": echo });
+  server = startFixtureServer({
+    "/echo": echo,
+    "/to-other": () => Response.redirect(other.url("/echo"), 302),
+    "/binary": () =>
+      new Response(new Uint8Array([0, 1, 2, 255]), { headers: { "content-type": "application/octet-stream" } }),
+    "/large.txt": () => new Response("x".repeat(5000), { headers: { "content-type": "text/plain" } }),
+    "/missing": () => Response.json({ error: "not found" }, { status: 404 }),
+  });
+  process.env.HTTP_REQUEST_TEST_TOKEN = TOKEN;
+  workspace = useTestConfig({
+    network: {
+      credentials: [
+        { host: new URL(server.url("/")).host, scheme: "Bearer", valueEnv: "HTTP_REQUEST_TEST_TOKEN", allowHttp: true },
+        // Not sent: the fixture server speaks plain http
+        { host: new URL(other.url("/")).host, value: "other-token" },
+      ],
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  other.stop();
+  delete process.env.HTTP_REQUEST_TEST_TOKEN;
+  workspace.cleanup();
+});
+
+describe("http_request", () => {
+  test("sends the method, headers and a JSON body", async () => {
+    const result = await callTool(httpRequestTool, {
+      url: server.url("/echo"),
+      method: "POST",
+      json: { name: "item" },
+    });
+    expect(structured(result)).toMatchObject({ method: "POST", status: 200, bodyEncoding: "text" });
+    expect(structured(result).json).toMatchObject({
+      method: "POST",
+      contentType: "application/json",
+      body: '{"name":"item"}',
+    });
+  });
+
+  test("returns error statuses as responses", async () => {
+    const result = await callTool(httpRequestTool, { url: server.url("/missing") });
+    expect(result.isError).toBeUndefined();
+    expect(structured(result).status).toBe(404);
+    expect(structured(result).json).toEqual({ error: "not found" });
+  });
+
+  test("returns binary bodies as base64", async () => {
+    const result = await callTool(httpRequestTool, { url: server.url("/binary") });
+    expect(structured(result)).toMatchObject({ body: "AAEC/w==", bodyEncoding: "base64", bytes: 4 });
+  });
+
+  test("caps the body at max_bytes, and max_bytes at the server's limit", async () => {
+    const capped = await callTool(httpRequestTool, { url: server.url("/large.txt"), max_bytes: 10 });
+    expect(structured(capped)).toMatchObject({ body: "x".repeat(10), truncated: true });
+    expect(textOf(capped)).toContain("The body was truncated at 10 bytes.");
+
+    const limited = await callTool(
+      httpRequestTool,
+      { url: server.url("/large.txt"), max_bytes: 4000 },
+      { options: { maxBytes: 100 } }
+    );
+    expect(structured(limited)).toMatchObject({ bytes: 100, truncated: true });
+  });
+
+  test("rejects conflicting bodies and invalid URLs", async () => {
+    const both = await callTool(httpRequestTool, { url: server.url("/echo"), body: "{}", json: {} });
+    expect(structured(both).error.code).toBe("INVALID_ARGUMENT");
+    const invalid = await callTool(httpRequestTool, { url: "not a url" });
+    expect(structured(invalid).error.code).toBe("INVALID_ARGUMENT");
+  });
+
+  test("refuses internal addresses that are not allowlisted", async () => {
+    const result = await callTool(httpRequestTool, { url: "http://169.254.169.254/latest/meta-data/" });
+    expect(structured(result).error.code).toBe("BLOCKED_URL");
+  });
+});
+
+describe("http_request credentials", () => {
+  test("adds the configured credentials and redacts them where they are echoed", async () => {
+    const result = await callTool(httpRequestTool, { url: server.url("/echo") });
+    expect(structured(result).authenticated).toBe(true);
+    expect(structured(result).json.authorization).toBe("[REDACTED]");
+    expect(structured(result).headers["x-seen-authorization"]).toBe("[REDACTED]");
+    expect(textOf(result)).not.toContain(TOKEN);
+  });
+
+  test("redacts a secret the body was cut in the middle of", async () => {
+    const cutAt = '{"method":"GET","contentType":null,"authorization":"Bearer s3c'.length;
+    const result = await callTool(httpRequestTool, { url: server.url("/echo"), max_bytes: cutAt });
+    expect(structured(result).truncated).toBe(true);
+    expect(structured(result).body).toEndWith('"authorization":"[REDACTED]');
+    expect(textOf(result)).not.toContain("s3c");
+  });
+
+  test("does not carry them to another host, or send them over http unless allowed", async () => {
+    const redirected = await callTool(httpRequestTool, { url: server.url("/to-other") });
+    expect(structured(redirected).finalUrl).toBe(other.url("/echo"));
+    expect(structured(redirected).json.authorization).toBeNull();
+
+    const direct = await callTool(httpRequestTool, { url: other.url("/echo") });
+    expect(structured(direct).authenticated).toBe(false);
+  });
+
+  test("redactSecrets replaces the longest secrets first", () => {
+    const redacted = redactSecrets(Buffer.from("Bearer abc and abc"), ["abc", "Bearer abc"]);
+    expect(redacted.toString()).toBe("[REDACTED] and [REDACTED]");
+  });
+
+  test("redactSecrets replaces the start of a secret at the end of a truncated body", () => {
+    expect(redactSecrets(Buffer.from("token: ab"), ["abc"], true).toString()).toBe("token: [REDACTED]");
+    expect(redactSecrets(Buffer.from("token: ab"), ["abc"]).toString()).toBe("token: ab");
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join, relative } from "path";
+import readManyFiles from "../src/tools/read-many-files.tool.js";
+import { describeIgnoreMatch, discoverFiles, IgnoreRules, PROJECT_IGNORE_FILE } from "../src/utils/ignore-rules.js";
+import { callTool, structured, TestWorkspace, useTestConfig } from "./helpers.js";
+
+let workspace: TestWorkspace;
+let repo: string;
+let plain: string;
+
+function write(root: string, path: string, content = "") {
+  mkdirSync(dirname(join(root, path)), { recursive: true });
+  writeFileSync(join(root, path), content);
+}
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  repo = join(workspace.root, "repo");
+  plain = join(workspace.root, "plain");
+
+  write(repo, ".gitignore", "# generated\nout/\n*.generated.ts\n!keep.generated.ts\n");
+  write(repo, join(".git", "info", "exclude"), "local.txt\n");
+  write(repo, PROJECT_IGNORE_FILE, "secrets/\n");
+  write(repo, join("src", ".gitignore"), "fixtures/\n");
+  write(repo, join("src", "index.ts"), "export {};\n");
+  write(repo, join("src", "api.generated.ts"));
+  write(repo, join("src", "keep.generated.ts"));
+  write(repo, join("src", "fixtures", "data.json"));
+  write(repo, join("out", "main.js"));
+  write(repo, join("build", "source.ts"));
+  write(repo, join("secrets", "key.txt"));
+  write(repo, "local.txt");
+
+  // No ignore files, so the default excludes apply
+  write(plain, join("build", "output.js"));
+  write(plain, join("src", "main.ts"));
+});
+
+afterAll(() => workspace.cleanup());
+
+const relativeTo = (root: string, files: string[]) => files.map((file) => relative(root, file)).sort();
+
+describe("IgnoreRules", () => {
+  test("reports the ignore file, line and pattern that excludes a path", () => {
+    const rules = new IgnoreRules(repo);
+    const match = rules.check(join(repo, "src", "api.generated.ts"), false)!;
+    expect(describeIgnoreMatch(match)).toBe(`${join(repo, ".gitignore")}:3: *.generated.ts`);
+    expect(rules.check(join(repo, "src", "keep.generated.ts"), false)).toBeUndefined();
+    expect(rules.check(join(repo, "local.txt"), false)?.source).toBe(join(repo, ".git", "info", "exclude"));
+    expect(rules.check(join(repo, "secrets"), true)?.source).toBe(join(repo, PROJECT_IGNORE_FILE));
+  });
+
+  test("applies nested ignore files relative to their directory", () => {
+    const rules = new IgnoreRules(repo);
+    expect(rules.findExclusion(join(repo, "src", "fixtures", "data.json"), false)).toEqual({
+      path: join(repo, "src", "fixtures"),
+      match: { source: join(repo, "src", ".gitignore"), pattern: "fixtures/", line: 1 },
+    });
+  });
+
+  test("only applies the default excludes where no ignore file does", () => {
+    expect(new IgnoreRules(repo).check(join(repo, "build"), true)).toBeUndefined();
+    expect(new IgnoreRules(plain).check(join(plain, "build"), true)).toEqual({
+      source: "default excludes",
+      pattern: "**/build/**",
+    });
+  });
+});
+
+describe("discoverFiles", () => {
+  test("leaves out ignored files and reports them", async () => {
+    const { files, ignored } = await discoverFiles(["**/*"], { cwd: repo });
+    expect(relativeTo(repo, files)).toEqual([
+      join("build", "source.ts"),
+      join("src", "index.ts"),
+      join("src", "keep.generated.ts"),
+    ]);
+    expect(relativeTo(repo, ignored.map((entry) => entry.path))).toEqual([
+      "local.txt",
+      join("out", "main.js"),
+      join("secrets", "key.txt"),
+      join("src", "api.generated.ts"),
+      join("src", "fixtures", "data.json"),
+    ]);
+  });
+
+  test("includes ignored paths a pattern points into", async () => {
+    const { files } = await discoverFiles(["out/*.js", "src/api.generated.ts", "*.js"], { cwd: repo });
+    expect(relativeTo(repo, files)).toEqual([join("out", "main.js"), join("src", "api.generated.ts")]);
+  });
+
+  test("can ignore the ignore files", async () => {
+    const { files } = await discoverFiles(["out/**", "src/**"], { cwd: repo, useIgnoreFiles: false });
+    expect(relativeTo(repo, files)).toContain(join("src", "api.generated.ts"));
+  });
+});
+
+describe("read_many_files", () => {
+  test("names the rule that excluded each file", async () => {
+    const result = await callTool(readManyFiles, { patterns: ["src/**"], base_dir: repo });
+    const ignored = structured(result).ignored as Array<{ path: string; rule: string }>;
+    expect(ignored).toContainEqual({
+      path: join("src", "api.generated.ts"),
+      rule: `${join(repo, ".gitignore")}:3: *.generated.ts`,
+    });
+    expect(structured(result).ignoredCount).toBe(2);
+  });
+});
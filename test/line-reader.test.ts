@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import readFile from "../src/tools/read-file.tool.js";
+import { readLastLines, readLineWindow } from "../src/utils/line-reader.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+// Long enough to span several read chunks and line index checkpoints
+const LINE_COUNT = 5000;
+const lineText = (i: number) => `line ${i} ${"x".repeat(40)}`;
+
+let workspace: TestWorkspace;
+let bigFile: string;
+let minified: string;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  bigFile = join(workspace.root, "big.log");
+  writeFileSync(bigFile, Array.from({ length: LINE_COUNT }, (_, i) => `${lineText(i)}\n`).join(""));
+  minified = join(workspace.root, "bundle.min.js");
+  writeFileSync(minified, `var a=${"1+".repeat(5000)}1;\nshort\n`);
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("readLineWindow", () => {
+  test("returns the requested lines and counts the file", async () => {
+    const window = await readLineWindow(bigFile, 10, 3, 1000);
+    expect(window).toEqual({
+      lines: [lineText(10), lineText(11), lineText(12)],
+      startLine: 10,
+      totalLines: LINE_COUNT + 1,
+      truncatedLines: 0,
+    });
+  });
+
+  test("seeks through the line index on later reads", async () => {
+    await readLineWindow(bigFile, 0, 1, 1000);
+    const window = await readLineWindow(bigFile, 4321, 2, 1000);
+    expect(window.lines).toEqual([lineText(4321), lineText(4322)]);
+    expect(window.totalLines).toBe(LINE_COUNT + 1);
+  });
+
+  test("cuts lines at the length cap", async () => {
+    const window = await readLineWindow(minified, 0, 10, 20);
+    expect(window.lines).toEqual(["var a=1+1+1+1+1+1+1+", "short", ""]);
+    expect(window.truncatedLines).toBe(1);
+  });
+});
+
+describe("readLastLines", () => {
+  test("reads the end of the file without the empty line after the final newline", async () => {
+    const window = await readLastLines(bigFile, 2, 1000);
+    expect(window.lines).toEqual([lineText(LINE_COUNT - 2), lineText(LINE_COUNT - 1)]);
+    expect(window.startLine).toBe(LINE_COUNT - 2);
+  });
+});
+
+describe("read_file", () => {
+  test("never returns more lines or longer lines than configured", async () => {
+    const result = await callTool(
+      readFile,
+      { absolute_path: bigFile, limit: 500, max_line_length: 500 },
+      { options: { maxLines: 100, maxLineLength: 10 } }
+    );
+    expect(structured(result)).toMatchObject({
+      startLine: 1,
+      endLine: 100,
+      truncated: true,
+      nextOffset: 100,
+      truncatedLines: 100,
+    });
+    expect(textOf(result)).toContain("line 0 xxx\n");
+  });
+
+  test("pages with offset and limit", async () => {
+    const result = await callTool(readFile, { absolute_path: bigFile, offset: 2000, limit: 2 });
+    expect(structured(result)).toMatchObject({
+      startLine: 2001,
+      endLine: 2002,
+      totalLines: LINE_COUNT + 1,
+      nextOffset: 2002,
+    });
+    expect(textOf(result)).toContain(`${lineText(2000)}\n${lineText(2001)}`);
+  });
+
+  test("reads the last lines with tail", async () => {
+    const result = await callTool(readFile, { absolute_path: bigFile, tail: 1 });
+    expect(textOf(result)).toEndWith(lineText(LINE_COUNT - 1));
+    expect(structured(result).truncated).toBe(true);
+  });
+
+  test("reads byte ranges", async () => {
+    const result = await callTool(readFile, { absolute_path: minified, byte_offset: 4, byte_length: 4 });
+    expect(textOf(result)).toEndWith("a=1+");
+    expect(structured(result)).toMatchObject({ byteOffset: 4, byteLength: 4, nextByteOffset: 8, truncated: true });
+  });
+
+  test("refuses more than one read mode", async () => {
+    const result = await callTool(readFile, { absolute_path: bigFile, tail: 5, offset: 1 });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
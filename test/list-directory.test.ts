@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { chmodSync, mkdirSync, symlinkSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import listDirectory from "../src/tools/list-directory.tool.js";
+import statPath from "../src/tools/stat-path.tool.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+interface Entry {
+  path: string;
+  type: string;
+  depth: number;
+}
+
+let workspace: TestWorkspace;
+let project: string;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  project = join(workspace.root, "project");
+  mkdirSync(join(project, "src", "lib"), { recursive: true });
+  mkdirSync(join(project, "node_modules", "dep"), { recursive: true });
+  writeFileSync(join(project, ".gitignore"), "*.log\n");
+  writeFileSync(join(project, "big.txt"), "x".repeat(1000));
+  writeFileSync(join(project, "small.txt"), "x");
+  writeFileSync(join(project, "debug.log"), "ignored");
+  writeFileSync(join(project, "src", "index.ts"), "export {};\n");
+  writeFileSync(join(project, "src", "lib", "util.ts"), "export {};\n");
+  writeFileSync(join(project, "node_modules", "dep", "index.js"), "");
+  utimesSync(join(project, "small.txt"), new Date(), new Date());
+  utimesSync(join(project, "big.txt"), new Date(2000, 0, 1), new Date(2000, 0, 1));
+  symlinkSync("small.txt", join(project, "link.txt"));
+});
+
+afterAll(() => workspace.cleanup());
+
+const paths = (result: Awaited<ReturnType<typeof callTool>>) =>
+  (structured(result).entries as Entry[]).map((entry) => entry.path);
+
+describe("list_directory", () => {
+  test("lists directories first, hiding ignored entries", async () => {
+    const result = await callTool(listDirectory, { path: project });
+    expect(paths(result)).toEqual(["src", ".gitignore", "big.txt", "link.txt", "small.txt"]);
+    expect(structured(result).ignoredCount).toBe(2);
+    expect(textOf(result)).toContain("└── small.txt");
+    expect(textOf(result)).toContain("link.txt -> small.txt");
+
+    const everything = await callTool(listDirectory, { path: project, respect_ignore_files: false, use_default_excludes: false });
+    expect(paths(everything)).toContain("debug.log");
+    expect(paths(everything)).toContain("node_modules");
+  });
+
+  test("descends to the requested depth and draws a tree", async () => {
+    const result = await callTool(listDirectory, { path: project, depth: 3 });
+    const entries = structured(result).entries as Entry[];
+    expect(entries.slice(0, 3).map(({ path, depth }) => [path, depth])).toEqual([
+      ["src", 0],
+      [join("src", "lib"), 1],
+      [join("src", "lib", "util.ts"), 2],
+    ]);
+    expect(textOf(result)).toContain("├── src/\n│   ├── lib/\n│   │   └── util.ts\n│   └── index.ts");
+  });
+
+  test("sorts by size and modification time", async () => {
+    const bySize = await callTool(listDirectory, { path: project, sort: "size", use_default_excludes: false });
+    expect(paths(bySize).filter((path) => path.endsWith(".txt"))).toEqual(["big.txt", "link.txt", "small.txt"]);
+    const byMtime = await callTool(listDirectory, { path: project, sort: "mtime", reverse: true });
+    // Directories stay first when the order is reversed
+    expect(paths(byMtime).slice(0, 2)).toEqual(["src", "big.txt"]);
+  });
+
+  test("pages through the entries", async () => {
+    const first = await callTool(listDirectory, { path: project, limit: 2 });
+    expect(structured(first)).toMatchObject({ totalEntries: 5, truncated: true, nextOffset: 2 });
+    const rest = await callTool(listDirectory, { path: project, offset: 2 });
+    expect(paths(rest)).toEqual(["big.txt", "link.txt", "small.txt"]);
+    expect(structured(rest).truncated).toBe(false);
+  });
+
+  test("reports paths that are not directories", async () => {
+    const result = await callTool(listDirectory, { path: join(project, "small.txt") });
+    expect(structured(result).error.code).toBe("ENOTDIR");
+  });
+});
+
+describe("stat_path", () => {
+  test("describes files with their permissions and content type", async () => {
+    const file = join(project, "src", "index.ts");
+    chmodSync(file, 0o640);
+    const result = await callTool(statPath, { path: file });
+    expect(structured(result)).toMatchObject({
+      type: "file",
+      size: 11,
+      mode: "0640",
+      permissions: "rw-r-----",
+      contentKind: "text",
+      encoding: "utf-8",
+    });
+  });
+
+  test("describes symlinks without following them", async () => {
+    const result = await callTool(statPath, { path: join(project, "link.txt") });
+    expect(structured(result)).toMatchObject({
+      path: join(project, "link.txt"),
+      type: "symlink",
+      symlinkTarget: "small.txt",
+      resolvedPath: join(project, "small.txt"),
+      targetType: "file",
+    });
+  });
+
+  test("reports missing paths", async () => {
+    const result = await callTool(statPath, { path: join(project, "missing") });
+    expect(structured(result).error.code).toBe("ENOENT");
+  });
+});
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { httpRequest } from "../src/utils/http-client.js";
+import { isBlockedAddress, matchesHostPattern, resolveAllowedHost } from "../src/utils/network-guard.js";
+import { errorCodeOf } from "../src/utils/tool-result.js";
+import { startFixtureServer, TestWorkspace, useTestConfig } from "./helpers.js";
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  server = startFixtureServer({
+    "/page": () => new Response("page"),
+    "/to-page": () => Response.redirect(server.url("/page"), 302),
+    "/to-metadata": () => Response.redirect("http://169.254.169.254/latest/meta-data/", 302),
+    "/loop": () => Response.redirect(server.url("/loop"), 302),
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  workspace.cleanup();
+});
+
+// The error code `promise` rejects with
+async function rejectionCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    return errorCodeOf(error);
+  }
+  return undefined;
+}
+
+describe("isBlockedAddress", () => {
+  test("blocks private, loopback, link-local and reserved ranges", () => {
+    const addresses = [
+      "10.1.2.3",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.31.0.1",
+      "192.168.1.1",
+      "100.64.0.1",
+      "::1",
+      "fd00::1",
+      "fe80::1%eth0",
+    ];
+    for (const address of addresses) {
+      expect(isBlockedAddress(address)).toBe(true);
+    }
+    expect(isBlockedAddress("93.184.216.34")).toBe(false);
+    expect(isBlockedAddress("2606:4700::1111")).toBe(false);
+    expect(isBlockedAddress("not-an-address")).toBe(true);
+  });
+
+  test("checks IPv4 addresses embedded in IPv6 ones as the IPv4 host", () => {
+    expect(isBlockedAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isBlockedAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isBlockedAddress("64:ff9b::10.0.0.1")).toBe(true);
+    expect(isBlockedAddress("2002:c0a8:0101::1")).toBe(true);
+    expect(isBlockedAddress("::ffff:93.184.216.34")).toBe(false);
+  });
+});
+
+describe("matchesHostPattern", () => {
+  test("matches names, subdomain wildcards and ports", () => {
+    const url = new URL("https://docs.corp.example.com/guide");
+    expect(matchesHostPattern("docs.corp.example.com", url)).toBe(true);
+    expect(matchesHostPattern("*.example.com", url)).toBe(true);
+    expect(matchesHostPattern("*.example.com", new URL("https://example.com/"))).toBe(false);
+    expect(matchesHostPattern("docs.corp.example.com:443", url)).toBe(true);
+    expect(matchesHostPattern("docs.corp.example.com:8443", url)).toBe(false);
+    expect(matchesHostPattern("[::1]:8080", new URL("http://[::1]:8080/"))).toBe(true);
+  });
+});
+
+describe("httpRequest redirects", () => {
+  test("follows redirects, recording each hop", async () => {
+    const response = await httpRequest(server.url("/to-page"));
+    expect(response.body.toString()).toBe("page");
+    expect(response.redirects).toEqual([server.url("/page")]);
+  });
+
+  test("checks every hop against the deny list", async () => {
+    expect(await rejectionCode(httpRequest(server.url("/to-metadata")))).toBe("BLOCKED_URL");
+  });
+
+  test("stops after the redirect limit", async () => {
+    expect(await rejectionCode(httpRequest(server.url("/loop"), { maxRedirects: 3 }))).toBe("HTTP_ERROR");
+    const response = await httpRequest(server.url("/loop"), { followRedirects: false });
+    expect(response.status).toBe(302);
+  });
+});
+
+describe("resolveAllowedHost", () => {
+  let strict: TestWorkspace;
+
+  beforeAll(() => {
+    strict = useTestConfig({ network: { allowlist: ["10.0.0.0/8"] } });
+  });
+
+  afterAll(() => strict.cleanup());
+
+  test("refuses internal hosts however they are written", async () => {
+    for (const url of ["http://2130706433/", "http://0x7f.1/", "http://[::ffff:7f00:1]/", "http://localhost/"]) {
+      expect(await rejectionCode(resolveAllowedHost(new URL(url)))).toBe("BLOCKED_URL");
+    }
+    expect(await rejectionCode(resolveAllowedHost(new URL("ftp://example.com/")))).toBe("BLOCKED_URL");
+  });
+
+  test("lets allowlisted addresses and ranges through", async () => {
+    expect(await resolveAllowedHost(new URL("http://10.1.2.3/"))).toEqual({
+      hostname: "10.1.2.3",
+      address: "10.1.2.3",
+      family: 4,
+    });
+    expect(await rejectionCode(resolveAllowedHost(new URL("http://192.168.1.1/")))).toBe("BLOCKED_URL");
+  });
+
+  test("reports names that do not resolve", async () => {
+    expect(await rejectionCode(resolveAllowedHost(new URL("http://does-not-exist.invalid/")))).toBe("NETWORK_ERROR");
+  });
+});
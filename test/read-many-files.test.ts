@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import readManyFiles from "../src/tools/read-many-files.tool.js";
+import { formatOutline, outlineText } from "../src/utils/outline.js";
+import { estimateTokens } from "../src/utils/token-estimate.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+interface PackedFile {
+  path: string;
+  outlined: boolean;
+  tokens: number;
+}
+
+const MODULE = (name: string, lines: number) =>
+  `export function ${name}() {\n${"  return compute(value, other);\n".repeat(lines)}}\n`;
+
+let workspace: TestWorkspace;
+let project: string;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  project = join(workspace.root, "project");
+  mkdirSync(project);
+  writeFileSync(join(project, "a.ts"), MODULE("a", 10));
+  writeFileSync(join(project, "b.ts"), MODULE("b", 5));
+  writeFileSync(join(project, "c.ts"), MODULE("c", 20));
+  writeFileSync(
+    join(project, "huge.ts"),
+    `export class Huge {\n  load(id: string): Item {\n${"    step();\n".repeat(3000)}  }\n}\nexport const LIMIT = 10;\n`
+  );
+  utimesSync(join(project, "b.ts"), new Date(2000, 0, 1), new Date(2000, 0, 1));
+});
+
+afterAll(() => workspace.cleanup());
+
+const packed = async (args: Record<string, unknown>) => {
+  const result = await callTool(readManyFiles, { patterns: ["*.ts"], base_dir: project, ...args });
+  return { result, files: structured(result).files as PackedFile[] };
+};
+
+describe("estimateTokens", () => {
+  test("counts words, numbers, punctuation and indentation like a BPE tokenizer roughly would", () => {
+    expect(estimateTokens("hello world")).toBe(2);
+    expect(estimateTokens("internationalization")).toBe(4);
+    expect(estimateTokens("12345")).toBe(2);
+    expect(estimateTokens("});\n")).toBe(3);
+    expect(estimateTokens("        x")).toBe(3);
+    expect(estimateTokens("日本")).toBe(2);
+  });
+});
+
+describe("outlineText", () => {
+  test("keeps declarations and signatures of code", () => {
+    const source = [
+      "import x from 'y';",
+      "export class Store {",
+      "  async save(item: Item): Promise<void> {",
+      "    if (item) {",
+      "    }",
+      "  }",
+      "}",
+      "const LIMIT = 3;",
+    ].join("\n");
+    expect(formatOutline(outlineText(source, "store.ts"))).toBe(
+      "2: export class Store\n3:   async save(item: Item): Promise<void>\n8: const LIMIT = 3;"
+    );
+  });
+
+  test("keeps headings of Markdown outside code fences", () => {
+    const outline = outlineText("# Title\ntext\n```\n# not a heading\n```\n## Usage\n", "README.md");
+    expect(outline.map((entry) => entry.text)).toEqual(["# Title", "## Usage"]);
+  });
+});
+
+describe("read_many_files with max_tokens", () => {
+  test("packs files in rank order until the budget is reached and resumes from the cursor", async () => {
+    const { files: all } = await packed({ patterns: ["a.ts", "b.ts", "c.ts"] });
+    const budget = all[0].tokens + all[1].tokens;
+
+    const first = await packed({ patterns: ["a.ts", "b.ts", "c.ts"], max_tokens: budget });
+    expect(first.files.map((file) => file.path)).toEqual(["a.ts", "b.ts"]);
+    expect(structured(first.result)).toMatchObject({ omittedByLimit: 1, maxTokens: budget });
+    expect(structured(first.result).tokens).toBeLessThanOrEqual(budget);
+
+    const rest = await packed({
+      patterns: ["a.ts", "b.ts", "c.ts"],
+      max_tokens: budget,
+      cursor: structured(first.result).nextCursor,
+    });
+    expect(rest.files.map((file) => file.path)).toEqual(["c.ts"]);
+    expect(structured(rest.result).nextCursor).toBeUndefined();
+  });
+
+  test("ranks files a pattern names first, then by the requested order", async () => {
+    const { files: bySize } = await packed({ patterns: ["c.ts", "*.ts"], sort: "size", max_files: 3 });
+    expect(bySize.map((file) => file.path)).toEqual(["c.ts", "b.ts", "a.ts"]);
+    const { files: byMtime } = await packed({ sort: "mtime" });
+    expect(byMtime.at(-1)?.path).toBe("b.ts");
+  });
+
+  test("outlines files too large for the whole budget", async () => {
+    const { result, files } = await packed({ patterns: ["huge.ts"], max_tokens: 200 });
+    expect(files).toEqual([expect.objectContaining({ path: "huge.ts", outlined: true })]);
+    expect(textOf(result)).toContain("export class Huge");
+    expect(textOf(result)).toContain("load(id: string): Item");
+    expect(textOf(result)).toContain("3005: export const LIMIT = 10;");
+    expect(textOf(result)).not.toContain("step();");
+  });
+});
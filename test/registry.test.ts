@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { getConfig, loadConfig } from "../src/config.js";
+import { loadTools } from "../src/registry.js";
+import { TestWorkspace, useTestConfig } from "./helpers.js";
+
+// Plugins export the same shape as built-in tools; this one needs no imports, as it lives outside the project
+const PLUGIN = `
+export default {
+  name: "echo_plugin",
+  description: "Echoes its input.",
+  schema: {},
+  handler: async () => ({ content: [{ type: "text", text: "echo" }] }),
+};
+`;
+
+let workspace: TestWorkspace;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  writeFileSync(join(workspace.root, "echo-plugin.ts"), PLUGIN);
+  writeFileSync(join(workspace.root, "conflicting-plugin.ts"), PLUGIN.replace("echo_plugin", "read_file"));
+  writeFileSync(join(workspace.root, "empty-plugin.ts"), "export default {};\n");
+});
+
+afterAll(() => workspace.cleanup());
+
+function configWith(settings: Record<string, unknown>) {
+  const file = join(workspace.root, "registry-config.json");
+  writeFileSync(file, JSON.stringify({ workspaceRoots: [workspace.root], ...settings }));
+  return loadConfig(file, {});
+}
+
+describe("loadTools", () => {
+  test("discovers the built-in tools", async () => {
+    const names = (await loadTools(getConfig())).map(({ tool }) => tool.name);
+    expect(names).toContain("read_file");
+    expect(names).toContain("web_fetch");
+    expect(names).toContain("delete_path");
+  });
+
+  test("leaves out tools the config disables", async () => {
+    const names = (await loadTools(configWith({ tools: { web_fetch: { enabled: false } } }))).map(({ tool }) => tool.name);
+    expect(names).not.toContain("web_fetch");
+    expect(names).toContain("read_file");
+  });
+
+  test("loads plugins relative to the config file", async () => {
+    const loaded = await loadTools(configWith({ plugins: ["./echo-plugin.ts"] }));
+    expect(loaded.find(({ tool }) => tool.name === "echo_plugin")?.source).toBe("./echo-plugin.ts");
+  });
+
+  test("refuses plugins whose tools clash with built-in ones", async () => {
+    await expect(loadTools(configWith({ plugins: ["./conflicting-plugin.ts"] }))).rejects.toThrow("conflicts with");
+  });
+
+  test("refuses plugins without tool definitions", async () => {
+    await expect(loadTools(configWith({ plugins: ["./empty-plugin.ts"] }))).rejects.toThrow("does not export a tool");
+  });
+
+  test("refuses settings for unknown tools", async () => {
+    await expect(loadTools(configWith({ tools: { no_such_tool: { enabled: true } } }))).rejects.toThrow(
+      "unknown tools: no_such_tool"
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import webFetch from "../src/tools/web-fetch.tool.js";
+import { isPathAllowed, parseRobots } from "../src/utils/robots.js";
+import { callTool, startFixtureServer, structured, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const page = () => new Response("<main><p>Page</p></main>", { headers: { "content-type": "text/html" } });
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+let robotsRequests = 0;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  server = startFixtureServer({
+    "/robots.txt": async () => {
+      robotsRequests++;
+      // Slow enough that the fetches below are all waiting for it at once
+      await Bun.sleep(100);
+      return new Response("User-agent: *\nDisallow: /private\n");
+    },
+    "/one": page,
+    "/two": page,
+    "/three": page,
+    "/private/page": page,
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  workspace.cleanup();
+});
+
+describe("parseRobots", () => {
+  test("prefers the groups naming this server over the * groups", () => {
+    const rules = parseRobots("User-agent: *\nDisallow: /\n\nUser-agent: yeeyeeass-tools\nDisallow: /tmp\n");
+    expect(isPathAllowed(rules, "/docs")).toBe(true);
+    expect(isPathAllowed(rules, "/tmp/file")).toBe(false);
+  });
+
+  test("lets the longest matching rule decide, with wildcards and anchors", () => {
+    const rules = parseRobots("User-agent: *\nDisallow: /docs\nAllow: /docs/public\nDisallow: /*.pdf$\n");
+    expect(isPathAllowed(rules, "/docs/internal")).toBe(false);
+    expect(isPathAllowed(rules, "/docs/public/guide")).toBe(true);
+    expect(isPathAllowed(rules, "/files/report.pdf")).toBe(false);
+    expect(isPathAllowed(rules, "/files/report.pdf?download=1")).toBe(true);
+  });
+});
+
+describe("robots.txt in web_fetch", () => {
+  test("concurrent fetches from one origin share one robots.txt request", async () => {
+    const result = await callTool(webFetch, {
+      urls: [server.url("/one"), server.url("/two"), server.url("/three")],
+      refresh: true,
+    });
+    expect(result.isError).toBeUndefined();
+    expect(structured(result).sources.every((source: { error?: unknown }) => !source.error)).toBe(true);
+    expect(robotsRequests).toBe(1);
+  });
+
+  test("refuses disallowed paths without asking for robots.txt again", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/private/page")], refresh: true });
+    expect(structured(result).error.code).toBe("ROBOTS_DISALLOWED");
+    expect(robotsRequests).toBe(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import searchFileContent from "../src/tools/search-file-content.tool.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+interface Result {
+  file: string;
+  lineNumber?: number;
+  line?: string;
+  count?: number;
+}
+
+let workspace: TestWorkspace;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  mkdirSync(join(workspace.root, "src"));
+  mkdirSync(join(workspace.root, "node_modules", "dep"), { recursive: true });
+  writeFileSync(join(workspace.root, "src", "a.ts"), "const a = 1;\n// TODO: rename\nexport const value = a;\n");
+  writeFileSync(join(workspace.root, "src", "b.js"), "// todo lowercase\nlet b = 2;\n// TODO: test b\n");
+  writeFileSync(join(workspace.root, "src", "data.dat"), Buffer.from([0, 1, 2, 84, 79, 68, 79, 0]));
+  writeFileSync(join(workspace.root, "node_modules", "dep", "index.js"), "// TODO: vendored\n");
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("search_file_content", () => {
+  test("lists matching lines with line numbers, skipping binary files and default excludes", async () => {
+    const result = await callTool(searchFileContent, { pattern: "TODO", path: workspace.root });
+    const results = structured(result).results as Result[];
+    expect(results.map(({ file, lineNumber }) => `${file}:${lineNumber}`).sort()).toEqual([
+      join("src", "a.ts:2"),
+      join("src", "b.js:3"),
+    ]);
+    expect(structured(result).skippedBinary).toBe(1);
+  });
+
+  test("matches case-insensitively and as a literal string", async () => {
+    const insensitive = await callTool(searchFileContent, { pattern: "todo", path: workspace.root, case_sensitive: false });
+    expect(structured(insensitive).totalMatches).toBe(3);
+    const literal = await callTool(searchFileContent, { pattern: "a = 1;", path: workspace.root, literal: true });
+    expect(structured(literal).totalMatches).toBe(1);
+  });
+
+  test("filters files with include globs", async () => {
+    const result = await callTool(searchFileContent, { pattern: "TODO", path: workspace.root, include: ["**/*.ts"] });
+    expect((structured(result).results as Result[]).map((entry) => entry.file)).toEqual([join("src", "a.ts")]);
+  });
+
+  test("counts matches per file and lists matching files", async () => {
+    const counts = await callTool(searchFileContent, {
+      pattern: "TODO|todo",
+      path: workspace.root,
+      output_mode: "count",
+    });
+    const byFile = Object.fromEntries((structured(counts).results as Result[]).map(({ file, count }) => [file, count]));
+    expect(byFile).toEqual({ [join("src", "a.ts")]: 1, [join("src", "b.js")]: 2 });
+
+    const files = await callTool(searchFileContent, { pattern: "let", path: workspace.root, output_mode: "files_with_matches" });
+    expect((structured(files).results as Result[]).map((entry) => entry.file)).toEqual([join("src", "b.js")]);
+  });
+
+  test("shows context lines around matches", async () => {
+    const result = await callTool(searchFileContent, {
+      pattern: "rename",
+      path: workspace.root,
+      before_context: 1,
+      after_context: 1,
+    });
+    const text = textOf(result);
+    expect(text).toContain("const a = 1;");
+    expect(text).toContain("export const value = a;");
+  });
+
+  test("caps context lines and the file size at the server's limits", async () => {
+    const context = await callTool(
+      searchFileContent,
+      { pattern: "export", path: workspace.root, before_context: 1000000 },
+      { options: { max_context_lines: 1 } }
+    );
+    expect(textOf(context)).toContain("2-// TODO: rename\n3:export const value = a;");
+    expect(textOf(context)).not.toContain("const a = 1;");
+
+    const size = await callTool(
+      searchFileContent,
+      { pattern: "TODO", path: workspace.root, max_file_size: 1e12 },
+      { options: { max_file_size: 50 } }
+    );
+    expect(structured(size).skippedLarge).toBe(1);
+  });
+
+  test("shows context for matches on later pages", async () => {
+    const result = await callTool(searchFileContent, {
+      pattern: "TODO",
+      path: workspace.root,
+      include: ["src/*"],
+      before_context: 1,
+      offset: 1,
+    });
+    expect((structured(result).results as Result[]).map(({ file, lineNumber }) => `${file}:${lineNumber}`)).toEqual([
+      join("src", "b.js:3"),
+    ]);
+    expect(textOf(result)).toContain("2-let b = 2;\n3:// TODO: test b");
+  });
+
+  test("pages through results with offset and limit", async () => {
+    const first = await callTool(searchFileContent, { pattern: "TODO", path: workspace.root, limit: 1 });
+    expect(structured(first).results).toHaveLength(1);
+    expect(structured(first).nextOffset).toBe(1);
+    const second = await callTool(searchFileContent, { pattern: "TODO", path: workspace.root, limit: 1, offset: 1 });
+    expect(structured(second).results).toHaveLength(1);
+    expect(structured(second).nextOffset).toBeUndefined();
+    expect(structured(second).results[0].file).not.toBe(structured(first).results[0].file);
+  });
+
+  test("reports invalid regular expressions", async () => {
+    const result = await callTool(searchFileContent, { pattern: "(unclosed", path: workspace.root });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
@@ -0,0 +1,189 @@
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { EventEmitter } from "events";
+import { ServerResponse } from "http";
+import { join } from "path";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { SessionsConfig } from "../src/config.js";
+import { createEventStore, SessionEventStore } from "../src/sessions/event-store.js";
+import { ManagedSession, SessionManager } from "../src/sessions/session-manager.js";
+import { logger } from "../src/utils/logger.js";
+import { TestWorkspace, useTestConfig } from "./helpers.js";
+
+const CONFIG: SessionsConfig = {
+  idleTimeoutMs: 0,
+  maxPerClient: 2,
+  eventStore: "memory",
+  eventStoreDir: "",
+  maxEventsPerStream: 3,
+};
+
+let workspace: TestWorkspace;
+const info = spyOn(logger, "info").mockImplementation(() => {});
+const warn = spyOn(logger, "warn").mockImplementation(() => {});
+
+beforeAll(() => {
+  workspace = useTestConfig();
+});
+
+afterAll(() => {
+  info.mockRestore();
+  warn.mockRestore();
+  workspace.cleanup();
+});
+
+// A session whose server records whether it was closed; only the fields the manager uses are filled in
+function session(id: string, { clientId = "client", idleMs = 0, close = async () => {} } = {}) {
+  const closed = { value: false };
+  const managed = {
+    id,
+    clientId,
+    server: {
+      close: async () => {
+        await close();
+        closed.value = true;
+      },
+    },
+    createdAt: new Date(),
+    lastActivityAt: new Date(Date.now() - idleMs),
+    activeRequests: 0,
+  } as unknown as ManagedSession;
+  return { managed, closed };
+}
+
+// Managers are stopped after each test, so their idle sweeps do not outlive it
+const managers: SessionManager[] = [];
+function createManager(config: SessionsConfig): SessionManager {
+  const manager = new SessionManager(config);
+  managers.push(manager);
+  return manager;
+}
+
+afterEach(() => {
+  for (const manager of managers.splice(0)) {
+    manager.close();
+  }
+});
+
+function message(id: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/progress", params: { progress: id, progressToken: "t" } };
+}
+
+async function replay(store: SessionEventStore, lastEventId: string) {
+  const sent: string[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId) => {
+      sent.push(eventId);
+    },
+  });
+  return { streamId, sent };
+}
+
+describe("SessionManager", () => {
+  test("closes sessions idle past the timeout", async () => {
+    const manager = createManager({ ...CONFIG, idleTimeoutMs: 1000 });
+    const idle = session("idle", { idleMs: 5000 });
+    const recent = session("recent");
+    manager.add(idle.managed);
+    manager.add(recent.managed);
+
+    await manager.closeIdleSessions();
+    expect(idle.closed.value).toBe(true);
+    expect(recent.closed.value).toBe(false);
+    expect(manager.list().map((managed) => managed.id)).toEqual(["recent"]);
+  });
+
+  test("keeps sessions with an open response, such as an SSE stream, until it closes", async () => {
+    const manager = createManager({ ...CONFIG, idleTimeoutMs: 1000 });
+    const streaming = session("streaming", { idleMs: 5000 });
+    manager.add(streaming.managed);
+    const res = new EventEmitter() as ServerResponse;
+    manager.track("streaming", res);
+    streaming.managed.lastActivityAt = new Date(Date.now() - 5000);
+
+    await manager.closeIdleSessions();
+    expect(streaming.closed.value).toBe(false);
+    expect(streaming.managed.activeRequests).toBe(1);
+
+    res.emit("close");
+    expect(streaming.managed.activeRequests).toBe(0);
+    streaming.managed.lastActivityAt = new Date(Date.now() - 5000);
+    await manager.closeIdleSessions();
+    expect(streaming.closed.value).toBe(true);
+  });
+
+  test("logs sessions that fail to close and goes on with the rest", async () => {
+    const manager = createManager({ ...CONFIG, idleTimeoutMs: 1000 });
+    const failing = session("failing", {
+      idleMs: 5000,
+      close: async () => {
+        throw new Error("transport gone");
+      },
+    });
+    const other = session("other", { idleMs: 5000 });
+    manager.add(failing.managed);
+    manager.add(other.managed);
+
+    await manager.closeIdleSessions();
+    expect(other.closed.value).toBe(true);
+    expect(warn.mock.calls.some(([text]) => text.includes("failing") && text.includes("transport gone"))).toBe(true);
+  });
+
+  test("stops sweeping once closed", async () => {
+    const manager = createManager({ ...CONFIG, idleTimeoutMs: 10 });
+    const idle = session("idle", { idleMs: 5000 });
+    manager.add(idle.managed);
+    manager.close();
+    await Bun.sleep(50);
+    expect(idle.closed.value).toBe(false);
+  });
+
+  test("limits the sessions per client", () => {
+    const manager = createManager(CONFIG);
+    manager.add(session("a").managed);
+    expect(manager.hasCapacity("client")).toBe(true);
+    manager.add(session("b").managed);
+    expect(manager.hasCapacity("client")).toBe(false);
+    expect(manager.hasCapacity("someone-else")).toBe(true);
+    expect(createManager({ ...CONFIG, maxPerClient: 0 }).hasCapacity("client")).toBe(true);
+  });
+});
+
+describe.each(["memory", "file"] as const)("%s event store", (kind) => {
+  const store = () =>
+    createEventStore({ ...CONFIG, eventStore: kind, eventStoreDir: join(workspace.root, "events") }, kind)!;
+
+  test("replays the events of a stream after the last one received", async () => {
+    const events = store();
+    const first = await events.storeEvent("stream", message(1));
+    await events.storeEvent("stream", message(2));
+    await events.storeEvent("other", message(3));
+    const third = await events.storeEvent("stream", message(4));
+
+    const { streamId, sent } = await replay(events, first);
+    expect(streamId).toBe("stream");
+    expect(sent).toEqual(["stream.2", third]);
+    await events.clear();
+  });
+
+  test("keeps only the newest events of each stream", async () => {
+    const events = store();
+    for (let i = 1; i <= 8; i++) {
+      await events.storeEvent("stream", message(i));
+    }
+    expect((await replay(events, "stream.0")).sent).toEqual(["stream.6", "stream.7", "stream.8"]);
+    await events.clear();
+  });
+
+  test("returns no stream for unknown or cleared event IDs", async () => {
+    const events = store();
+    const id = await events.storeEvent("stream", message(1));
+    expect((await replay(events, "garbage")).streamId).toBe("");
+    expect((await replay(events, "missing.1")).streamId).toBe("");
+    await events.clear();
+    expect(await replay(events, id)).toEqual({ streamId: "", sent: [] });
+  });
+});
+
+test("no event store when replay is turned off", () => {
+  expect(createEventStore({ ...CONFIG, eventStore: "none" }, "id")).toBeUndefined();
+});
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import shellSessionTools from "../src/tools/shell-session.tool.js";
+import { closeShellSessions } from "../src/utils/shell-sessions.js";
+import { callTool, structured, TestWorkspace, testExtra, useTestConfig } from "./helpers.js";
+
+const [startTool, writeTool, readTool, killTool, listTool] = shellSessionTools;
+const extra = testExtra("shell-session-test");
+
+let workspace: TestWorkspace;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  mkdirSync(join(workspace.root, "sub"));
+});
+
+afterAll(() => {
+  closeShellSessions(extra.sessionId);
+  workspace.cleanup();
+});
+
+describe.skipIf(process.platform === "win32")("shell sessions", () => {
+  let sessionId: string;
+
+  test("starts a shell in the requested directory", async () => {
+    const result = await callTool(startTool, { directory: workspace.root, command: "echo started", wait_ms: 2000 }, { extra });
+    sessionId = structured(result).sessionId;
+    expect(structured(result).running).toBe(true);
+    expect(structured(result).directory).toBe(workspace.root);
+    expect(structured(result).stdout).toContain("started");
+  });
+
+  test("runs input and returns only output produced since the last read", async () => {
+    const first = await callTool(writeTool, { session_id: sessionId, input: "echo one", wait_ms: 500 }, { extra });
+    expect(structured(first).stdout).toBe("one\n");
+    const second = await callTool(writeTool, { session_id: sessionId, input: "echo two >&2", wait_ms: 500 }, { extra });
+    expect(structured(second).stdout).toBe("");
+    expect(structured(second).stderr).toBe("two\n");
+  });
+
+  test("holds back input until a newline completes the line", async () => {
+    const partial = await callTool(
+      writeTool,
+      { session_id: sessionId, input: "echo sp", append_newline: false, wait_ms: 200 },
+      { extra }
+    );
+    expect(structured(partial).bufferedInput).toBe("echo sp");
+    expect(structured(partial).stdout).toBe("");
+
+    const completed = await callTool(writeTool, { session_id: sessionId, input: "lit", wait_ms: 500 }, { extra });
+    expect(structured(completed).bufferedInput).toBe("");
+    expect(structured(completed).stdout).toBe("split\n");
+  });
+
+  test("keeps state between commands and reports the current directory", async () => {
+    await callTool(writeTool, { session_id: sessionId, input: "cd sub && export GREETING=hi", wait_ms: 200 }, { extra });
+    const result = await callTool(writeTool, { session_id: sessionId, input: 'echo "$GREETING $(pwd)"', wait_ms: 500 }, { extra });
+    expect(structured(result).stdout).toBe(`hi ${join(workspace.root, "sub")}\n`);
+
+    const sessions = structured(await callTool(listTool, {}, { extra })).sessions;
+    expect(sessions).toHaveLength(1);
+    if (process.platform === "linux") {
+      expect(sessions[0].directory).toBe(join(workspace.root, "sub"));
+    }
+  });
+
+  test("reports unknown sessions", async () => {
+    const result = await callTool(readTool, { session_id: "missing" }, { extra });
+    expect(structured(result).error.code).toBe("NOT_FOUND");
+  });
+
+  test("kills the session", async () => {
+    const result = await callTool(killTool, { session_id: sessionId }, { extra });
+    expect(result.isError).toBeUndefined();
+    expect(structured(await callTool(listTool, {}, { extra })).sessions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { TestWorkspace, useTestConfig } from "./helpers.js";
+
+let workspace: TestWorkspace;
+let client: Client;
+
+beforeAll(async () => {
+  workspace = useTestConfig();
+  writeFileSync(join(workspace.root, "hello.txt"), "hello over stdio\n");
+  client = new Client({ name: "stdio-test", version: "1.0.0" });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: ["run", join(import.meta.dir, "..", "src", "index.ts"), "--transport", "stdio"],
+      env: { ...process.env, WORKSPACE_ROOTS: workspace.root, CONFIG_FILE: "" } as Record<string, string>,
+      stderr: "ignore",
+    })
+  );
+});
+
+afterAll(async () => {
+  await client?.close();
+  workspace.cleanup();
+});
+
+describe("stdio transport", () => {
+  test("lists the tools", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("read_file");
+  });
+
+  test("calls tools, keeping stdout for protocol messages", async () => {
+    const result = await client.callTool({ name: "read_file", arguments: { absolute_path: join(workspace.root, "hello.txt") } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.stringify(result.content)).toContain("hello over stdio");
+  });
+});
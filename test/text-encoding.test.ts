@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import readFile from "../src/tools/read-file.tool.js";
+import writeFile from "../src/tools/write-file.tool.js";
+import { detectTextFormat, encodeText } from "../src/utils/text-encoding.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+
+let workspace: TestWorkspace;
+const file = (name: string) => join(workspace.root, name);
+
+beforeAll(() => {
+  workspace = useTestConfig();
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("detectTextFormat", () => {
+  test("detects BOMs, UTF-16 without a BOM and Latin-1", () => {
+    expect(detectTextFormat(Buffer.concat([UTF8_BOM, Buffer.from("a\r\nb\r\n")]))).toEqual({
+      encoding: "utf-8",
+      bom: true,
+      lineEndings: "crlf",
+    });
+    expect(detectTextFormat(Buffer.from("plain\ntext\n", "utf16le")).encoding).toBe("utf-16le");
+    expect(detectTextFormat(Buffer.from("caf\xe9\n", "latin1")).encoding).toBe("latin1");
+    expect(detectTextFormat(Buffer.from("a\nb\r\n")).lineEndings).toBe("mixed");
+  });
+
+  test("round-trips through encodeText", () => {
+    const format = { encoding: "utf-16be" as const, bom: true, lineEndings: "crlf" as const };
+    expect(detectTextFormat(encodeText("x\ny\n", format))).toEqual(format);
+  });
+});
+
+describe("read_file", () => {
+  test("decodes and reports the encoding and line endings", async () => {
+    writeFileSync(file("utf16.txt"), Buffer.concat([UTF16LE_BOM, Buffer.from("héllo\r\nwörld\r\n", "utf16le")]));
+    const result = await callTool(readFile, { absolute_path: file("utf16.txt") });
+    expect(textOf(result)).toContain("héllo\r\nwörld");
+    expect(structured(result)).toMatchObject({ encoding: "utf-16le", bom: true, lineEndings: "crlf" });
+  });
+
+  test("looks past the first chunk for Latin-1 bytes", async () => {
+    const head = Buffer.from(`${"a".repeat(100000)}\n`);
+    writeFileSync(file("late-latin1.txt"), Buffer.concat([head, Buffer.from("caf\xe9\n", "latin1")]));
+    const result = await callTool(readFile, { absolute_path: file("late-latin1.txt"), offset: 1 });
+    expect(structured(result).encoding).toBe("latin1");
+    expect(textOf(result)).toContain("café");
+  });
+
+  test("refuses files that cannot be decoded without losing data", async () => {
+    writeFileSync(file("broken.txt"), Buffer.concat([UTF8_BOM, Buffer.from("ok\n"), Buffer.from([0xff, 0xfe, 0x0a])]));
+    const result = await callTool(readFile, { absolute_path: file("broken.txt") });
+    expect(structured(result).error.code).toBe("ENCODING_ERROR");
+  });
+});
+
+describe("write_file", () => {
+  test("keeps the encoding, BOM and line endings of the file it replaces", async () => {
+    writeFileSync(file("keep.txt"), Buffer.concat([UTF16LE_BOM, Buffer.from("old\r\n", "utf16le")]));
+    const result = await callTool(writeFile, { file_path: file("keep.txt"), content: "new\nlines\n", overwrite: true });
+    expect(structured(result)).toMatchObject({ encoding: "utf-16le", bom: true, lineEndings: "crlf" });
+    expect(readFileSync(file("keep.txt"))).toEqual(Buffer.concat([UTF16LE_BOM, Buffer.from("new\r\nlines\r\n", "utf16le")]));
+  });
+
+  test("lets the caller override the format", async () => {
+    writeFileSync(file("override.txt"), "one\r\ntwo\r\n");
+    await callTool(writeFile, {
+      file_path: file("override.txt"),
+      content: "café\n",
+      overwrite: true,
+      encoding: "latin1",
+      line_endings: "lf",
+    });
+    expect(readFileSync(file("override.txt"))).toEqual(Buffer.from("caf\xe9\n", "latin1"));
+  });
+
+  test("writes new files as UTF-8 without a BOM", async () => {
+    const result = await callTool(writeFile, { file_path: file("new.txt"), content: "fresh\n" });
+    expect(structured(result)).toMatchObject({ created: true, encoding: "utf-8", bom: false });
+    expect(readFileSync(file("new.txt"), "utf-8")).toBe("fresh\n");
+  });
+
+  test("refuses content the target encoding cannot represent", async () => {
+    writeFileSync(file("latin1.txt"), Buffer.from("caf\xe9\n", "latin1"));
+    const result = await callTool(writeFile, { file_path: file("latin1.txt"), content: "snow ☃\n", overwrite: true });
+    expect(structured(result).error.code).toBe("ENCODING_ERROR");
+    expect(readFileSync(file("latin1.txt"))).toEqual(Buffer.from("caf\xe9\n", "latin1"));
+  });
+});
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { getConfig } from "../src/config.js";
+import { loadTools } from "../src/registry.js";
+import shellTool from "../src/tools/shell.tool.js";
+import { errorCodeOf, exceptionResult, ToolError } from "../src/utils/tool-result.js";
+import { callTool, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+let workspace: TestWorkspace;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("error results", () => {
+  test("carry the code and details of tool errors", () => {
+    const result = exceptionResult(new ToolError("Path is outside", "OUTSIDE_WORKSPACE", { path: "/etc" }, ["Roots: /w"]));
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toEqual({ error: { code: "OUTSIDE_WORKSPACE", message: "Path is outside", path: "/etc" } });
+    expect(textOf(result)).toBe("Error: Path is outside\nCode: OUTSIDE_WORKSPACE\nRoots: /w");
+  });
+
+  test("map errno codes and timeouts to stable codes", () => {
+    const errno = (code: string) => Object.assign(new Error(code), { code });
+    expect(errorCodeOf(errno("ENOENT"))).toBe("ENOENT");
+    expect(errorCodeOf(errno("EPERM"))).toBe("EACCES");
+    expect(errorCodeOf(errno("EWHATEVER"))).toBe("UNKNOWN");
+    expect(errorCodeOf(new DOMException("aborted", "TimeoutError"))).toBe("TIMEOUT");
+    expect(structured(exceptionResult(errno("ENOENT"), "Failed to read")).error).toEqual({
+      code: "ENOENT",
+      message: "Failed to read: ENOENT",
+    });
+  });
+});
+
+describe("built-in tools", () => {
+  test("all declare an output schema", async () => {
+    const missing = (await loadTools(getConfig()))
+      .filter(({ tool }) => !tool.outputSchema)
+      .map(({ tool }) => tool.name);
+    expect(missing).toEqual([]);
+  });
+});
+
+describe.skipIf(process.platform === "win32")("run_shell_command", () => {
+  test("returns exit code and output streams separately", async () => {
+    const result = await callTool(shellTool, { command: "echo out; echo err >&2; exit 3", directory: workspace.root });
+    expect(result.isError).toBe(false);
+    expect(structured(result)).toMatchObject({
+      directory: workspace.root,
+      exitCode: 3,
+      signal: null,
+      stdout: "out\n",
+      stderr: "err\n",
+      timedOut: false,
+    });
+  });
+
+  test("reports timeouts as errors", async () => {
+    const result = await callTool(shellTool, { command: "sleep 5", directory: workspace.root, timeout: 200 });
+    expect(result.isError).toBe(true);
+    expect(structured(result).timedOut).toBe(true);
+    expect(structured(result).error.code).toBe("TIMEOUT");
+  });
+
+  test("reports missing directories", async () => {
+    const result = await callTool(shellTool, { command: "ls", directory: join(workspace.root, "missing") });
+    expect(structured(result).error.code).toBe("ENOENT");
+  });
+});
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import webFetch from "../src/tools/web-fetch.tool.js";
+import { freshUntil, isStorable } from "../src/utils/web-cache.js";
+import { callTool, startFixtureServer, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const LAST_MODIFIED = "Wed, 01 Jan 2025 00:00:00 GMT";
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+
+// Requests per path, and the conditional headers of the last one
+const requests = new Map<string, number>();
+const conditional = new Map<string, { ifNoneMatch: string | null; ifModifiedSince: string | null }>();
+let active = 0;
+let mostActive = 0;
+
+function counted(handler: (request: Request) => Response | Promise<Response>) {
+  return (request: Request) => {
+    const path = new URL(request.url).pathname;
+    requests.set(path, (requests.get(path) ?? 0) + 1);
+    conditional.set(path, {
+      ifNoneMatch: request.headers.get("if-none-match"),
+      ifModifiedSince: request.headers.get("if-modified-since"),
+    });
+    return handler(request);
+  };
+}
+
+const text = (body: string, headers: Record<string, string> = {}) =>
+  new Response(body, { headers: { "content-type": "text/plain", ...headers } });
+
+beforeAll(() => {
+  workspace = useTestConfig({ network: { maxConcurrentPerHost: 2, respectRobotsTxt: false } });
+  server = startFixtureServer({
+    "/fresh": counted(() => text("fresh page", { "cache-control": "max-age=60" })),
+    "/etag": counted((request) =>
+      request.headers.get("if-none-match") === '"v1"'
+        ? new Response(null, { status: 304, headers: { etag: '"v1"' } })
+        : text("tagged page", { etag: '"v1"', "cache-control": "no-cache" })
+    ),
+    "/modified": counted((request) =>
+      request.headers.get("if-modified-since") === LAST_MODIFIED
+        ? new Response(null, { status: 304 })
+        : text("dated page", { "last-modified": LAST_MODIFIED, "cache-control": "max-age=0" })
+    ),
+    "/no-store": counted(() => text("private page", { "cache-control": "no-store" })),
+    "/long": counted(() => text("0123456789".repeat(5), { "cache-control": "no-cache" })),
+    ...Object.fromEntries(
+      [1, 2, 3, 4].map((n) => [
+        `/slow/${n}`,
+        async () => {
+          mostActive = Math.max(mostActive, ++active);
+          await Bun.sleep(100);
+          active--;
+          return text(`slow page ${n}`);
+        },
+      ])
+    ),
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  workspace.cleanup();
+});
+
+const fetchUrl = async (path: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(webFetch, { urls: [server.url(path)], ...args });
+  return { result, cache: structured(result).cache as string };
+};
+
+describe("web_fetch cache", () => {
+  test("serves fresh pages from the cache", async () => {
+    expect((await fetchUrl("/fresh")).cache).toBe("miss");
+    const second = await fetchUrl("/fresh");
+    expect(second.cache).toBe("hit");
+    expect(textOf(second.result)).toContain("fresh page");
+    expect(requests.get("/fresh")).toBe(1);
+
+    expect((await fetchUrl("/fresh", { refresh: true })).cache).toBe("miss");
+    expect(requests.get("/fresh")).toBe(2);
+  });
+
+  test("revalidates stale pages with If-None-Match", async () => {
+    await fetchUrl("/etag");
+    expect(conditional.get("/etag")?.ifNoneMatch).toBeNull();
+
+    const second = await fetchUrl("/etag");
+    expect(conditional.get("/etag")?.ifNoneMatch).toBe('"v1"');
+    expect(second.cache).toBe("revalidated");
+    expect(textOf(second.result)).toContain("tagged page");
+    expect(requests.get("/etag")).toBe(2);
+  });
+
+  test("revalidates stale pages with If-Modified-Since", async () => {
+    await fetchUrl("/modified");
+    const second = await fetchUrl("/modified");
+    expect(conditional.get("/modified")?.ifModifiedSince).toBe(LAST_MODIFIED);
+    expect(second.cache).toBe("revalidated");
+    expect(textOf(second.result)).toContain("dated page");
+  });
+
+  test("does not keep responses marked no-store", async () => {
+    await fetchUrl("/no-store");
+    const second = await fetchUrl("/no-store");
+    expect(second.cache).toBe("miss");
+    expect(conditional.get("/no-store")?.ifNoneMatch).toBeNull();
+    expect(requests.get("/no-store")).toBe(2);
+  });
+
+  test("pages through a document from the cached copy, even when it is stale", async () => {
+    const first = await fetchUrl("/long", { offset: 0, limit: 10 });
+    expect(structured(first.result).nextOffset).toBe(10);
+    const next = await fetchUrl("/long", { offset: 10, limit: 10 });
+    expect(next.cache).toBe("hit");
+    expect(textOf(next.result)).toContain("0123456789");
+    expect(requests.get("/long")).toBe(1);
+  });
+});
+
+describe("freshness", () => {
+  const now = Date.parse("2025-06-01T00:00:00Z");
+  const headers = (init: Record<string, string>) => new Headers({ date: new Date(now).toUTCString(), ...init });
+
+  test("follows max-age, Age, Expires and Last-Modified in that order", () => {
+    expect(freshUntil(headers({ "cache-control": "max-age=60", expires: "0" }), now)).toBe(now + 60000);
+    expect(freshUntil(headers({ "cache-control": "max-age=60", age: "50" }), now)).toBe(now + 10000);
+    expect(freshUntil(headers({ expires: new Date(now + 5000).toUTCString() }), now)).toBe(now + 5000);
+    expect(freshUntil(headers({ expires: "0" }), now)).toBe(now);
+    expect(freshUntil(headers({ "last-modified": new Date(now - 100000).toUTCString() }), now)).toBe(now + 10000);
+    expect(freshUntil(headers({ "cache-control": "no-cache, max-age=60" }), now)).toBe(now);
+  });
+
+  test("stores only complete responses that allow it", () => {
+    expect(isStorable(200, headers({ "cache-control": "private, max-age=60" }))).toBe(true);
+    expect(isStorable(200, headers({ "cache-control": "no-store" }))).toBe(false);
+    expect(isStorable(200, headers({ vary: "*" }))).toBe(false);
+    expect(isStorable(206, headers({}))).toBe(false);
+  });
+});
+
+describe("per-host limits", () => {
+  test("sends at most maxConcurrentPerHost requests to a host at once", async () => {
+    const urls = [1, 2, 3, 4].map((n) => server.url(`/slow/${n}`));
+    const result = await callTool(webFetch, { urls, refresh: true });
+    expect(result.isError).toBeUndefined();
+    expect(mostActive).toBe(2);
+  });
+});
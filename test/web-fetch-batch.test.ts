@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import webFetch from "../src/tools/web-fetch.tool.js";
+import { callTool, startFixtureServer, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+interface Source {
+  url: string;
+  error?: { code: string };
+  totalChars?: number;
+  truncated?: boolean;
+}
+
+const slowPage = async () => {
+  await Bun.sleep(300);
+  return new Response("<main><p>Slow page</p></main>", { headers: { "content-type": "text/html" } });
+};
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+let pausedServer: ReturnType<typeof startFixtureServer>;
+
+beforeAll(() => {
+  workspace = useTestConfig({ network: { maxConcurrentPerHost: 1, respectRobotsTxt: false } });
+  server = startFixtureServer({
+    "/slow/1": slowPage,
+    "/slow/2": slowPage,
+    "/slow/3": slowPage,
+    "/slow/4": slowPage,
+    "/short": () => new Response("short", { headers: { "content-type": "text/plain" } }),
+    "/long": () => new Response("x".repeat(5000), { headers: { "content-type": "text/plain" } }),
+  });
+  pausedServer = startFixtureServer({
+    "/busy": () => new Response("Slow down", { status: 429, headers: { "retry-after": "120" } }),
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  pausedServer.stop();
+  workspace.cleanup();
+});
+
+describe("web_fetch with several URLs", () => {
+  test("does not time out URLs while they wait for their host's turn", async () => {
+    // One request at a time: the last URL waits about 900ms, longer than its 500ms timeout
+    const urls = [1, 2, 3, 4].map((n) => server.url(`/slow/${n}`));
+    const result = await callTool(webFetch, { urls, refresh: true }, { options: { timeout: 500 } });
+    const sources = structured(result).sources as Source[];
+    expect(sources.map((source) => source.error?.code)).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  test("reports failing URLs in their own entries", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/short"), server.url("/missing")], refresh: true });
+    const sources = structured(result).sources as Source[];
+    expect(result.isError).toBeUndefined();
+    expect(sources[0].error).toBeUndefined();
+    expect(sources[1].error?.code).toBe("HTTP_ERROR");
+    expect(textOf(result)).toContain("short");
+  });
+
+  test("fails the call when every URL fails", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/missing"), server.url("/gone")], refresh: true });
+    expect(result.isError).toBe(true);
+  });
+
+  test("leaves the budget a short source does not use to the longer ones", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/short"), server.url("/long")], limit: 3000, refresh: true });
+    const [short, long] = structured(result).sources as Source[];
+    expect(short.truncated).toBe(false);
+    expect(long.truncated).toBe(true);
+    expect(textOf(result)).toContain("x".repeat(2995));
+  });
+
+  test("fails with RATE_LIMITED instead of waiting out a long Retry-After", async () => {
+    const first = await callTool(webFetch, { urls: [pausedServer.url("/busy")], refresh: true });
+    expect(structured(first).error.code).toBe("HTTP_ERROR");
+    const started = Date.now();
+    const second = await callTool(webFetch, { urls: [pausedServer.url("/busy")], refresh: true });
+    expect(structured(second).error.code).toBe("RATE_LIMITED");
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import webFetch from "../src/tools/web-fetch.tool.js";
+import { callTool, startFixtureServer, structured, textOf, TestWorkspace, useTestConfig } from "./helpers.js";
+
+const ARTICLE = `<!doctype html>
+<html>
+  <head><title>Fixture article</title></head>
+  <body>
+    <nav><a href="/">Home</a> <a href="/about">About us</a></nav>
+    <main>
+      <article>
+        <h1>Release notes</h1>
+        <p>Version 2 adds <strong>streaming</strong>. See <a href="/docs/streaming">the streaming guide</a>.</p>
+        <pre><code class="language-ts">const stream = open();</code></pre>
+        <section id="install"><h2>Install</h2><p>Run the installer once.</p></section>
+        <section class="upgrade"><h2>Upgrade</h2><p>Back up the data directory first.</p></section>
+      </article>
+    </main>
+    <aside>Related posts you may like</aside>
+    <footer>Copyright footer text</footer>
+  </body>
+</html>`;
+
+let workspace: TestWorkspace;
+let server: ReturnType<typeof startFixtureServer>;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  server = startFixtureServer({
+    "/article": () => new Response(ARTICLE, { headers: { "content-type": "text/html; charset=utf-8" } }),
+    "/data.json": () => Response.json({ name: "fixture", tags: ["a", "b"] }),
+    "/notes.txt": () => new Response("plain *notes*\n", { headers: { "content-type": "text/plain" } }),
+  });
+});
+
+afterAll(() => {
+  server.stop();
+  workspace.cleanup();
+});
+
+describe("web_fetch formats", () => {
+  test("converts HTML to markdown with absolute links and code blocks", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/article")], refresh: true });
+    const text = textOf(result);
+    expect(result.isError).toBeUndefined();
+    expect(structured(result).format).toBe("markdown");
+    expect(structured(result).title).toBe("Fixture article");
+    expect(text).toContain("# Release notes");
+    expect(text).toContain(`[the streaming guide](${server.url("/docs/streaming")})`);
+    expect(text).toContain("```ts\nconst stream = open();\n```");
+  });
+
+  test("returns plain text without links", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/article")], format: "text", refresh: true });
+    const text = textOf(result);
+    expect(structured(result).format).toBe("text");
+    expect(text).toContain("the streaming guide");
+    expect(text).not.toContain("](");
+    expect(text).not.toContain("/docs/streaming");
+  });
+
+  test("returns the body as received with raw", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/article")], format: "raw", refresh: true });
+    expect(structured(result).format).toBe("raw");
+    expect(textOf(result)).toContain('<section id="install">');
+    expect(textOf(result)).toContain("<footer>Copyright footer text</footer>");
+  });
+
+  test("pretty-prints JSON by default", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/data.json")], refresh: true });
+    expect(structured(result).format).toBe("json");
+    expect(textOf(result)).toContain('{\n  "name": "fixture",\n  "tags": [\n    "a",\n    "b"\n  ]\n}');
+  });
+
+  test("returns other content types as they are", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/notes.txt")], refresh: true });
+    expect(structured(result).format).toBe("raw");
+    expect(textOf(result)).toContain("plain *notes*");
+  });
+
+  test("refuses json for a body that is not JSON", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/notes.txt")], format: "json", refresh: true });
+    expect(result.isError).toBe(true);
+    expect(structured(result).error.code).toBe("INVALID_CONTENT");
+  });
+});
+
+describe("web_fetch main content", () => {
+  test("drops navigation, sidebars and footers by default", async () => {
+    const text = textOf(await callTool(webFetch, { urls: [server.url("/article")], refresh: true }));
+    expect(text).toContain("Back up the data directory first.");
+    expect(text).not.toContain("About us");
+    expect(text).not.toContain("Related posts");
+    expect(text).not.toContain("Copyright footer");
+  });
+
+  test("keeps the whole page with main_content false", async () => {
+    const text = textOf(
+      await callTool(webFetch, { urls: [server.url("/article")], main_content: false, refresh: true })
+    );
+    expect(text).toContain("About us");
+    expect(text).toContain("Copyright footer");
+  });
+});
+
+describe("web_fetch selectors", () => {
+  test("reads only the elements matching an ID selector", async () => {
+    const text = textOf(await callTool(webFetch, { urls: [server.url("/article")], selector: "#install", refresh: true }));
+    expect(text).toContain("Run the installer once.");
+    expect(text).not.toContain("Back up the data directory");
+    expect(text).not.toContain("Release notes");
+  });
+
+  test("supports class selectors and combinators", async () => {
+    const text = textOf(
+      await callTool(webFetch, { urls: [server.url("/article")], selector: "article > section.upgrade", refresh: true })
+    );
+    expect(text).toContain("Back up the data directory first.");
+    expect(text).not.toContain("Run the installer once.");
+  });
+
+  test("reports a selector that matches nothing", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/article")], selector: "#missing", refresh: true });
+    expect(result.isError).toBe(true);
+    expect(structured(result).error.code).toBe("NO_MATCH");
+  });
+
+  test("rejects selectors for responses that are not HTML", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/notes.txt")], selector: "p", refresh: true });
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+
+  test("rejects pseudo-classes", async () => {
+    const result = await callTool(webFetch, { urls: [server.url("/article")], selector: "p:first-child", refresh: true });
+    expect(result.isError).toBe(true);
+    expect(structured(result).error.code).toBe("INVALID_ARGUMENT");
+  });
+});
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import readFile from "../src/tools/read-file.tool.js";
+import readManyFiles from "../src/tools/read-many-files.tool.js";
+import shellTool from "../src/tools/shell.tool.js";
+import setWorkingDirectory from "../src/tools/working-directory.tool.js";
+import writeFile from "../src/tools/write-file.tool.js";
+import { forgetWorkingDirectory } from "../src/utils/working-directory.js";
+import { callTool, structured, textOf, TestWorkspace, testExtra, useTestConfig } from "./helpers.js";
+
+const extra = testExtra("working-directory-test");
+
+let workspace: TestWorkspace;
+let checkout: string;
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  checkout = join(workspace.root, "checkout");
+  mkdirSync(join(checkout, "src", "lib"), { recursive: true });
+  writeFileSync(join(checkout, "src", "main.ts"), "main\n");
+  writeFileSync(join(checkout, "src", "lib", "util.ts"), "util\n");
+});
+
+afterAll(() => {
+  forgetWorkingDirectory(extra.sessionId);
+  workspace.cleanup();
+});
+
+describe("set_working_directory", () => {
+  test("sets the session's directory, relative to the current one", async () => {
+    await callTool(setWorkingDirectory, { path: workspace.root }, { extra });
+    const result = await callTool(setWorkingDirectory, { path: "checkout" }, { extra });
+    expect(structured(result).path).toBe(checkout);
+    expect(structured(result).previous).toBe(workspace.root);
+    expect(structured(await callTool(setWorkingDirectory, {}, { extra })).path).toBe(checkout);
+  });
+
+  test("leaves other sessions alone", async () => {
+    const other = await callTool(setWorkingDirectory, {}, { extra: testExtra("working-directory-other") });
+    expect(structured(other).path).not.toBe(checkout);
+  });
+
+  test("refuses files and paths outside the workspace", async () => {
+    const file = await callTool(setWorkingDirectory, { path: join("src", "main.ts") }, { extra });
+    expect(structured(file).error.code).toBe("ENOTDIR");
+    const outside = await callTool(setWorkingDirectory, { path: "/" }, { extra });
+    expect(structured(outside).error.code).toBe("OUTSIDE_WORKSPACE");
+  });
+});
+
+describe("relative paths", () => {
+  test("are resolved against the session's directory by the file tools", async () => {
+    const read = await callTool(readFile, { absolute_path: join("src", "main.ts") }, { extra });
+    expect(structured(read).path).toBe(join(checkout, "src", "main.ts"));
+
+    await callTool(writeFile, { file_path: "notes.txt", content: "written\n" }, { extra });
+    expect(readFileSync(join(checkout, "notes.txt"), "utf-8")).toBe("written\n");
+  });
+
+  test.skipIf(process.platform === "win32")("set where commands run", async () => {
+    const inCheckout = await callTool(shellTool, { command: "pwd" }, { extra });
+    expect(structured(inCheckout).stdout.trim()).toBe(checkout);
+    const inSrc = await callTool(shellTool, { command: "pwd", directory: "src" }, { extra });
+    expect(structured(inSrc).stdout.trim()).toBe(join(checkout, "src"));
+  });
+});
+
+describe("read_many_files", () => {
+  test("matches and reports paths relative to base_dir", async () => {
+    const result = await callTool(readManyFiles, { patterns: ["**/*.ts"], base_dir: "src" }, { extra });
+    expect(structured(result).baseDir).toBe(join(checkout, "src"));
+    expect((structured(result).files as Array<{ path: string }>).map((file) => file.path).sort()).toEqual([
+      join("lib", "util.ts"),
+      "main.ts",
+    ]);
+    expect(textOf(result)).toContain(`--- ${join("lib", "util.ts")} ---`);
+  });
+
+  test("defaults base_dir to the session's directory", async () => {
+    const result = await callTool(readManyFiles, { patterns: ["src/*.ts"] }, { extra });
+    expect(structured(result).baseDir).toBe(checkout);
+    const files = structured(result).files as Array<{ path: string }>;
+    expect(files.map((file) => file.path)).toEqual([join("src", "main.ts")]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, symlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import readFile from "../src/tools/read-file.tool.js";
+import writeFile from "../src/tools/write-file.tool.js";
+import { errorCodeOf } from "../src/utils/tool-result.js";
+import { assertGlobPatternInWorkspace, resolveWorkspaceEntry, resolveWorkspacePath } from "../src/utils/workspace.js";
+import { callTool, structured, TestWorkspace, useTestConfig } from "./helpers.js";
+
+let workspace: TestWorkspace;
+
+function codeOf(action: () => unknown): string | undefined {
+  try {
+    action();
+    return undefined;
+  } catch (error) {
+    return errorCodeOf(error);
+  }
+}
+
+beforeAll(() => {
+  workspace = useTestConfig();
+  mkdirSync(join(workspace.root, "src"));
+  writeFileSync(join(workspace.root, "src", "index.ts"), "export {};\n");
+  symlinkSync("/etc", join(workspace.root, "etc-link"));
+  symlinkSync(join(workspace.root, "src"), join(workspace.root, "src-link"));
+});
+
+afterAll(() => workspace.cleanup());
+
+describe("resolveWorkspacePath", () => {
+  test("resolves relative paths against the base directory", () => {
+    expect(resolveWorkspacePath("src/index.ts", workspace.root)).toBe(join(workspace.root, "src", "index.ts"));
+  });
+
+  test("accepts paths that do not exist yet", () => {
+    expect(resolveWorkspacePath(join(workspace.root, "new", "file.txt"))).toBe(join(workspace.root, "new", "file.txt"));
+  });
+
+  test("refuses paths that climb out of the roots", () => {
+    expect(codeOf(() => resolveWorkspacePath("../../etc/passwd", workspace.root))).toBe("OUTSIDE_WORKSPACE");
+    expect(codeOf(() => resolveWorkspacePath("/etc/passwd"))).toBe("OUTSIDE_WORKSPACE");
+  });
+
+  test("follows symlinks before checking", () => {
+    expect(codeOf(() => resolveWorkspacePath(join(workspace.root, "etc-link", "passwd")))).toBe("OUTSIDE_WORKSPACE");
+    expect(resolveWorkspacePath(join(workspace.root, "src-link", "index.ts"))).toBe(join(workspace.root, "src", "index.ts"));
+  });
+
+  test("refuses empty paths", () => {
+    expect(codeOf(() => resolveWorkspacePath("  "))).toBe("INVALID_PATH");
+  });
+});
+
+describe("resolveWorkspaceEntry", () => {
+  test("keeps a symlink itself instead of its target", () => {
+    expect(resolveWorkspaceEntry(join(workspace.root, "etc-link"))).toBe(join(workspace.root, "etc-link"));
+  });
+});
+
+describe("assertGlobPatternInWorkspace", () => {
+  test("accepts patterns under a root and refuses others", () => {
+    expect(codeOf(() => assertGlobPatternInWorkspace("src/**/*.ts", workspace.root))).toBeUndefined();
+    expect(codeOf(() => assertGlobPatternInWorkspace("/etc/**/*.conf"))).toBe("OUTSIDE_WORKSPACE");
+  });
+});
+
+describe("filesystem tools", () => {
+  test("read_file refuses files outside the roots", async () => {
+    const result = await callTool(readFile, { absolute_path: "/etc/hostname" });
+    expect(structured(result).error.code).toBe("OUTSIDE_WORKSPACE");
+  });
+
+  test("write_file refuses to write through a symlink that leaves the roots", async () => {
+    const result = await callTool(writeFile, { file_path: join(workspace.root, "etc-link", "evil.conf"), content: "x" });
+    expect(structured(result).error.code).toBe("OUTSIDE_WORKSPACE");
+  });
+});